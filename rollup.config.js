@@ -31,6 +31,29 @@ export default [{
 		}
 		console.warn(message);
 	}
+}, {
+	input: './src/ts/parsing_worker.ts',
+	plugins: [
+		resolve({
+			browser: true
+		}),
+		commonjs(),
+		typescript(),
+		external_globals({
+			'three': 'THREE'
+		})
+	],
+	output: {
+		format: 'iife',
+		file: './src/js/parsers.js',
+		name: 'parsers' // The worker accesses the parsers through this global
+	},
+	onwarn: function (message) {
+		if (message.code === 'CIRCULAR_DEPENDENCY' || message.code === "MISSING_GLOBAL_NAME") {
+			return;
+		}
+		console.warn(message);
+	}
 }, {
 	input: './server/ts/index.ts',
 	plugins: [
@@ -47,4 +70,41 @@ export default [{
 		}
 		console.warn(message);
 	}
+}, {
+	input: './server/ts/admin_cli.ts',
+	plugins: [
+		externals(),
+		typescript()
+	],
+	output: {
+		format: 'cjs',
+		file: './server/admin.js'
+	},
+	onwarn: function (message) {
+		if (message.code === 'CIRCULAR_DEPENDENCY' || message.code === "MISSING_GLOBAL_NAME" || message.code === "UNRESOLVED_IMPORT") {
+			return;
+		}
+		console.warn(message);
+	}
+}, {
+	input: './src/ts/headless.ts',
+	plugins: [
+		externals(),
+		typescript(),
+		external_globals({
+			'three': 'THREE',
+			'./declarations/oimo': 'OIMO',
+			'../declarations/oimo': 'OIMO'
+		})
+	],
+	output: {
+		format: 'cjs',
+		file: './server/headless.js'
+	},
+	onwarn: function (message) {
+		if (message.code === 'CIRCULAR_DEPENDENCY' || message.code === "MISSING_GLOBAL_NAME" || message.code === "UNRESOLVED_IMPORT") {
+			return;
+		}
+		console.warn(message);
+	}
 }];
\ No newline at end of file
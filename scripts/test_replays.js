@@ -0,0 +1,109 @@
+// Records scripted runs in headless levels, plays the recorded replays back and checks that the marble takes the exact same path.
+// Needs the headless build, so run "npm run compile" first.
+
+const fs = require('fs');
+const path = require('path');
+
+const HEADLESS_BUNDLE_PATH = path.join(__dirname, '..', 'server', 'headless.js');
+
+if (!fs.existsSync(HEADLESS_BUNDLE_PATH)) {
+	console.error("The headless build is missing. Run \"npm run compile\" first.");
+	process.exit(1);
+}
+const headless = require(HEADLESS_BUNDLE_PATH);
+
+/** Gets the marble position after every tick of a run, indexed like the ticks of the level's replay. */
+const runAndTrack = (level, script, maxTicks) => {
+	let positions = [];
+	let lastTickIndex = level.replay.currentTickIndex;
+	const track = () => {
+		// Ticks cut short by a respawn aren't part of the replay, so go by the replay's tick index
+		let tickIndex = level.replay.currentTickIndex;
+		if (tickIndex !== lastTickIndex && tickIndex > 0) positions[tickIndex - 1] = level.marble.body.getPosition().clone();
+		lastTickIndex = tickIndex;
+	};
+
+	headless.runHeadless(level, (tickIndex, level) => {
+		track();
+		return script(tickIndex, level);
+	}, maxTicks);
+	track();
+
+	positions.length = level.replay.currentTickIndex; // Restarting the level starts a new replay, so only the last attempt counts
+	return positions;
+};
+
+/** Records a run, plays it back and compares the two tick by tick. Returns an error message if they differ. */
+const recordAndPlayBack = (level, script, maxTicks) => {
+	let recorded = runAndTrack(level, script, maxTicks);
+
+	level.replay.mode = 'playback';
+	level.restart(true);
+	let played = runAndTrack(level, () => ({}), Infinity);
+
+	if (played.length !== recorded.length) return `Playback lasted ${played.length} ticks, but the run lasted ${recorded.length}.`;
+
+	for (let i = 0; i < recorded.length; i++) {
+		let a = recorded[i];
+		let b = played[i];
+		if (a.x !== b.x || a.y !== b.y || a.z !== b.z) return `The positions diverged at tick ${i}: (${a.x}, ${a.y}, ${a.z}) was recorded, (${b.x}, ${b.y}, ${b.z}) was played back.`;
+	}
+
+	return null;
+};
+
+const tests = [{
+	name: "Rolling, jumping and using powerups",
+	missionPath: 'beginner/superspeed.mis',
+	async run(level) {
+		return recordAndPlayBack(level, (i, level) => ({
+			movement: { x: Math.cos(i / 300), y: Math.sin(i / 170) * 0.5 },
+			jump: i % 97 === 0,
+			use: i % 400 === 0,
+			yaw: level.yaw + 0.001 * Math.sin(i / 50)
+		}), 120 * 20);
+	}
+}, {
+	name: "Respawning at the start in hunt mode",
+	missionPath: 'beginner/gems.mis',
+	async run(level) {
+		// Turn the level into a hunt level with gems all over the place
+		level.mission.gameMode = 'hunt';
+		level.mission.qualifyTime = 20000;
+		level.mission.missionInfo.radiusfromgem = '1000';
+		level.mission.missionInfo.maxgemsperspawn = '3';
+		level.restart(true);
+
+		let error = recordAndPlayBack(level, (i, level) => ({
+			movement: { x: 0.2 * Math.sin(i / 100), y: 1 }, // Roll off the edge again and again
+			jump: i % 50 === 0,
+			use: level.outOfBounds // Skip the wait and go back to the start right away
+		}), 120 * 20);
+		if (!error && level.replay.startRespawns.length === 0) error = "The marble never went out of bounds, so there was nothing to test.";
+
+		return error;
+	}
+}];
+
+(async () => {
+	headless.initHeadless('gold');
+	let failed = 0;
+
+	for (let test of tests) {
+		let level = await headless.loadHeadlessLevel(test.missionPath);
+		let error = await test.run(level);
+		level.stop();
+
+		if (error) failed++;
+		console.log(`${error? '✗' : '✓'} ${test.name}${error? ': ' + error : ''}`);
+	}
+
+	if (failed > 0) {
+		console.error(`${failed} of ${tests.length} tests failed.`);
+		process.exit(1);
+	}
+	console.log(`All ${tests.length} tests passed.`);
+})().catch(e => {
+	console.error(e);
+	process.exit(1);
+});
@@ -0,0 +1,79 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+import { shared } from './shared';
+import { AccountRow, ACCOUNT_USER_ID_PREFIX, createSessionToken } from './sessions';
+import { claimScores } from './leaderboard';
+import { getClientAddress, RateLimiter, sendJson } from './util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+const MIN_PASSWORD_LENGTH = 6;
+/** Every attempt to log in or register hashes a password, which is slow on purpose, so each address only gets a few of them. */
+const authRateLimiter = new RateLimiter(10, 10 * 60 * 1000);
+
+const hashPassword = async (password: string, salt: string) => {
+	return (await scrypt(password, salt, 64)).toString('hex');
+};
+
+const sendTooManyAttempts = (res: http.ServerResponse) => {
+	sendJson(res, 429, { error: "Too many attempts. Please wait a few minutes and try again." });
+};
+
+/** Logs the player in and hands the scores set by their device over to their account. */
+const startSession = async (res: http.ServerResponse, account: AccountRow, randomId: string) => {
+	if (randomId && !randomId.startsWith(ACCOUNT_USER_ID_PREFIX)) await claimScores(account, randomId);
+
+	sendJson(res, 200, {
+		name: account.name,
+		token: createSessionToken(account)
+	});
+};
+
+/** Creates a new player account. Names that are already on the leaderboard can only be registered from the device that set those scores. */
+export const register = async (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
+	if (!body) throw new Error("Missing body.");
+	if (!authRateLimiter.attempt(getClientAddress(req))) return sendTooManyAttempts(res);
+
+	let data: {
+		name: string,
+		password: string,
+		randomId: string
+	} = JSON.parse(body);
+	let name = String(data.name ?? '').trim().slice(0, 16);
+	let password = String(data.password ?? '');
+
+	if (name.length < 2) return sendJson(res, 400, { error: "Please enter a proper name." });
+	if (password.length < MIN_PASSWORD_LENGTH) return sendJson(res, 400, { error: `The password needs to be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+	if (shared.getAccountByNameStatement.get(name)) return sendJson(res, 409, { error: "This name has already been registered." });
+
+	let foreignScoreCount: number = shared.getForeignScoreCountStatement.pluck().get(name, String(data.randomId));
+	if (foreignScoreCount > 0) return sendJson(res, 409, { error: "This name is already being used by someone else on the leaderboard." });
+
+	let salt = crypto.randomBytes(16).toString('hex');
+	let passwordHash = await hashPassword(password, salt);
+	let result = shared.insertAccountStatement.run(name, passwordHash, salt, Date.now());
+	let account: AccountRow = shared.getAccountByIdStatement.get(result.lastInsertRowid);
+
+	await startSession(res, account, data.randomId);
+};
+
+/** Checks the credentials of a player and gives them a session token. */
+export const login = async (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
+	if (!body) throw new Error("Missing body.");
+	if (!authRateLimiter.attempt(getClientAddress(req))) return sendTooManyAttempts(res);
+
+	let data: {
+		name: string,
+		password: string,
+		randomId: string
+	} = JSON.parse(body);
+
+	let account: AccountRow = shared.getAccountByNameStatement.get(String(data.name ?? '').trim());
+	let passwordHash = account? await hashPassword(String(data.password ?? ''), account.salt) : null;
+	if (!account || !crypto.timingSafeEqual(Buffer.from(passwordHash, 'hex'), Buffer.from(account.password_hash, 'hex'))) {
+		return sendJson(res, 401, { error: "The name or password is incorrect." });
+	}
+
+	await startSession(res, account, data.randomId);
+};
\ No newline at end of file
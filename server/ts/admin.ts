@@ -0,0 +1,234 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+
+import { shared } from './shared';
+import { broadcastScores, deleteScore, getWrecPath, isHuntMission, ScoreRow } from './leaderboard';
+import { sendJson } from './util';
+
+/** What can be sent to the moderation API. Which fields are needed depends on the action. */
+export interface AdminRequest {
+	action: string,
+	scoreId?: number,
+	randomId?: string,
+	reason?: string,
+	from?: string,
+	to?: string,
+	mission?: string,
+	challengeId?: string,
+	limit?: number
+}
+
+interface ModeratedScoreRow extends ScoreRow {
+	hidden?: number,
+	banned?: number
+}
+
+/** An error that's reported back to the moderator with the given status code. */
+class ModerationError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.status = status;
+	}
+}
+
+const getScore = (scoreId: number) => {
+	let row: ScoreRow = shared.getScoreByIdStatement.get(Number(scoreId));
+	if (!row) throw new ModerationError(404, `There is no score with ID ${scoreId}.`);
+
+	return row;
+};
+
+const requireField = (data: AdminRequest, field: keyof AdminRequest) => {
+	if (data[field] === undefined || data[field] === null || data[field] === '') throw new ModerationError(400, `Missing "${field}".`);
+};
+
+const logAction = (action: string, details: unknown) => {
+	shared.insertAdminActionStatement.run(action, JSON.stringify(details), Date.now());
+};
+
+/** Lets connected clients know that the leaderboards of these missions have changed. */
+const broadcastChanges = async (missions: string[]) => {
+	for (let mission of new Set(missions)) await broadcastScores('change', mission);
+};
+
+/** The things moderators can do. Everything that changes something is recorded in the audit log. */
+const actions: Record<string, (data: AdminRequest) => Promise<unknown>> = {
+	/** Lists all scores on a mission, including the hidden ones and the ones of banned players. */
+	async scores(data) {
+		requireField(data, 'mission');
+
+		let rows: ModeratedScoreRow[] = shared.getAllScoresForMissionStatement.all(data.mission);
+		if (isHuntMission(data.mission)) rows.sort((a, b) => (b.time - a.time) || (a.timestamp - b.timestamp));
+
+		return rows.map(x => ({ ...x, hidden: !!x.hidden, banned: !!x.banned }));
+	},
+
+	async deleteScore(data) {
+		let row = getScore(data.scoreId);
+		await deleteScore(row.rowid);
+		shared.unhideScoreHistoryStatement.run(row.mission, row.time, row.user_random_id, row.username);
+		shared.deleteScoreHistoryStatement.run(row.mission, row.time, row.user_random_id, row.username);
+		logAction('deleteScore', { score: row });
+		await broadcastChanges([row.mission]);
+
+		return { deleted: row };
+	},
+
+	/** Takes a score off the leaderboard while keeping it around, in case it turns out to be legit after all. */
+	async hideScore(data) {
+		let row = getScore(data.scoreId);
+		shared.hideScoreStatement.run(row.rowid);
+		shared.hideScoreHistoryStatement.run(row.mission, row.time, row.user_random_id, row.username);
+		logAction('hideScore', { score: row });
+		await broadcastChanges([row.mission]);
+
+		return { hidden: row };
+	},
+
+	async unhideScore(data) {
+		let row = getScore(data.scoreId);
+		shared.unhideScoreStatement.run(row.rowid);
+		shared.unhideScoreHistoryStatement.run(row.mission, row.time, row.user_random_id, row.username);
+		logAction('unhideScore', { score: row });
+		await broadcastChanges([row.mission]);
+
+		return { unhidden: row };
+	},
+
+	/** Hides all scores of a player and ignores everything they submit from now on. Accounts are banned using their "account:<id>" user ID. */
+	async ban(data) {
+		requireField(data, 'randomId');
+
+		shared.banUserStatement.run(data.randomId, data.reason ?? null, Date.now());
+		logAction('ban', { randomId: data.randomId, reason: data.reason ?? null });
+		let rows: ScoreRow[] = shared.getScoresByRandomIdStatement.all(data.randomId);
+		await broadcastChanges(rows.map(x => x.mission));
+
+		return { banned: data.randomId, scoreCount: rows.length };
+	},
+
+	async unban(data) {
+		requireField(data, 'randomId');
+		if (!shared.getBanStatement.get(data.randomId)) throw new ModerationError(404, `${data.randomId} isn't banned.`);
+
+		shared.unbanUserStatement.run(data.randomId);
+		logAction('unban', { randomId: data.randomId });
+		let rows: ScoreRow[] = shared.getScoresByRandomIdStatement.all(data.randomId);
+		await broadcastChanges(rows.map(x => x.mission));
+
+		return { unbanned: data.randomId, scoreCount: rows.length };
+	},
+
+	/** Renames a player on all of their scores, including their score history and challenge scores, and their account too if they have one. */
+	async rename(data) {
+		requireField(data, 'from');
+		requireField(data, 'to');
+		let to = data.to.trim().slice(0, 16);
+		if (to.length < 2) throw new ModerationError(400, "The new name is too short.");
+
+		// Account names are compared without regard to case, so names on scores are too
+		let account = shared.getAccountByNameStatement.get(to);
+		if (account && account.rowid !== shared.getAccountByNameStatement.get(data.from)?.rowid) throw new ModerationError(409, `"${to}" belongs to another account.`);
+
+		let accountCount = shared.renameAccountStatement.run(to, data.from).changes;
+		let scoreCount = shared.renameUserStatement.run(to, data.from).changes;
+		let historyCount = shared.renameUserHistoryStatement.run(to, data.from).changes;
+		let challengeScoreCount = shared.renameChallengeUserStatement.run(to, data.from).changes;
+		logAction('rename', { from: data.from, to, scoreCount, historyCount, challengeScoreCount, accountCount });
+		let rows: ScoreRow[] = shared.getScoresByUsernameStatement.all(to);
+		await broadcastChanges(rows.map(x => x.mission));
+
+		return { from: data.from, to, scoreCount, historyCount, challengeScoreCount, accountCount };
+	},
+
+	/** Deletes every score on a mission along with the replays and the score history, for example when the mission was broken. */
+	async purgeMission(data) {
+		requireField(data, 'mission');
+
+		let rows: ScoreRow[] = shared.getAllScoresForMissionStatement.all(data.mission);
+		for (let row of rows) await deleteScore(row.rowid);
+		shared.deleteMissionHiddenScoreHistoryStatement.run(data.mission);
+		shared.deleteMissionScoreHistoryStatement.run(data.mission);
+		if (!data.mission.includes('\\')) await fs.remove(getWrecPath(data.mission));
+
+		logAction('purgeMission', { mission: data.mission, scores: rows });
+		await broadcastChanges([data.mission]);
+
+		return { mission: data.mission, scoreCount: rows.length };
+	},
+
+	/** Deletes the world record .wrec of a mission, for when it doesn't belong to the current world record anymore. */
+	async deleteWrec(data) {
+		requireField(data, 'mission');
+
+		// Slashes get replaced, but also watch out for backslashes so the path can't leave the directory
+		let wrecPath = getWrecPath(data.mission);
+		if (data.mission.includes('\\') || !(await fs.pathExists(wrecPath))) throw new ModerationError(404, `There is no .wrec for ${data.mission}.`);
+
+		await fs.remove(wrecPath);
+		logAction('deleteWrec', { mission: data.mission });
+
+		return { mission: data.mission };
+	},
+
+	/** Lists all scores of a challenge, including the ones of banned players. */
+	async challengeScores(data) {
+		requireField(data, 'challengeId');
+
+		let rows: ModeratedScoreRow[] = shared.getAllChallengeScoresStatement.all(data.challengeId);
+		if (rows.length > 0 && isHuntMission(rows[0].mission)) rows.sort((a, b) => (b.time - a.time) || (a.timestamp - b.timestamp));
+
+		return rows.map(x => ({ ...x, banned: !!x.banned }));
+	},
+
+	/** Deletes a score from the leaderboard of a challenge. Takes the ID the challengeScores action lists. */
+	async deleteChallengeScore(data) {
+		let row: ScoreRow & { challenge_id: string } = shared.getChallengeScoreByIdStatement.get(Number(data.scoreId));
+		if (!row) throw new ModerationError(404, `There is no challenge score with ID ${data.scoreId}.`);
+
+		shared.deleteChallengeScoreStatement.run(row.rowid);
+		logAction('deleteChallengeScore', { score: row });
+
+		return { deleted: row };
+	},
+
+	/** Lists the latest moderation actions, newest first. */
+	async audit(data) {
+		let rows: { action: string, details: string, timestamp: number }[] = shared.getAdminActionsStatement.all(Number(data.limit) || 50);
+		return rows.map(x => ({ ...x, details: JSON.parse(x.details) }));
+	}
+};
+
+/** Handles a request to the moderation API. Only requests carrying the admin token from the config get through. */
+export const handleAdminRequest = async (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
+	if (!shared.config.adminToken) {
+		// The moderation API is turned off
+		res.writeHead(404);
+		res.end();
+		return;
+	}
+
+	let expected = Buffer.from('Bearer ' + shared.config.adminToken);
+	let actual = Buffer.from(req.headers.authorization ?? '');
+	if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+		res.writeHead(401);
+		res.end();
+		return;
+	}
+
+	if (!body) throw new Error("Missing body.");
+	let data: AdminRequest = JSON.parse(body);
+
+	let action = Object.prototype.hasOwnProperty.call(actions, data.action)? actions[data.action] : null;
+	if (!action) return sendJson(res, 400, { error: `Unknown action "${data.action}".` });
+
+	try {
+		sendJson(res, 200, await action(data));
+	} catch (e) {
+		if (!(e instanceof ModerationError)) throw e;
+		sendJson(res, e.status, { error: e.message });
+	}
+};
\ No newline at end of file
@@ -0,0 +1,130 @@
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import fetch, { Response } from 'node-fetch';
+
+import type { AdminRequest } from './admin';
+import { shared } from './shared';
+import { getWebhookTargets, sendSampleEvent, WebhookTarget } from './webhooks';
+
+const USAGE = `Usage: npm run admin -- <command> [arguments]
+
+Commands:
+  scores <mission>          List all scores on a mission, including hidden ones
+  delete <scoreId>          Delete a score and its replay
+  hide <scoreId>            Take a score off the leaderboard without deleting it
+  unhide <scoreId>          Put a hidden score back on the leaderboard
+  ban <randomId> [reason]   Hide all scores of a player and ignore their submissions
+  unban <randomId>          Lift a ban
+  rename <from> <to>        Rename a player on all of their scores
+  purge <mission>           Delete all scores on a mission
+  delete-wrec <mission>     Delete the world record .wrec of a mission
+  challenge-scores <id>     List all scores of a challenge, like daily-2024-05-17
+  delete-challenge <id>     Delete a score from the leaderboard of a challenge
+  audit [limit]             Show the latest moderation actions
+  test-webhooks             Show what the configured webhooks would send for a new world record`;
+
+/** Turns the command line arguments into a request to the moderation API. Returns null if they don't make sense. */
+const parseArguments = (args: string[]): AdminRequest => {
+	let [command, first, second] = args;
+	if (!command) return null;
+
+	switch (command) {
+		case 'scores': return first? { action: 'scores', mission: first } : null;
+		case 'delete': return first? { action: 'deleteScore', scoreId: Number(first) } : null;
+		case 'hide': return first? { action: 'hideScore', scoreId: Number(first) } : null;
+		case 'unhide': return first? { action: 'unhideScore', scoreId: Number(first) } : null;
+		case 'ban': return first? { action: 'ban', randomId: first, reason: args.slice(2).join(' ') || undefined } : null;
+		case 'unban': return first? { action: 'unban', randomId: first } : null;
+		case 'rename': return (first && second)? { action: 'rename', from: first, to: second } : null;
+		case 'purge': return first? { action: 'purgeMission', mission: first } : null;
+		case 'delete-wrec': return first? { action: 'deleteWrec', mission: first } : null;
+		case 'challenge-scores': return first? { action: 'challengeScores', challengeId: first } : null;
+		case 'delete-challenge': return first? { action: 'deleteChallengeScore', scoreId: Number(first) } : null;
+		case 'audit': return { action: 'audit', limit: Number(first) || undefined };
+		default: return null;
+	}
+};
+
+/** Sends a sample world record to a stand-in endpoint on this machine instead of the real webhook targets, and prints what it received. */
+const testWebhooks = async () => {
+	let targets = getWebhookTargets();
+	if (targets.length === 0) {
+		console.log("No webhooks are configured, so here's what each format looks like with the default message.\n");
+		targets = (['discord', 'slack', 'json'] as WebhookTarget['format'][]).map(format => ({ url: null, format }));
+	}
+
+	let lastBody: string = null;
+	let server = http.createServer((req, res) => {
+		let chunks: Buffer[] = [];
+		req.on('data', chunk => chunks.push(chunk));
+		req.on('end', () => {
+			lastBody = Buffer.concat(chunks).toString();
+			res.end();
+		});
+	});
+	await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+	let url = `http://localhost:${(server.address() as AddressInfo).port}/`;
+
+	for (let target of targets) {
+		await sendSampleEvent(target, url);
+		console.log(`${target.format} webhook${target.url? ' (' + target.url + ')' : ''}:`);
+		console.log(JSON.stringify(JSON.parse(lastBody), null, '\t') + '\n');
+	}
+
+	server.close();
+};
+
+/** Runs a command. Most of them go to the moderation API of the server running on this machine, using the admin token from its config. */
+const main = async () => {
+	let config = JSON.parse((await fs.readFile(path.join(__dirname, 'data', 'config.json'))).toString());
+	if (process.argv[2] === 'test-webhooks') {
+		shared.config = config;
+		await testWebhooks();
+		return;
+	}
+
+	let request = parseArguments(process.argv.slice(2));
+	if (!request) {
+		console.log(USAGE);
+		process.exit(1);
+	}
+
+	if (!config.adminToken) {
+		console.error("Set adminToken in server/data/config.json (and restart the server) to use the moderation API.");
+		process.exit(1);
+	}
+
+	let response: Response;
+	try {
+		response = await fetch(`http://localhost:${config.port}/api/admin`, {
+			method: 'POST',
+			headers: {
+				'Authorization': 'Bearer ' + config.adminToken
+			},
+			body: JSON.stringify(request)
+		});
+	} catch (e) {
+		console.error("Couldn't reach the server. Is it running?");
+		process.exit(1);
+	}
+	if (response.status === 401) {
+		console.error("The server didn't accept the admin token. Was it restarted after the token was changed?");
+		process.exit(1);
+	}
+
+	let data = await response.json().catch(() => null);
+	if (!response.ok) {
+		console.error(data?.error ?? `Request failed with status ${response.status}.`);
+		process.exit(1);
+	}
+
+	if (request.action === 'scores' || request.action === 'challengeScores') console.table(data);
+	else console.log(JSON.stringify(data, null, '\t'));
+};
+
+main().catch(e => {
+	console.error(e.message);
+	process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,137 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+
+import { shared } from './shared';
+import { getClientAddress, sendJson } from './util';
+import { SimulationQueueFullError, verifyReplay } from './replays';
+import { getMissionNameFromMissionPath, isHuntMission, ScoreRow } from './leaderboard';
+import { ACCOUNT_USER_ID_PREFIX, getAccountUserId, verifySessionToken } from './sessions';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type ChallengeType = 'daily' | 'weekly';
+
+/** A mission everyone plays for a limited time, with a leaderboard of its own. */
+export interface Challenge {
+	/** Like "daily-2024-05-17". Weekly challenges are named after the Monday they start on. */
+	id: string,
+	type: ChallengeType,
+	mission: string,
+	missionName: string,
+	startsAt: number,
+	endsAt: number
+}
+
+/** Gets the paths of all missions that can come up in a challenge: the default levels and the single player custom levels. */
+const getMissionPool = () => {
+	let missionPaths = Object.keys(shared.levelNameMap);
+
+	for (let entry of shared.claList) {
+		if (entry.gameType?.toLowerCase() !== 'single' && entry.gameMode?.toLowerCase() !== 'hunt') continue; // Multiplayer levels can't be played here
+
+		let missionPath = 'custom/' + entry.id;
+		if (entry.modification === 'platinum') missionPath = 'mbp/' + missionPath;
+		if (entry.modification === 'ultra') missionPath = 'mbu/' + missionPath;
+		missionPaths.push(missionPath);
+	}
+
+	return missionPaths;
+};
+
+/** Gets the challenge of a type that's running at a given time. The mission is picked based on the ID alone, so every server comes to the same result. */
+export const getChallenge = (type: ChallengeType, time = Date.now()): Challenge => {
+	let startsAt = Math.floor(time / DAY) * DAY; // Midnight UTC
+	if (type === 'weekly') startsAt -= ((new Date(startsAt).getUTCDay() + 6) % 7) * DAY; // Back to Monday
+	let id = type + '-' + new Date(startsAt).toISOString().split('T')[0];
+
+	let missionPaths = getMissionPool();
+	let hash = crypto.createHash('sha256').update(id).digest();
+	let mission = missionPaths[hash.readUInt32BE(0) % missionPaths.length];
+
+	return {
+		id,
+		type,
+		mission,
+		missionName: getMissionNameFromMissionPath(mission),
+		startsAt,
+		endsAt: startsAt + ((type === 'daily')? DAY : 7 * DAY)
+	};
+};
+
+/** Gets the scores of a challenge, best one first. */
+const getChallengeScores = (challenge: Challenge) => {
+	let rows: ScoreRow[] = (isHuntMission(challenge.mission)? shared.getChallengeScoresDescStatement : shared.getChallengeScoresStatement).all(challenge.id);
+	return rows.map((x): [string, number] => [x.username.slice(0, 16), x.time]);
+};
+
+/** Transmits the current daily and weekly challenge along with their scores. Finishing one of their missions submits the score to it, but only as long as it's still running. */
+export const handleChallengeRequest = async (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
+	if (body) {
+		await submitChallengeScore(req, res, body);
+		return;
+	}
+
+	let now = Date.now();
+	let response: Record<string, Challenge & { scores: [string, number][] }> = {};
+
+	for (let type of ['daily', 'weekly'] as ChallengeType[]) {
+		let challenge = getChallenge(type, now);
+		response[type] = { ...challenge, scores: getChallengeScores(challenge) };
+	}
+
+	sendJson(res, 200, response);
+};
+
+/** Puts a score on the leaderboard of a challenge. Like on the regular leaderboard, only the best score of each player is kept. */
+const submitChallengeScore = async (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
+	let timestamp = Date.now();
+	let data: {
+		challengeId: string,
+		randomId: string,
+		name: string,
+		time: number,
+		/** The replay of the run, base64-encoded. */
+		replay: string,
+		/** Set if the player is logged into an account. */
+		token?: string
+	} = JSON.parse(body);
+
+	let challenge = (['daily', 'weekly'] as ChallengeType[]).map(type => getChallenge(type, timestamp)).find(x => x.id === data.challengeId);
+	if (!challenge) return sendJson(res, 410, { error: "This challenge is already over." });
+
+	let account = data.token? verifySessionToken(data.token) : null;
+	if (data.token && !account) return sendJson(res, 401, { error: "Your account session has expired. Log in again to take part in challenges." });
+	if (!account && String(data.randomId).startsWith(ACCOUNT_USER_ID_PREFIX)) throw new Error("Invalid random ID.");
+	let userId = account? getAccountUserId(account) : data.randomId;
+
+	let name = account? account.name : String(data.name ?? '').trim().slice(0, 16);
+	if (name.length < 2) return sendJson(res, 400, { error: "Missing name." });
+	if (!account && shared.getAccountByNameStatement.get(name)) return sendJson(res, 409, { error: `"${name}" belongs to an account. Log in to use it.` });
+
+	if (shared.getBanStatement.get(userId)) {
+		// Banned players can keep playing, their scores just don't go anywhere
+		sendJson(res, 200, { ...challenge, scores: getChallengeScores(challenge) });
+		return;
+	}
+
+	let time = Number(data.time);
+	let isHunt = isHuntMission(challenge.mission);
+	let rejectionReason: string;
+	try {
+		rejectionReason = !Number.isFinite(time)? "Invalid time." : !data.replay? "No replay submitted." : await verifyReplay(Buffer.from(data.replay, 'base64'), challenge.mission, time, isHunt, [userId, getClientAddress(req)]);
+	} catch (e) {
+		if (!(e instanceof SimulationQueueFullError)) throw e;
+		return sendJson(res, 429, { error: "Too many of your runs are being verified right now. Please try again in a bit." });
+	}
+	if (rejectionReason) return sendJson(res, 400, { error: rejectionReason });
+
+	let row: ScoreRow = shared.getChallengeScoreByUserStatement.get(challenge.id, userId); // The name is just for display, so go by the user ID only
+	if (!row) {
+		shared.insertChallengeScoreStatement.run(challenge.id, challenge.mission, time, name, userId, timestamp);
+	} else if (isHunt? row.time < time : row.time > time) {
+		// If the new score is better, override the old one, otherwise do nothing
+		shared.updateChallengeScoreStatement.run(time, name, userId, timestamp, row.rowid);
+	}
+
+	sendJson(res, 200, { ...challenge, scores: getChallengeScores(challenge) });
+};
\ No newline at end of file
@@ -5,7 +5,7 @@ import * as url from 'url';
 import fetch from 'node-fetch';
 import JSZip from 'jszip';
 
-import { shared } from './shared';
+import { CLAEntry, shared } from './shared';
 
 /** Transmits a custom level resource, so either an image or an archive. */
 export const getCustomLevelResource = async (res: http.ServerResponse, urlObject: url.URL) => {
@@ -49,44 +49,69 @@ const getCustomLevelBitmap = async (res: http.ServerResponse, id: number) => {
 	stream.pipe(res);
 };
 
-/** Transmits a custom level archive. */
-const getCustomLevelArchive = async (res: http.ServerResponse, id: number) => {
-	let filePath = path.join(__dirname, 'storage', 'customs', `zip${id}.zip`);
+/** Gets the mission path the client uses for a custom level, like "mbp/custom/1234". */
+export const getCustomMissionPath = (claEntry: CLAEntry) => {
+	let missionPath = 'custom/' + claEntry.id;
+	if (claEntry.modification === 'platinum') missionPath = 'mbp/' + missionPath;
+	if (claEntry.modification === 'ultra') missionPath = 'mbu/' + missionPath;
+
+	return missionPath;
+};
+
+/** Gets the CLA entry of a custom mission path. Returns undefined if there is none. */
+export const getClaEntry = (missionPath: string) => {
+	let id = Number(missionPath.slice(missionPath.lastIndexOf('/') + 1));
+	return shared.claList.find(x => x.id === id && getCustomMissionPath(x) === missionPath);
+};
+
+/** Gets the path of a custom level archive in the storage directory. */
+export const getCustomLevelArchivePath = (id: number) => {
+	return path.join(__dirname, 'storage', 'customs', `zip${id}.zip`);
+};
+
+/** Makes sure a custom level archive has been downloaded and stored, cleaned up the way the client expects it. */
+export const ensureCustomLevelArchive = async (id: number) => {
+	let filePath = getCustomLevelArchivePath(id);
 	let exists = await fs.pathExists(filePath); // See if the archive has already been downloaded and saved
+	if (exists) return;
+
+	// If it doesn't exist yet, fetch it from the Marbleland API
+	let response = await fetch(`https://marbleland.vani.ga/api/level/${id}/zip?assuming=none`);
+	if (!response.ok) throw new Error("CLA archive request error.");
+
+	let buffer = await response.buffer();
+	let zip = await JSZip.loadAsync(buffer);
+	let promises: Promise<void>[] = [];
+	let modification = shared.claList.find(x => x.id === id).modification;
+
+	// Clean up the archive a bit:
+	zip.forEach((_, entry) => {
+		promises.push(new Promise(async resolve => {
+			delete zip.files[entry.name];
+
+			if (!entry.name.includes('data/')) entry.name = 'data/' + entry.name; // Ensure they got data/ in 'em
+			zip.files[entry.name] = entry;
+		
+			// Check if the asset is already part of the standard assets. If yes, remove it from the archive.
+			let filePath = path.join(shared.directoryPath, 'assets', (modification === 'gold')? entry.name : entry.name.replace('data/', 'data_mbp/')).toLowerCase(); // Case-insensitive paths
+			let exists = await fs.pathExists(filePath);
+			if (exists) zip.remove(entry.name);
+
+			resolve();
+		}));
+	});
 
-	if (!exists) {
-		// If it doesn't exist yet, fetch it from the Marbleland API
-		let response = await fetch(`https://marbleland.vani.ga/api/level/${id}/zip?assuming=none`);
-		if (!response.ok) throw new Error("CLA archive request error.");
+	await Promise.all(promises);
 
-		let buffer = await response.buffer();
-		let zip = await JSZip.loadAsync(buffer);
-		let promises: Promise<void>[] = [];
-		let modification = shared.claList.find(x => x.id === id).modification;
-
-		// Clean up the archive a bit:
-		zip.forEach((_, entry) => {
-			promises.push(new Promise(async resolve => {
-				delete zip.files[entry.name];
-
-				if (!entry.name.includes('data/')) entry.name = 'data/' + entry.name; // Ensure they got data/ in 'em
-				zip.files[entry.name] = entry;
-			
-				// Check if the asset is already part of the standard assets. If yes, remove it from the archive.
-				let filePath = path.join(shared.directoryPath, 'assets', (modification === 'gold')? entry.name : entry.name.replace('data/', 'data_mbp/')).toLowerCase(); // Case-insensitive paths
-				let exists = await fs.pathExists(filePath);
-				if (exists) zip.remove(entry.name);
-
-				resolve();
-			}));
-		});
-
-		await Promise.all(promises);
-
-		let newBuffer = await zip.generateAsync({ type: 'nodebuffer' });
-		await fs.writeFile(filePath, newBuffer); // Store the modified archive into a file
-	}
-	
+	let newBuffer = await zip.generateAsync({ type: 'nodebuffer' });
+	await fs.writeFile(filePath, newBuffer); // Store the modified archive into a file
+};
+
+/** Transmits a custom level archive. */
+const getCustomLevelArchive = async (res: http.ServerResponse, id: number) => {
+	await ensureCustomLevelArchive(id);
+
+	let filePath = getCustomLevelArchivePath(id);
 	let stats = await fs.stat(filePath);
 	let stream = fs.createReadStream(filePath);
 
@@ -1,6 +1,7 @@
 import * as http from 'http';
 import * as path from 'path';
 import * as url from 'url';
+import * as crypto from 'crypto';
 import * as Database from 'better-sqlite3';
 import * as fs from 'fs-extra';
 import * as serveStatic_ from 'serve-static';
@@ -11,15 +12,21 @@ const serveStatic = serveStatic_;
 const finalhandler = finalhandler_;
 
 import { shared } from './shared';
-import { getDirectoryStructure, getVersionHistory, logUserError, registerActivity } from './misc';
-import { getLeaderboard, submitScores, getWorldRecordSheet } from './leaderboard';
+import { getDirectoryStructure, getMissionIndex, getVersionHistory, logUserError, registerActivity, watchMissionFiles } from './misc';
+import { getLeaderboard, submitScores, getWorldRecordSheet, getWorldRecordReplay, getPlayerProfile, getWorldRecordHistory, getReplay } from './leaderboard';
 import { getCustomLevelResource } from './customs';
+import { subscribeToLiveUpdates } from './live';
+import { login, register } from './accounts';
+import { handleAdminRequest } from './admin';
+import { handleChallengeRequest } from './challenges';
 
 let db: Database.Database = null;
 
 /** Sets up the database and creates tables, indices and prepared statements. */
 const setupDb = () => {
 	db = new Database(path.join(__dirname, 'storage', 'main.db'));
+	let hadScoreHistory = !!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='score_history';`).get();
+
 	db.exec(`
 		CREATE TABLE IF NOT EXISTS score (
 			mission VARCHAR(255),
@@ -30,18 +37,118 @@ const setupDb = () => {
 		);
 		CREATE INDEX IF NOT EXISTS mission_index ON score (mission);
 		CREATE INDEX IF NOT EXISTS timestamp_index ON score (timestamp);
+		CREATE TABLE IF NOT EXISTS flagged_score (
+			mission VARCHAR(255),
+			time DOUBLE,
+			username VARCHAR(255),
+			user_random_id VARCHAR(255),
+			timestamp BIGINT,
+			reason TEXT
+		);
+		CREATE TABLE IF NOT EXISTS score_history (
+			mission VARCHAR(255),
+			time DOUBLE,
+			username VARCHAR(255),
+			user_random_id VARCHAR(255),
+			timestamp BIGINT
+		);
+		CREATE INDEX IF NOT EXISTS score_history_mission_index ON score_history (mission);
+		CREATE TABLE IF NOT EXISTS account (
+			name VARCHAR(255) NOT NULL UNIQUE COLLATE NOCASE,
+			password_hash TEXT NOT NULL,
+			salt TEXT NOT NULL,
+			created_at BIGINT
+		);
+		CREATE INDEX IF NOT EXISTS user_random_id_index ON score (user_random_id);
+		CREATE TABLE IF NOT EXISTS hidden_score (
+			score_rowid INTEGER PRIMARY KEY
+		);
+		CREATE TABLE IF NOT EXISTS banned_user (
+			user_random_id VARCHAR(255) PRIMARY KEY,
+			reason TEXT,
+			timestamp BIGINT
+		);
+		CREATE TABLE IF NOT EXISTS hidden_score_history (
+			history_rowid INTEGER PRIMARY KEY
+		);
+		CREATE TABLE IF NOT EXISTS admin_action (
+			action VARCHAR(255),
+			details TEXT,
+			timestamp BIGINT
+		);
+		CREATE TABLE IF NOT EXISTS challenge_score (
+			challenge_id VARCHAR(255),
+			mission VARCHAR(255),
+			time DOUBLE,
+			username VARCHAR(255),
+			user_random_id VARCHAR(255),
+			timestamp BIGINT
+		);
+		CREATE INDEX IF NOT EXISTS challenge_id_index ON challenge_score (challenge_id);
 	`);
+	if (!hadScoreHistory) {
+		// Earlier submissions are lost, but the scores still on the leaderboard are a good start
+		db.exec(`INSERT INTO score_history SELECT mission, time, username, user_random_id, timestamp FROM score;`);
+	}
 	db.pragma('journal_mode = WAL'); // Significantly improves performance
 
+	// Hidden scores and the scores of banned players don't show up anywhere on the leaderboard
+	const notBanned = `IFNULL(user_random_id, '') NOT IN (SELECT user_random_id FROM banned_user)`;
+	const visible = `rowid NOT IN (SELECT score_rowid FROM hidden_score) AND ${notBanned}`;
+
 	// Prepare the statements now for later use
-	shared.getScoresForMissionStatement = db.prepare(`SELECT time, username FROM score WHERE mission=? ORDER BY time ASC, timestamp ASC;`);
-	shared.getScoreByUserStatement = db.prepare(`SELECT rowid, time FROM score WHERE mission=? AND (username=? OR user_random_id=?);`);
+	shared.getScoresForMissionStatement = db.prepare(`SELECT rowid, time, username FROM score WHERE mission=? AND ${visible} ORDER BY time ASC, timestamp ASC;`);
+	shared.getScoresForMissionDescStatement = db.prepare(`SELECT rowid, time, username FROM score WHERE mission=? AND ${visible} ORDER BY time DESC, timestamp ASC;`);
+	shared.getScoreByUserStatement = db.prepare(`SELECT rowid, time FROM score WHERE mission=? AND user_random_id=?;`);
 	shared.updateScoreStatement = db.prepare(`UPDATE score SET time=?, username=?, user_random_id=?, timestamp=? WHERE rowid=?;`);
 	shared.insertScoreStatement = db.prepare(`INSERT INTO score VALUES (?, ?, ?, ?, ?);`);
-	shared.getTopScoreStatement = db.prepare(`SELECT time, username FROM score WHERE mission=? ORDER BY time ASC, timestamp ASC LIMIT 1;`);
-	shared.getMissionScoreCount = db.prepare(`SELECT COUNT(*) FROM score WHERE mission=?;`);
+	shared.getTopScoreStatement = db.prepare(`SELECT time, username FROM score WHERE mission=? AND ${visible} ORDER BY time ASC, timestamp ASC LIMIT 1;`);
+	shared.getTopScoreDescStatement = db.prepare(`SELECT time, username FROM score WHERE mission=? AND ${visible} ORDER BY time DESC, timestamp ASC LIMIT 1;`);
+	shared.getMissionScoreCount = db.prepare(`SELECT COUNT(*) FROM score WHERE mission=? AND ${visible};`);
 	shared.getNewerScoresStatement = db.prepare(`SELECT mission FROM score WHERE timestamp>?;`);
 	shared.getLatestTimestampStatement = db.prepare(`SELECT MAX(timestamp) FROM score;`);
+	shared.insertFlaggedScoreStatement = db.prepare(`INSERT INTO flagged_score VALUES (?, ?, ?, ?, ?, ?);`);
+	shared.insertScoreHistoryStatement = db.prepare(`INSERT INTO score_history VALUES (?, ?, ?, ?, ?);`);
+	shared.getScoreHistoryForMissionStatement = db.prepare(`SELECT time, username, timestamp FROM score_history WHERE mission=? AND rowid NOT IN (SELECT history_rowid FROM hidden_score_history) AND ${notBanned} ORDER BY timestamp ASC;`);
+	shared.getScoresByUsernameStatement = db.prepare(`SELECT mission, time, timestamp FROM score WHERE username=? AND ${visible} ORDER BY mission ASC;`);
+	shared.getScoreRankStatement = db.prepare(`SELECT COUNT(*) + 1 FROM score WHERE mission=? AND ${visible} AND (time<? OR (time=? AND timestamp<?));`);
+	shared.getScoreRankDescStatement = db.prepare(`SELECT COUNT(*) + 1 FROM score WHERE mission=? AND ${visible} AND (time>? OR (time=? AND timestamp<?));`);
+	shared.insertAccountStatement = db.prepare(`INSERT INTO account VALUES (?, ?, ?, ?);`);
+	shared.getAccountByIdStatement = db.prepare(`SELECT rowid, * FROM account WHERE rowid=?;`);
+	shared.getAccountByNameStatement = db.prepare(`SELECT rowid, * FROM account WHERE name=?;`);
+	shared.getForeignScoreCountStatement = db.prepare(`SELECT COUNT(*) FROM score WHERE username=? COLLATE NOCASE AND user_random_id!=?;`);
+	shared.getScoresByRandomIdStatement = db.prepare(`SELECT rowid, mission, time, timestamp FROM score WHERE user_random_id=?;`);
+	shared.claimScoreStatement = db.prepare(`UPDATE score SET username=?, user_random_id=? WHERE rowid=?;`);
+	shared.deleteScoreStatement = db.prepare(`DELETE FROM score WHERE rowid=?;`);
+	shared.getScoreByIdStatement = db.prepare(`SELECT rowid, * FROM score WHERE rowid=?;`);
+	shared.getAllScoresForMissionStatement = db.prepare(`SELECT rowid, *, rowid IN (SELECT score_rowid FROM hidden_score) AS hidden, user_random_id IN (SELECT user_random_id FROM banned_user) AS banned FROM score WHERE mission=? ORDER BY time ASC, timestamp ASC;`);
+	shared.deleteMissionScoresStatement = db.prepare(`DELETE FROM score WHERE mission=?;`);
+	shared.hideScoreStatement = db.prepare(`INSERT OR IGNORE INTO hidden_score VALUES (?);`);
+	shared.unhideScoreStatement = db.prepare(`DELETE FROM hidden_score WHERE score_rowid=?;`);
+	shared.banUserStatement = db.prepare(`INSERT OR REPLACE INTO banned_user VALUES (?, ?, ?);`);
+	shared.unbanUserStatement = db.prepare(`DELETE FROM banned_user WHERE user_random_id=?;`);
+	shared.getBanStatement = db.prepare(`SELECT * FROM banned_user WHERE user_random_id=?;`);
+	shared.renameUserStatement = db.prepare(`UPDATE score SET username=? WHERE username=? COLLATE NOCASE;`);
+	shared.renameAccountStatement = db.prepare(`UPDATE account SET name=? WHERE name=?;`);
+	shared.renameUserHistoryStatement = db.prepare(`UPDATE score_history SET username=? WHERE username=? COLLATE NOCASE;`);
+	// A score's history entry is the submission that set it: Same mission, player and time
+	const historyOfScore = `mission=? AND time=? AND (user_random_id=? OR username=?)`;
+	shared.hideScoreHistoryStatement = db.prepare(`INSERT OR IGNORE INTO hidden_score_history SELECT rowid FROM score_history WHERE ${historyOfScore};`);
+	shared.unhideScoreHistoryStatement = db.prepare(`DELETE FROM hidden_score_history WHERE history_rowid IN (SELECT rowid FROM score_history WHERE ${historyOfScore});`);
+	shared.deleteScoreHistoryStatement = db.prepare(`DELETE FROM score_history WHERE ${historyOfScore};`);
+	shared.deleteMissionHiddenScoreHistoryStatement = db.prepare(`DELETE FROM hidden_score_history WHERE history_rowid IN (SELECT rowid FROM score_history WHERE mission=?);`);
+	shared.deleteMissionScoreHistoryStatement = db.prepare(`DELETE FROM score_history WHERE mission=?;`);
+	shared.insertAdminActionStatement = db.prepare(`INSERT INTO admin_action VALUES (?, ?, ?);`);
+	shared.getAdminActionsStatement = db.prepare(`SELECT * FROM admin_action ORDER BY timestamp DESC LIMIT ?;`);
+	shared.getChallengeScoresStatement = db.prepare(`SELECT time, username FROM challenge_score WHERE challenge_id=? AND ${notBanned} ORDER BY time ASC, timestamp ASC;`);
+	shared.getChallengeScoresDescStatement = db.prepare(`SELECT time, username FROM challenge_score WHERE challenge_id=? AND ${notBanned} ORDER BY time DESC, timestamp ASC;`);
+	shared.getChallengeScoreByUserStatement = db.prepare(`SELECT rowid, time FROM challenge_score WHERE challenge_id=? AND user_random_id=?;`);
+	shared.insertChallengeScoreStatement = db.prepare(`INSERT INTO challenge_score VALUES (?, ?, ?, ?, ?, ?);`);
+	shared.updateChallengeScoreStatement = db.prepare(`UPDATE challenge_score SET time=?, username=?, user_random_id=?, timestamp=? WHERE rowid=?;`);
+	shared.getAllChallengeScoresStatement = db.prepare(`SELECT rowid, *, user_random_id IN (SELECT user_random_id FROM banned_user) AS banned FROM challenge_score WHERE challenge_id=? ORDER BY time ASC, timestamp ASC;`);
+	shared.getChallengeScoreByIdStatement = db.prepare(`SELECT rowid, * FROM challenge_score WHERE rowid=?;`);
+	shared.deleteChallengeScoreStatement = db.prepare(`DELETE FROM challenge_score WHERE rowid=?;`);
+	shared.renameChallengeUserStatement = db.prepare(`UPDATE challenge_score SET username=? WHERE username=? COLLATE NOCASE;`);
 
 	const backupDb = () => {
 		let yyyymmdd = new Date().toISOString().split('T')[0];
@@ -77,10 +184,20 @@ const initServer = (port: number) => {
 					switch (pathComponents[1]) {
 						case 'directory_structure': await getDirectoryStructure(res); break;
 						case 'directory_structure_mbp': await getDirectoryStructure(res, true); break;
+						case 'missions': await getMissionIndex(req, res); break;
 						case 'scores': await getLeaderboard(res, body); break;
-						case 'submit': await submitScores(res, body); break;
+						case 'submit': await submitScores(req, res, body); break;
 						case 'custom': await getCustomLevelResource(res, urlObject); break;
 						case 'sheet': await getWorldRecordSheet(res); break;
+						case 'world_record_replay': await getWorldRecordReplay(res, urlObject); break;
+						case 'replay': await getReplay(res, urlObject); break;
+						case 'profile': await getPlayerProfile(res, urlObject); break;
+						case 'history': await getWorldRecordHistory(res, urlObject); break;
+						case 'register': await register(req, res, body); break;
+						case 'login': await login(req, res, body); break;
+						case 'admin': await handleAdminRequest(req, res, body); break;
+						case 'challenge': await handleChallengeRequest(req, res, body); break;
+						case 'live': await subscribeToLiveUpdates(req, res); break;
 						case 'error': await logUserError(res, body); break;
 						case 'version_history': await getVersionHistory(res); break;
 						case 'activity': await registerActivity(res, urlObject); break;
@@ -132,11 +249,18 @@ const init = () => {
 	// Ensure certain directories and files exist
 	fs.ensureDirSync(path.join(__dirname, 'storage'));
 	fs.ensureDirSync(path.join(__dirname, 'storage', 'wrecs'));
+	fs.ensureDirSync(path.join(__dirname, 'storage', 'replays'));
 	fs.ensureDirSync(path.join(__dirname, 'storage', 'customs'));
 	fs.ensureDirSync(path.join(__dirname, 'storage', 'backups'));
 	fs.ensureFileSync(path.join(__dirname, 'storage', 'logs', 'user_errors.log'));
+
+	// Session tokens should stay valid across restarts, so keep a generated secret around
+	let sessionSecretPath = path.join(__dirname, 'storage', 'session_secret');
+	if (!shared.config.sessionSecret && !fs.existsSync(sessionSecretPath)) fs.writeFileSync(sessionSecretPath, crypto.randomBytes(32).toString('hex'));
+	shared.sessionSecret = shared.config.sessionSecret || fs.readFileSync(sessionSecretPath).toString();
 	
 	setupDb();
+	watchMissionFiles();
 	initServer(port);
 };
 init();
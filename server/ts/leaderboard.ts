@@ -3,12 +3,16 @@ import { promisify } from 'util';
 import * as zlib from 'zlib';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import fetch from 'node-fetch';
+import * as url from 'url';
 
 import { shared } from './shared';
-import { escapeDiscord, secondsToTimeString, uppercaseFirstLetter } from './util';
+import { getClientAddress, uppercaseFirstLetter } from './util';
+import { SimulationQueueFullError, verifyReplay } from './replays';
+import { broadcastLiveEvent } from './live';
+import { broadcastWorldRecord } from './webhooks';
+import { AccountRow, ACCOUNT_USER_ID_PREFIX, getAccountUserId, verifySessionToken } from './sessions';
 
-interface ScoreRow {
+export interface ScoreRow {
 	rowid?: number,
 	mission?: string,
 	time?: number,
@@ -25,11 +29,11 @@ export const getLeaderboard = async (res: http.ServerResponse, body: string) =>
 		missions: string[]
 	} = JSON.parse(body);
 
-	let response: Record<string, [string, number][]> = {};
+	let response: Record<string, [string, number, boolean?][]> = {};
 
 	for (let mission of options.missions) {
-		let rows: ScoreRow[] = shared.getScoresForMissionStatement.all(mission);
-		response[mission] = rows.map(x => [x.username.slice(0, 16), x.time]);
+		let rows: ScoreRow[] = getScoresForMission(mission);
+		response[mission] = await serializeScores(rows);
 	}
 
 	let stringified = JSON.stringify(response);
@@ -42,7 +46,7 @@ export const getLeaderboard = async (res: http.ServerResponse, body: string) =>
 };
 
 /** Submits new scores to the leaderboard. */
-export const submitScores = async (res: http.ServerResponse, body: string) => {
+export const submitScores = async (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
 	if (!body) throw new Error("Missing body.");
 
 	let timestamp = Date.now();
@@ -50,96 +54,243 @@ export const submitScores = async (res: http.ServerResponse, body: string) => {
 		randomId: string,
 		bestTimes: string, // String, because it's compressed and encoded
 		latestTimestamp: number
-		replays: Record<string, string>
+		replays: Record<string, string>,
+		/** Set if the player is logged into an account. */
+		token?: string
 	} = JSON.parse(body);
 
+	let account = data.token? verifySessionToken(data.token) : null;
+	if (data.token && !account) {
+		// Don't submit anything so the client can keep the scores until the player has logged in again
+		await sendNewScores(res, data.latestTimestamp, { sessionExpired: true });
+		return;
+	}
+	if (!account && String(data.randomId).startsWith(ACCOUNT_USER_ID_PREFIX)) throw new Error("Invalid random ID.");
+	let userId = account? getAccountUserId(account) : data.randomId;
+	if (shared.getBanStatement.get(userId)) {
+		// Banned players can keep playing, their scores just don't go anywhere
+		await sendNewScores(res, data.latestTimestamp);
+		return;
+	}
+
 	// Unpack best times
 	let bestTimes: Record<string, [string, number]> = data.bestTimes? JSON.parse((await promisify(zlib.inflate)(Buffer.from(data.bestTimes, 'base64'))).toString()) : {};
 	let promises: Promise<void>[] = [];
+	/** The scores that won't ever make it onto the leaderboard, along with why. */
+	let rejectedScores: Record<string, string> = {};
+	/** The scores whose replays couldn't be verified right now. The client should submit them again later. */
+	let deferredScores: string[] = [];
 
 	// Loop over all new scores
 	for (let missionPath in bestTimes) {
 		let score = bestTimes[missionPath];
 		score[0] = score[0].slice(0, 16); // Fuck you
-		let row: ScoreRow = shared.getScoreByUserStatement.get(missionPath, score[0], data.randomId); // See if a score by this player already exists on this mission
+		if (account) score[0] = account.name;
+		else if (shared.getAccountByNameStatement.get(score[0])) {
+			// The name is protected by an account
+			rejectedScores[missionPath] = `The name "${score[0]}" belongs to an account. Log in to submit scores with it.`;
+			continue;
+		}
+
+		// Make sure the replay sent along with the score actually backs it up
+		let replayBuffer = data.replays[missionPath]? Buffer.from(data.replays[missionPath], 'base64') : null;
+		let isHunt = isHuntMission(missionPath);
+		let rejectionReason: string;
+		try {
+			rejectionReason = replayBuffer? await verifyReplay(replayBuffer, missionPath, score[1], isHunt, [userId, getClientAddress(req)]) : (shared.config.requireReplays ?? true)? "No replay submitted." : null;
+		} catch (e) {
+			if (!(e instanceof SimulationQueueFullError)) throw e;
+			deferredScores.push(missionPath);
+			continue;
+		}
+		if (rejectionReason) {
+			// Don't put the score on the leaderboard, but remember it so it can be looked at later
+			shared.insertFlaggedScoreStatement.run(missionPath, score[1], score[0], userId, timestamp, rejectionReason);
+			rejectedScores[missionPath] = replayBuffer? "The replay of the run didn't hold up to verification." : "The run's replay is missing.";
+			continue;
+		}
+
+		shared.insertScoreHistoryStatement.run(missionPath, score[1], score[0], userId, timestamp);
+
+		let previousTopScore: ScoreRow = (isHunt? shared.getTopScoreDescStatement : shared.getTopScoreStatement).get(missionPath);
+		let row: ScoreRow = shared.getScoreByUserStatement.get(missionPath, userId); // See if a score by this player already exists on this mission. Names are just for display, anyone can pick the same one.
 		let inserted = false;
+		let scoreId: number = null;
 		
 		if (row) {
-			if (row.time > score[1]) {
-				// If the new score is faster, override the old one, otherwise do nothing
-				shared.updateScoreStatement.run(score[1], score[0], data.randomId, timestamp, row.rowid);
+			if (isHunt? row.time < score[1] : row.time > score[1]) {
+				// If the new score is better, override the old one, otherwise do nothing
+				shared.updateScoreStatement.run(score[1], score[0], userId, timestamp, row.rowid);
+				shared.unhideScoreStatement.run(row.rowid); // The hidden score is gone now, the new one has to be judged on its own
 				inserted = true;
+				scoreId = row.rowid;
 			}	
 		} else {
 			// Add the new score to the leaderboard
-			shared.insertScoreStatement.run(missionPath, score[1], score[0], data.randomId, timestamp);	
+			scoreId = Number(shared.insertScoreStatement.run(missionPath, score[1], score[0], userId, timestamp).lastInsertRowid);
 			inserted = true;
 		}
 
 		if (inserted) {
+			// Tell everyone about the new score once its replay is in place, so they can watch it right away
+			promises.push(storeReplay(missionPath, scoreId, replayBuffer).then(() => broadcastScores('score', missionPath, {
+				username: score[0],
+				time: score[1],
+				timestamp
+			})));
+
 			// See if this score is now the top #1 score for this mission
-			let topScore: ScoreRow = shared.getTopScoreStatement.get(missionPath);
+			let topScore: ScoreRow = (isHunt? shared.getTopScoreDescStatement : shared.getTopScoreStatement).get(missionPath);
 			if (topScore.username !== score[0] || topScore.time !== score[1]) continue;
 
-			if (data.replays[missionPath]) {
+			broadcastLiveEvent('worldRecord', {
+				mission: missionPath,
+				missionName: getMissionNameFromMissionPath(missionPath),
+				username: score[0],
+				time: score[1],
+				isHunt
+			});
+
+			if (replayBuffer) {
 				// If a replay was sent, store it
-				let replayBuffer = Buffer.from(data.replays[missionPath], 'base64');
-				promises.push(fs.writeFile(path.join(__dirname, 'storage', 'wrecs', missionPath.replace(/\//g, '_') + '.wrec'), replayBuffer));
-			}
-			
-			if (shared.config.discordWebhookUrl) {
-				// Broadcast a world record message to the webhook URL
-				let allowed = true;
-				if (missionPath.includes('custom/')) {
-					let scoreCount: number = shared.getMissionScoreCount.pluck().get(missionPath);
-					if (scoreCount < shared.config.webhookCustomMinScoreThreshold) allowed = false; // Not enough scores yet, don't broadcast
-				}
-
-				if (allowed) broadcastToWebhook(missionPath, score);
+				promises.push(fs.writeFile(getWrecPath(missionPath), replayBuffer));
 			}
+
+			let [modification, category] = getMissionCategory(missionPath).split('/');
+			broadcastWorldRecord({
+				missionPath,
+				missionName: getMissionNameFromMissionPath(missionPath),
+				modification,
+				category,
+				player: score[0],
+				time: score[1],
+				isHunt,
+				previousHolder: previousTopScore?.username.slice(0, 16) ?? null,
+				previousTime: previousTopScore?.time ?? null
+			});
 		}
 	}
 
 	await Promise.all(promises);
 
-	sendNewScores(res, data.latestTimestamp);
+	await sendNewScores(res, data.latestTimestamp, { rejectedScores, deferredScores });
 };
 
-/** Broadcasts a new #1 score to a Discord webhook as a world record message. */
-const broadcastToWebhook = (missionPath: string, score: [string, number]) => {
-	let missionName = escapeDiscord(getMissionNameFromMissionPath(missionPath)).trim();
-	let timeString = secondsToTimeString(score[1] / 1000);
-	let modification = missionPath.startsWith('mbp')? 'platinum': missionPath.startsWith('mbu')? 'ultra' : 'gold';
-	if (modification !== 'gold') missionPath = missionPath.slice(4);
-	let category = uppercaseFirstLetter(missionPath.slice(0, missionPath.indexOf('/')));
-	
-	let message = `${escapeDiscord(score[0])} has just achieved a world record on "${missionName}" (Web ${uppercaseFirstLetter(modification)} ${category}) of ${timeString}`;
-
-	fetch(shared.config.discordWebhookUrl, {
-		method: 'POST',
-		headers: {
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({
-			content: message
-		})
-	});
+/** Hands all scores set by a random ID over to an account. Where the account already has a score on the same mission, only the better one of the two is kept. */
+export const claimScores = async (account: AccountRow, randomId: string) => {
+	let userId = getAccountUserId(account);
+	let rows: ScoreRow[] = shared.getScoresByRandomIdStatement.all(randomId);
+
+	let ban: { reason: string } = shared.getBanStatement.get(randomId);
+	if (ban && !shared.getBanStatement.get(userId)) {
+		// The ban sticks to the player, otherwise they could shake it off simply by making an account
+		shared.banUserStatement.run(userId, ban.reason, Date.now());
+		shared.insertAdminActionStatement.run('ban', JSON.stringify({ randomId: userId, reason: ban.reason, carriedOverFrom: randomId }), Date.now());
+
+		let accountRows: ScoreRow[] = shared.getScoresByRandomIdStatement.all(userId);
+		for (let mission of new Set(accountRows.map(x => x.mission))) await broadcastScores('change', mission);
+	}
+
+	for (let row of rows) {
+		let existing: ScoreRow = shared.getScoreByUserStatement.all(row.mission, userId).find((x: ScoreRow) => x.rowid !== row.rowid);
+		if (existing) {
+			let existingIsBetter = isHuntMission(row.mission)? existing.time >= row.time : existing.time <= row.time;
+			await deleteScore(existingIsBetter? row.rowid : existing.rowid);
+			if (existingIsBetter) continue;
+		}
+
+		shared.claimScoreStatement.run(account.name, userId, row.rowid);
+		await broadcastScores('score', row.mission, {
+			username: account.name,
+			time: row.time,
+			timestamp: row.timestamp
+		});
+	}
+};
+
+/** Removes a score from the leaderboard along with its replay. */
+export const deleteScore = async (scoreId: number) => {
+	shared.deleteScoreStatement.run(scoreId);
+	shared.unhideScoreStatement.run(scoreId); // Row IDs get reused, so don't let a future score inherit this
+	await fs.remove(getReplayPath(scoreId));
+};
+
+/** Gets the path of the .wrec of the world record on a mission. */
+export const getWrecPath = (missionPath: string) => {
+	return path.join(__dirname, 'storage', 'wrecs', missionPath.replace(/\//g, '_') + '.wrec');
+};
+
+/** Gets the path of the replay stored for a score. */
+const getReplayPath = (scoreId: number) => {
+	return path.join(__dirname, 'storage', 'replays', scoreId + '.wrec');
+};
+
+/** Keeps the replay of a new score if it made it into the top scores of its mission, and throws out the replay of the score that got pushed out of them. */
+const storeReplay = async (missionPath: string, scoreId: number, replayBuffer: Buffer) => {
+	let rows = getScoresForMission(missionPath);
+	let index = rows.findIndex(x => x.rowid === scoreId);
+	let replayPath = getReplayPath(scoreId);
+
+	if (replayBuffer && index < shared.config.replayCount) await fs.writeFile(replayPath, replayBuffer);
+	else await fs.remove(replayPath); // Whatever is stored there belongs to a slower run of the same player
+
+	let pushedOut = rows[shared.config.replayCount];
+	if (pushedOut) await fs.remove(getReplayPath(pushedOut.rowid));
+};
+
+/** Tells everyone listening for live updates that the leaderboard of a mission changed. Its scores are sent along, so that clients don't all have to reload it at once. */
+export const broadcastScores = async (event: 'score' | 'change', missionPath: string, details: Record<string, unknown> = {}) => {
+	broadcastLiveEvent(event, { mission: missionPath, ...details, scores: await serializeScores(getScoresForMission(missionPath)) });
+};
+
+/** Turns the scores of a mission into what's sent to the client. The top scores also come with whether their replay can be watched. */
+const serializeScores = async (rows: ScoreRow[]) => {
+	return await Promise.all(rows.map(async (x, i): Promise<[string, number, boolean?]> => {
+		if (i >= shared.config.replayCount) return [x.username.slice(0, 16), x.time];
+		return [x.username.slice(0, 16), x.time, await fs.pathExists(getReplayPath(x.rowid))];
+	}));
+};
+
+/** Checks whether a mission is played in hunt mode, where the score is the amount of points collected instead of a time. */
+export const isHuntMission = (missionPath: string) => {
+	if (!missionPath.includes('custom/')) return false;
+
+	let claEntry = shared.claList.find(x => x.id === Number(missionPath.slice(missionPath.lastIndexOf('/') + 1)));
+	return claEntry?.gameMode?.toLowerCase() === 'hunt' && claEntry.modification !== 'gold';
+};
+
+/** Gets the scores of a mission, best one first. */
+const getScoresForMission = (missionPath: string): ScoreRow[] => {
+	return (isHuntMission(missionPath)? shared.getScoresForMissionDescStatement : shared.getScoresForMissionStatement).all(missionPath);
 };
 
 /** Gets the mission name from a given mission path. */
-const getMissionNameFromMissionPath = (missionPath: string) => {
+export const getMissionNameFromMissionPath = (missionPath: string) => {
 	if (missionPath.includes('custom/')) {
 		// Find the corresponding CLA entry
 		let claEntry = shared.claList.find(x => x.id === Number(missionPath.slice(missionPath.lastIndexOf('/') + 1)));
-		return claEntry.name;
+		return claEntry?.name ?? null;
 	} else {
 		return shared.levelNameMap[missionPath];
 	}
 };
 
-/** Transmits a score delta, so all new scores since a given timestamp. */
-const sendNewScores = (res: http.ServerResponse, timestamp: number) => {
-	let result: Record<string, [string, number][]> = {};
+/** Gets the category of a mission, like "gold/beginner" or "platinum/custom". */
+const getMissionCategory = (missionPath: string) => {
+	let modification = missionPath.startsWith('mbp')? 'platinum': missionPath.startsWith('mbu')? 'ultra' : 'gold';
+	if (modification !== 'gold') missionPath = missionPath.slice(4);
+
+	return modification + '/' + missionPath.slice(0, missionPath.indexOf('/'));
+};
+
+/** Transmits a score delta, so all new scores since a given timestamp. Also tells the client what happened to the scores it just submitted. */
+const sendNewScores = async (res: http.ServerResponse, timestamp: number, submission: {
+	/** Set if nothing was submitted because the client's account session is no longer valid. */
+	sessionExpired?: boolean,
+	rejectedScores?: Record<string, string>,
+	deferredScores?: string[]
+} = {}) => {
+	let result: Record<string, [string, number, boolean?][]> = {};
 
 	if (timestamp || timestamp === 0) {
 		let newScores: ScoreRow[] = shared.getNewerScoresStatement.all(timestamp);
@@ -149,8 +300,8 @@ const sendNewScores = (res: http.ServerResponse, timestamp: number) => {
 			if (includedMissions.has(row.mission)) continue;
 	
 			// Send over the entire leaderboard for a mission if one score in it changed
-			let rows: ScoreRow[] = shared.getScoresForMissionStatement.all(row.mission);
-			result[row.mission] = rows.map(x => [x.username.slice(0, 16), x.time]);
+			let rows: ScoreRow[] = getScoresForMission(row.mission);
+			result[row.mission] = await serializeScores(rows);
 		}
 	}
 
@@ -160,7 +311,10 @@ const sendNewScores = (res: http.ServerResponse, timestamp: number) => {
 
 	let stringified = JSON.stringify({
 		latestTimestamp: latestTimestamp,
-		scores: result
+		scores: result,
+		sessionExpired: submission.sessionExpired ?? false,
+		rejectedScores: submission.rejectedScores ?? {},
+		deferredScores: submission.deferredScores ?? []
 	});
 	res.writeHead(200, {
 		'Content-Type': 'application/json',
@@ -170,6 +324,53 @@ const sendNewScores = (res: http.ServerResponse, timestamp: number) => {
 	res.end(stringified);
 };
 
+/** Transmits the .wrec of the world record on a mission, if one was submitted. */
+export const getWorldRecordReplay = async (res: http.ServerResponse, urlObject: url.URL) => {
+	let missionPath = urlObject.searchParams.get('mission') ?? '';
+	let wrecPath = getWrecPath(missionPath);
+
+	// Slashes get replaced, but also watch out for backslashes so the path can't leave the directory
+	if (!missionPath || missionPath.includes('\\') || !(await fs.pathExists(wrecPath))) {
+		res.writeHead(404);
+		res.end();
+		return;
+	}
+
+	let buffer = await fs.readFile(wrecPath);
+	res.writeHead(200, {
+		'Content-Type': 'application/octet-stream',
+		'Content-Length': buffer.length,
+		'Cache-Control': 'no-cache, no-store' // The world record might change at any moment
+	});
+	res.end(buffer);
+};
+
+/** Transmits the replay of the score with the given rank on a mission, if it was kept. */
+export const getReplay = async (res: http.ServerResponse, urlObject: url.URL) => {
+	let missionPath = urlObject.searchParams.get('mission');
+	let rank = Number(urlObject.searchParams.get('rank'));
+	if (!missionPath || !Number.isInteger(rank) || rank < 1) {
+		res.writeHead(400);
+		res.end();
+		return;
+	}
+
+	let row = getScoresForMission(missionPath)[rank - 1];
+	if (!row || rank > shared.config.replayCount || !(await fs.pathExists(getReplayPath(row.rowid)))) {
+		res.writeHead(404);
+		res.end();
+		return;
+	}
+
+	let buffer = await fs.readFile(getReplayPath(row.rowid));
+	res.writeHead(200, {
+		'Content-Type': 'application/octet-stream',
+		'Content-Length': buffer.length,
+		'Cache-Control': 'no-cache, no-store' // The score with this rank might change at any moment
+	});
+	res.end(buffer);
+};
+
 /** Creates a sheet of default-level world records in CSV format for use in spreadsheets. */
 export const getWorldRecordSheet = async (res: http.ServerResponse) => {
 	let lastCategory: string = null;
@@ -197,7 +398,7 @@ export const getWorldRecordSheet = async (res: http.ServerResponse) => {
 		};
 
 		// Check if a .wrec for this mission exists
-		let wrecPath = path.join(__dirname, 'storage', 'wrecs', missionPath.replace(/\//g, '_') + '.wrec');
+		let wrecPath = getWrecPath(missionPath);
 		let wrecExists = await fs.pathExists(wrecPath);
 
 		// Add row
@@ -210,4 +411,102 @@ export const getWorldRecordSheet = async (res: http.ServerResponse) => {
 		'Cache-Control': 'no-cache, no-store'
 	});
 	res.end(output);
+};
+
+/** Transmits all scores of a player along with their ranks, and how many scores and world records they have in each category. */
+export const getPlayerProfile = async (res: http.ServerResponse, urlObject: url.URL) => {
+	let name = urlObject.searchParams.get('name')?.slice(0, 16);
+	if (!name) {
+		res.writeHead(400);
+		res.end();
+		return;
+	}
+
+	let rows: ScoreRow[] = shared.getScoresByUsernameStatement.all(name);
+	if (rows.length === 0) {
+		res.writeHead(404);
+		res.end();
+		return;
+	}
+
+	let scores: {
+		mission: string,
+		name: string,
+		time: number,
+		timestamp: number,
+		rank: number
+	}[] = [];
+	let categories: Record<string, {
+		scoreCount: number,
+		worldRecordCount: number
+	}> = {};
+
+	for (let row of rows) {
+		let rank: number = (isHuntMission(row.mission)? shared.getScoreRankDescStatement : shared.getScoreRankStatement).pluck().get(row.mission, row.time, row.time, row.timestamp);
+		scores.push({
+			mission: row.mission,
+			name: getMissionNameFromMissionPath(row.mission) ?? null,
+			time: row.time,
+			timestamp: row.timestamp,
+			rank
+		});
+
+		let category = getMissionCategory(row.mission);
+		categories[category] ??= { scoreCount: 0, worldRecordCount: 0 };
+		categories[category].scoreCount++;
+		if (rank === 1) categories[category].worldRecordCount++;
+	}
+
+	let stringified = JSON.stringify({
+		name,
+		worldRecordCount: scores.filter(x => x.rank === 1).length,
+		categories,
+		scores
+	});
+	res.writeHead(200, {
+		'Content-Type': 'application/json',
+		'Content-Length': Buffer.byteLength(stringified),
+		'Cache-Control': 'no-cache, no-store'
+	});
+	res.end(stringified);
+};
+
+/** Transmits how the world record on a mission progressed over time, oldest record first. */
+export const getWorldRecordHistory = async (res: http.ServerResponse, urlObject: url.URL) => {
+	let missionPath = urlObject.searchParams.get('mission');
+	if (!missionPath) {
+		res.writeHead(400);
+		res.end();
+		return;
+	}
+
+	let isHunt = isHuntMission(missionPath);
+	let rows: ScoreRow[] = shared.getScoreHistoryForMissionStatement.all(missionPath);
+	let progression: {
+		username: string,
+		time: number,
+		timestamp: number
+	}[] = [];
+
+	for (let row of rows) {
+		let record = progression[progression.length - 1];
+		if (record && (isHunt? row.time <= record.time : row.time >= record.time)) continue; // Only scores that beat the record at the time count
+
+		progression.push({
+			username: row.username.slice(0, 16),
+			time: row.time,
+			timestamp: row.timestamp
+		});
+	}
+
+	let stringified = JSON.stringify({
+		mission: missionPath,
+		progression
+	});
+	res.writeHead(200, {
+		'Content-Type': 'application/json',
+		'Content-Length': Buffer.byteLength(stringified),
+		'Cache-Control': 'no-cache, no-store'
+	});
+	res.end(stringified);
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import * as http from 'http';
+
+import { getClientAddress, sendJson } from './util';
+
+/** How many clients can listen at once, so that idle connections can't pile up without bound. */
+const MAX_CONNECTIONS = 1000;
+/** How many connections a single address can hold open, which is plenty for a few tabs. */
+const MAX_CONNECTIONS_PER_ADDRESS = 4;
+/** How often a comment is sent to idle connections so proxies don't close them. */
+const KEEP_ALIVE_INTERVAL = 30 * 1000;
+
+/** All clients currently listening for live leaderboard updates. */
+const clients = new Set<http.ServerResponse>();
+/** How many connections each address currently has open. */
+const connectionCounts = new Map<string, number>();
+
+/** Opens a Server-Sent Events stream over which the client is told about leaderboard changes as they happen. Turns the client away if there are too many connections already, after which it falls back to polling. */
+export const subscribeToLiveUpdates = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+	let address = getClientAddress(req);
+	let connectionCount = connectionCounts.get(address) ?? 0;
+	if (clients.size >= MAX_CONNECTIONS || connectionCount >= MAX_CONNECTIONS_PER_ADDRESS) return sendJson(res, 503, { error: "Too many open connections." });
+
+	res.writeHead(200, {
+		'Content-Type': 'text/event-stream',
+		'Cache-Control': 'no-cache, no-store',
+		'Connection': 'keep-alive'
+	});
+	res.write('retry: 5000\n\n'); // Tell the client how long to wait before reconnecting
+
+	let interval = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+	clients.add(res);
+	connectionCounts.set(address, connectionCount + 1);
+
+	res.on('close', () => {
+		clearInterval(interval);
+		clients.delete(res);
+
+		let remaining = connectionCounts.get(address) - 1;
+		if (remaining > 0) connectionCounts.set(address, remaining);
+		else connectionCounts.delete(address);
+	});
+};
+
+/** Sends an event to all connected clients. */
+export const broadcastLiveEvent = (event: string, data: unknown) => {
+	let message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+	for (let client of clients) client.write(message);
+};
\ No newline at end of file
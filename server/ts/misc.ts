@@ -2,6 +2,8 @@ import * as http from 'http';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as url from 'url';
+import * as crypto from 'crypto';
+import { Worker } from 'worker_threads';
 
 import { shared } from './shared';
 
@@ -44,6 +46,90 @@ export const getDirectoryStructure = async (res: http.ServerResponse, mbp = fals
 	res.end(JSON.stringify(structure));
 };
 
+/** The directories the stock missions are in, relative to the assets directory. */
+const MISSION_DIRECTORIES = [['data', 'missions'], ['data_mbp', 'missions_mbp'], ['data_mbp', 'missions_mbu']];
+
+/** The mission index as it was last built, or null if it has to be built (again). */
+let missionIndexCache: Promise<{
+	json: string,
+	etag: string
+}> = null;
+
+/** Parses all stock missions using the headless client build. Since that takes a while, it happens on a separate thread. */
+const buildMissionIndex = () => new Promise<string>((resolve, reject) => {
+	let worker = new Worker(path.join(__dirname, 'headless.js'), {
+		workerData: { buildMissionIndex: true }
+	});
+
+	worker.once('message', (message: { index?: unknown[], error?: string }) => {
+		worker.terminate();
+		if (message.error !== undefined) reject(new Error(message.error));
+		else resolve(JSON.stringify(message.index));
+	});
+	worker.once('error', reject);
+	worker.once('exit', (code) => {
+		// Does nothing if a message already arrived
+		reject(new Error(`The mission index worker exited with code ${code} before sending the index.`));
+	});
+});
+
+/** Gets the mission index, building it first if there's none yet. */
+const getMissionIndexCache = () => {
+	if (missionIndexCache) return missionIndexCache;
+
+	let cache = missionIndexCache = buildMissionIndex().then(json => ({
+		json,
+		etag: '"' + crypto.createHash('sha256').update(json).digest('hex').slice(0, 32) + '"'
+	}));
+	cache.catch(() => {
+		if (missionIndexCache === cache) missionIndexCache = null; // Try again on the next request
+	});
+
+	return cache;
+};
+
+/** Calls back whenever a file in the directory or any of its subdirectories changes. Recursive watching isn't supported on Linux by older Node versions, so each directory gets watched on its own. */
+const watchDirectoryTree = (directoryPath: string, callback: (fileName: string) => void) => {
+	fs.watch(directoryPath, (_, fileName) => callback(fileName));
+
+	for (let entry of fs.readdirSync(directoryPath, { withFileTypes: true })) {
+		if (entry.isDirectory()) watchDirectoryTree(path.join(directoryPath, entry.name), callback);
+	}
+};
+
+/** Builds the mission index ahead of the first request and throws it out whenever a mission file changes. */
+export const watchMissionFiles = () => {
+	for (let directory of MISSION_DIRECTORIES) {
+		let directoryPath = path.join(shared.directoryPath, 'assets', ...directory);
+		if (!fs.existsSync(directoryPath)) continue;
+
+		watchDirectoryTree(directoryPath, fileName => {
+			if (!fileName || fileName.toLowerCase().endsWith('.mis')) missionIndexCache = null;
+		});
+	}
+
+	getMissionIndexCache().catch(e => console.error(e));
+};
+
+/** Sends the metadata of all stock missions, so that the client doesn't have to load every .mis file just to list them. */
+export const getMissionIndex = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+	let { json, etag } = await getMissionIndexCache();
+
+	if (req.headers['if-none-match'] === etag) {
+		res.writeHead(304, { 'ETag': etag, 'Cache-Control': 'no-cache' });
+		res.end();
+		return;
+	}
+
+	res.writeHead(200, {
+		'Content-Type': 'application/json',
+		'Content-Length': Buffer.byteLength(json),
+		'Cache-Control': 'no-cache', // The index can change with the mission files, so always check back
+		'ETag': etag
+	});
+	res.end(json);
+};
+
 /** Appends new user errors to a log file. */
 export const logUserError = async (res: http.ServerResponse, body: string) => {
 	let data: {
@@ -0,0 +1,161 @@
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+
+import { CLAEntry } from './shared';
+import { ensureCustomLevelArchive, getClaEntry } from './customs';
+
+/** Needs to match the physics tick rate of the client. */
+const PHYSICS_TICK_RATE = 120;
+/** Allowed discrepancy between the claimed time and the one stored in the replay, in milliseconds. */
+const TIME_EPSILON = 1e-6;
+/** Starting with this version, replays store the player's input instead of the marble state. These can be re-simulated exactly, so older replays aren't accepted anymore. */
+const FIRST_INPUT_BASED_VERSION = 5;
+/** Replays that take longer than this to re-simulate, in milliseconds, are rejected. */
+const SIMULATION_TIMEOUT = 60000;
+/** How many replays are simulated at the same time. Simulating is CPU-bound, so running more at once would only slow all of them down. */
+const MAX_CONCURRENT_SIMULATIONS = 2;
+/** How many replays a single player or address can have waiting for simulation at the same time. */
+const MAX_PENDING_SIMULATIONS_PER_REQUESTER = 3;
+
+/** The part of the client's serialized replay format the server cares about. */
+interface SerializedReplay {
+	version: number,
+	missionPath: string,
+	touchFinishTickIndices: number[],
+	finishTime: {
+		timeSinceLoad: number,
+		currentAttemptTime: number,
+		gameplayClock: number,
+		physicsTickCompletion: number
+	},
+	/** Only present in hunt replays. */
+	huntScore?: number
+}
+
+/** Decodes a .wrec file into its serialized JSON representation. */
+export const decodeReplay = async (buffer: Buffer) => {
+	let inflated = await promisify(zlib.inflate)(buffer);
+	return JSON.parse(inflated.toString()) as SerializedReplay;
+};
+
+/** Thrown when a replay can't be verified right now because whoever submitted it already has too many replays waiting. The score can be submitted again later. */
+export class SimulationQueueFullError extends Error {}
+
+/** What a replay comes out to when simulated. */
+interface SimulationResult {
+	/** The gameplay clock the replay finishes with, or null if it doesn't finish. */
+	finishTime: number,
+	/** The points collected in hunt mode, from the gems picked up during the simulation. */
+	huntScore: number
+}
+
+/** Re-simulates an input-based replay using the headless client build, on a separate thread so the server stays responsive. Custom levels need their CLA entry. */
+const simulateReplay = (buffer: Buffer, missionPath: string, claEntry?: CLAEntry) => new Promise<SimulationResult>((resolve, reject) => {
+	let modification = (missionPath.startsWith('mbp/') || missionPath.startsWith('mbu/'))? 'platinum' : 'gold';
+	let worker = new Worker(path.join(__dirname, 'headless.js'), {
+		workerData: { simulateReplay: true, modification, replayData: new Uint8Array(buffer), claEntry }
+	});
+	let timeout = setTimeout(() => {
+		worker.terminate();
+		reject(new Error("Replay simulation timed out."));
+	}, SIMULATION_TIMEOUT);
+
+	worker.once('message', (message: { result?: SimulationResult, error?: string }) => {
+		clearTimeout(timeout);
+		worker.terminate();
+		if (message.error !== undefined) reject(new Error(message.error));
+		else resolve(message.result);
+	});
+	worker.once('error', (e) => {
+		clearTimeout(timeout);
+		reject(e);
+	});
+});
+
+let runningSimulations = 0;
+/** Simulations waiting for a free slot, first come first served. */
+const simulationQueue: (() => void)[] = [];
+/** How many simulations each requester has running or waiting. */
+const pendingSimulations = new Map<string, number>();
+
+/** Runs a simulation once one of the few slots for it is free. Each requester (like the player and their address) can only have a few simulations pending at once, so nobody can keep the server busy all by themselves. */
+const queueSimulation = async <T>(requesters: string[], simulate: () => Promise<T>) => {
+	if (requesters.some(x => (pendingSimulations.get(x) ?? 0) >= MAX_PENDING_SIMULATIONS_PER_REQUESTER)) {
+		throw new SimulationQueueFullError("Too many replays are waiting to be verified.");
+	}
+	for (let requester of requesters) pendingSimulations.set(requester, (pendingSimulations.get(requester) ?? 0) + 1);
+
+	try {
+		if (runningSimulations >= MAX_CONCURRENT_SIMULATIONS) await new Promise<void>(resolve => simulationQueue.push(resolve));
+		runningSimulations++;
+
+		try {
+			return await simulate();
+		} finally {
+			runningSimulations--;
+			simulationQueue.shift()?.(); // Hand the slot over to the next one in line
+		}
+	} finally {
+		for (let requester of requesters) {
+			let count = pendingSimulations.get(requester) - 1;
+			if (count > 0) pendingSimulations.set(requester, count);
+			else pendingSimulations.delete(requester);
+		}
+	}
+};
+
+/** Checks whether a replay actually backs up a claimed score on a mission.
+ * @param requesters Identify who submitted the replay, like their user ID and address. Used to limit how many of their replays are simulated at once.
+ * @returns The reason the replay was rejected, or null if it passed verification.
+ * @throws SimulationQueueFullError if the replay can't be verified right now.
+ */
+export const verifyReplay = async (buffer: Buffer, missionPath: string, time: number, isHunt = false, requesters: string[] = []) => {
+	let replay: SerializedReplay;
+	try {
+		replay = await decodeReplay(buffer);
+	} catch (e) {
+		return "Replay could not be decoded.";
+	}
+
+	// Older replays only store the marble state, which could be made up entirely
+	if (!(replay.version >= FIRST_INPUT_BASED_VERSION)) return "Replay is too old to be verified.";
+	if (replay.missionPath !== missionPath) return "Replay mission path doesn't match.";
+	if (!replay.finishTime) return "Replay doesn't finish.";
+
+	if (isHunt) {
+		// Hunt rounds end once the time is up, so it's all about the score. Only the simulation can tell what it really is.
+		if (replay.huntScore !== time) return "Replay score doesn't match.";
+	} else {
+		if (Math.abs(replay.finishTime.gameplayClock - time) > TIME_EPSILON) return "Replay finish time doesn't match.";
+		if (!(replay.finishTime.gameplayClock >= 0)) return "Replay finish time is impossible.";
+
+		// The finish must have been touched on a tick that's consistent with the finish time. Finish time is computed with sub-tick precision, so it lies within the tick in which the finish was touched.
+		let tickLength = 1000 / PHYSICS_TICK_RATE;
+		let touchedFinish = (replay.touchFinishTickIndices ?? []).some(tickIndex => {
+			let tickEnd = (tickIndex + 1) * tickLength;
+			return replay.finishTime.currentAttemptTime >= tickEnd - tickLength - TIME_EPSILON && replay.finishTime.currentAttemptTime <= tickEnd + TIME_EPSILON;
+		});
+		if (!touchedFinish) return "Replay finish tick doesn't match the finish time.";
+	}
+
+	// Custom levels are simulated using the archive the server hands out to clients
+	let claEntry = missionPath.includes('custom/')? getClaEntry(missionPath) : undefined;
+	if (missionPath.includes('custom/') && !claEntry) return "Replay is of an unknown custom level.";
+
+	// The replay doesn't contain any marble state to check, but we can simply play it back ourselves and see what comes out
+	let simulated: SimulationResult;
+	try {
+		if (claEntry) await ensureCustomLevelArchive(claEntry.id);
+		simulated = await queueSimulation(requesters, () => simulateReplay(buffer, missionPath, claEntry));
+	} catch (e) {
+		if (e instanceof SimulationQueueFullError) throw e;
+		return "Replay could not be simulated.";
+	}
+
+	if (simulated.finishTime === null) return "Replay doesn't finish when simulated.";
+	if (isHunt) return (simulated.huntScore === time)? null : "Simulated replay score doesn't match.";
+	if (Math.abs(simulated.finishTime - time) > TIME_EPSILON) return "Simulated replay finish time doesn't match.";
+	return null;
+};
@@ -0,0 +1,50 @@
+import * as crypto from 'crypto';
+
+import { shared } from './shared';
+
+/** How long a session token stays valid after logging in. */
+const SESSION_DURATION = 365 * 24 * 60 * 60 * 1000;
+/** Scores of player accounts use this followed by the account ID in place of a random ID. Random IDs come from the client, so they can't start with this. */
+export const ACCOUNT_USER_ID_PREFIX = 'account:';
+
+export interface AccountRow {
+	rowid?: number,
+	name?: string,
+	password_hash?: string,
+	salt?: string,
+	created_at?: number
+}
+
+/** Gets what's stored as the user random ID of the scores set by an account. */
+export const getAccountUserId = (account: AccountRow) => {
+	return ACCOUNT_USER_ID_PREFIX + account.rowid;
+};
+
+const sign = (payload: string) => {
+	return crypto.createHmac('sha256', shared.sessionSecret).update(payload).digest('base64url');
+};
+
+/** Creates a token the client can use to prove that it's logged into an account. */
+export const createSessionToken = (account: AccountRow) => {
+	let payload = Buffer.from(JSON.stringify({
+		id: account.rowid,
+		expires: Date.now() + SESSION_DURATION
+	})).toString('base64url');
+
+	return payload + '.' + sign(payload);
+};
+
+/** Gets the account a session token belongs to. Returns null if the token was tampered with, has expired or its account doesn't exist anymore. */
+export const verifySessionToken = (token: string): AccountRow => {
+	let [payload, signature] = String(token).split('.');
+	if (!payload || !signature) return null;
+
+	let expected = Buffer.from(sign(payload));
+	let actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+	let data: { id: number, expires: number } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+	if (Date.now() > data.expires) return null;
+
+	return shared.getAccountByIdStatement.get(data.id) ?? null;
+};
\ No newline at end of file
@@ -1,7 +1,8 @@
 import * as Database from 'better-sqlite3';
+import type { WebhookTarget } from './webhooks';
 
 /** A custom levels archive entry. */
-interface CLAEntry {
+export interface CLAEntry {
 	id: number,
 	baseName: string,
 	gameType: string,
@@ -39,19 +40,82 @@ export const shared: {
 		/** The Discord webhook URL to send world record annoucements to */
 		discordWebhookUrl: string,
 		/** Make sure custom levels have at least this many scores before broadcasting an annoucement. */
-		webhookCustomMinScoreThreshold: number
+		webhookCustomMinScoreThreshold: number,
+		/** Unless turned off, scores submitted without a replay are flagged instead of being put on the leaderboard. */
+		requireReplays: boolean,
+		/** The replays of this many of the top scores on each mission are kept and can be watched by anyone. */
+		replayCount: number,
+		/** The secret session tokens are signed with. If not set, one is generated and kept in the storage directory. */
+		sessionSecret: string,
+		/** Grants access to the moderation API. If not set, the moderation API is disabled. */
+		adminToken: string,
+		/** Where world record announcements get sent to, in addition to discordWebhookUrl */
+		webhooks: WebhookTarget[],
+		/** Set this if the server runs behind a reverse proxy, so that client addresses are read from the X-Forwarded-For header. */
+		trustProxy: boolean
 	},
+	/** The secret session tokens are actually signed with. */
+	sessionSecret: string,
 	/** List of all custom levels */
 	claList: CLAEntry[],
 	/** Maps mission path to level name */
 	levelNameMap: Record<string, string>,
 
 	getScoresForMissionStatement: Database.Statement,
+	/** Like getScoresForMissionStatement, but for hunt missions, where higher scores are better. */
+	getScoresForMissionDescStatement: Database.Statement,
 	getScoreByUserStatement: Database.Statement,
 	updateScoreStatement: Database.Statement,
 	insertScoreStatement: Database.Statement,
 	getTopScoreStatement: Database.Statement,
+	getTopScoreDescStatement: Database.Statement,
 	getMissionScoreCount: Database.Statement,
 	getNewerScoresStatement: Database.Statement,
-	getLatestTimestampStatement: Database.Statement
+	getLatestTimestampStatement: Database.Statement,
+	insertFlaggedScoreStatement: Database.Statement,
+	/** Records every accepted submission, even the ones that don't improve on the player's best score. */
+	insertScoreHistoryStatement: Database.Statement,
+	getScoreHistoryForMissionStatement: Database.Statement,
+	getScoresByUsernameStatement: Database.Statement,
+	getScoreRankStatement: Database.Statement,
+	getScoreRankDescStatement: Database.Statement,
+	insertAccountStatement: Database.Statement,
+	getAccountByIdStatement: Database.Statement,
+	/** Names of accounts are matched case-insensitively. */
+	getAccountByNameStatement: Database.Statement,
+	/** Counts the scores with a given name that were set by anyone but the given user. */
+	getForeignScoreCountStatement: Database.Statement,
+	getScoresByRandomIdStatement: Database.Statement,
+	claimScoreStatement: Database.Statement,
+	deleteScoreStatement: Database.Statement,
+	getScoreByIdStatement: Database.Statement,
+	/** Unlike getScoresForMissionStatement, this includes hidden scores and the scores of banned players. */
+	getAllScoresForMissionStatement: Database.Statement,
+	deleteMissionScoresStatement: Database.Statement,
+	hideScoreStatement: Database.Statement,
+	unhideScoreStatement: Database.Statement,
+	banUserStatement: Database.Statement,
+	unbanUserStatement: Database.Statement,
+	getBanStatement: Database.Statement,
+	renameUserStatement: Database.Statement,
+	renameAccountStatement: Database.Statement,
+	renameUserHistoryStatement: Database.Statement,
+	/** Hides the history entries of a score, given its mission, time, user random ID and name. */
+	hideScoreHistoryStatement: Database.Statement,
+	unhideScoreHistoryStatement: Database.Statement,
+	deleteScoreHistoryStatement: Database.Statement,
+	deleteMissionHiddenScoreHistoryStatement: Database.Statement,
+	deleteMissionScoreHistoryStatement: Database.Statement,
+	/** Records what was done through the moderation API. */
+	insertAdminActionStatement: Database.Statement,
+	getAdminActionsStatement: Database.Statement,
+	getChallengeScoresStatement: Database.Statement,
+	getChallengeScoresDescStatement: Database.Statement,
+	getChallengeScoreByUserStatement: Database.Statement,
+	insertChallengeScoreStatement: Database.Statement,
+	updateChallengeScoreStatement: Database.Statement,
+	getAllChallengeScoresStatement: Database.Statement,
+	getChallengeScoreByIdStatement: Database.Statement,
+	deleteChallengeScoreStatement: Database.Statement,
+	renameChallengeUserStatement: Database.Statement
 } = {} as any;
\ No newline at end of file
@@ -1,3 +1,7 @@
+import * as http from 'http';
+
+import { shared } from './shared';
+
 /** Sanitizes a string for worry-free use in Discord messages. */
 export const escapeDiscord = (message: string) => {
 	message = message.replace(/\\/g, "\\\\");
@@ -34,4 +38,57 @@ export const leftPadZeroes = (str: string, amount: number) => {
 /** Uppercases the first letter of a given string. */
 export const uppercaseFirstLetter = (str: string) => {
 	return str[0].toUpperCase() + str.slice(1);
-};
\ No newline at end of file
+};
+
+/** Responds to a request with JSON. */
+export const sendJson = (res: http.ServerResponse, status: number, data: unknown) => {
+	let stringified = JSON.stringify(data);
+	res.writeHead(status, {
+		'Content-Type': 'application/json',
+		'Content-Length': Buffer.byteLength(stringified),
+		'Cache-Control': 'no-cache, no-store'
+	});
+	res.end(stringified);
+};
+
+/** Gets the address a request came from. Behind a reverse proxy, that's the one the proxy forwarded. */
+export const getClientAddress = (req: http.IncomingMessage) => {
+	let forwardedFor = req.headers['x-forwarded-for'];
+	if (shared.config.trustProxy && forwardedFor) return String(forwardedFor).split(',')[0].trim();
+
+	return req.socket.remoteAddress ?? '';
+};
+
+/** Limits how often something can be done per key, like an address, within a time window. */
+export class RateLimiter {
+	maxAttempts: number;
+	windowLength: number;
+	attempts = new Map<string, number[]>();
+	lastPruneTime = 0;
+
+	constructor(maxAttempts: number, windowLength: number) {
+		this.maxAttempts = maxAttempts;
+		this.windowLength = windowLength;
+	}
+
+	/** Records an attempt. Returns false if there have already been too many of them lately, in which case it isn't recorded. */
+	attempt(key: string) {
+		let now = Date.now();
+		if (now - this.lastPruneTime >= this.windowLength) this.prune(now);
+
+		let times = (this.attempts.get(key) ?? []).filter(x => now - x < this.windowLength);
+		if (times.length >= this.maxAttempts) return false;
+
+		times.push(now);
+		this.attempts.set(key, times);
+		return true;
+	}
+
+	/** Forgets the keys that haven't made any attempts within the window, so the map doesn't grow forever. */
+	prune(now: number) {
+		for (let [key, times] of this.attempts) {
+			if (now - times[times.length - 1] >= this.windowLength) this.attempts.delete(key);
+		}
+		this.lastPruneTime = now;
+	}
+}
\ No newline at end of file
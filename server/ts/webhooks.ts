@@ -0,0 +1,145 @@
+import fetch from 'node-fetch';
+
+import { shared } from './shared';
+import { escapeDiscord, secondsToTimeString, uppercaseFirstLetter } from './util';
+
+/** Somewhere world record announcements get sent to. */
+export interface WebhookTarget {
+	url: string,
+	/** Discord and Slack get a message, the generic JSON format gets the message along with all details of the record. */
+	format: 'discord' | 'slack' | 'json',
+	/** The message, with placeholders in curly braces like {player}. Parts in square brackets are left out if a placeholder in them is empty. */
+	template?: string,
+	/** Only announce records in these modifications, like "gold". */
+	modifications?: string[],
+	/** Only announce records in these categories, like "beginner" or "custom". */
+	categories?: string[],
+	/** Custom levels need to have at least this many scores for records on them to be announced. */
+	customMinScoreCount?: number
+}
+
+/** A new #1 score. */
+export interface WorldRecordEvent {
+	missionPath: string,
+	missionName: string,
+	modification: string,
+	category: string,
+	player: string,
+	time: number,
+	isHunt: boolean,
+	/** Who held the record before. Null if there was no score yet. */
+	previousHolder: string,
+	previousTime: number
+}
+
+/** What the single Discord webhook used to send. */
+const LEGACY_TEMPLATE = '{player} has just achieved a world record on "{mission}" (Web {modification} {category}) of {time}';
+const DEFAULT_TEMPLATE = LEGACY_TEMPLATE + '[, beating {previousHolder} by {margin}]';
+
+/** The targets from the config. The old single Discord webhook still works too. */
+export const getWebhookTargets = () => {
+	let targets: WebhookTarget[] = [...(shared.config.webhooks ?? [])];
+	if (shared.config.discordWebhookUrl) targets.push({
+		url: shared.config.discordWebhookUrl,
+		format: 'discord',
+		template: LEGACY_TEMPLATE,
+		customMinScoreCount: shared.config.webhookCustomMinScoreThreshold
+	});
+
+	return targets;
+};
+
+const formatResult = (result: number, isHunt: boolean) => {
+	return isHunt? `${result} ${(result === 1)? 'point' : 'points'}` : secondsToTimeString(result / 1000);
+};
+
+/** Gets the value of every placeholder for an event. What players typed in is sanitized with the given function. */
+const getPlaceholders = (event: WorldRecordEvent, escape: (value: string) => string = x => x): Record<string, string> => {
+	let hasPrevious = event.previousTime !== null;
+
+	return {
+		player: escape(event.player),
+		mission: escape((event.missionName ?? event.missionPath).trim()),
+		modification: uppercaseFirstLetter(event.modification),
+		category: uppercaseFirstLetter(event.category),
+		time: formatResult(event.time, event.isHunt),
+		previousHolder: hasPrevious? escape(event.previousHolder) : '',
+		previousTime: hasPrevious? formatResult(event.previousTime, event.isHunt) : '',
+		margin: hasPrevious? formatResult(Math.abs(event.previousTime - event.time), event.isHunt) : ''
+	};
+};
+
+/** Fills in the placeholders of a template. */
+const fillTemplate = (template: string, placeholders: Record<string, string>) => {
+	// Leave out optional parts whose placeholders don't have a value
+	template = template.replace(/\[([^\]]*)\]/g, (match, part: string) => {
+		return (part.match(/\{\w+\}/g) ?? []).every(x => placeholders[x.slice(1, -1)])? part : '';
+	});
+
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in placeholders)? placeholders[name] : match);
+};
+
+const escapeSlack = (value: string) => {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/** Creates the request body a target expects for an event. */
+const createPayload = (target: WebhookTarget, event: WorldRecordEvent) => {
+	let template = target.template ?? DEFAULT_TEMPLATE;
+
+	if (target.format === 'discord') return { content: fillTemplate(template, getPlaceholders(event, escapeDiscord)) };
+	if (target.format === 'slack') return { text: fillTemplate(template, getPlaceholders(event, escapeSlack)) };
+
+	let placeholders = getPlaceholders(event);
+	return {
+		event: 'worldRecord',
+		message: fillTemplate(template, placeholders),
+		...event,
+		placeholders
+	};
+};
+
+const isAllowed = (target: WebhookTarget, event: WorldRecordEvent) => {
+	if (target.modifications && !target.modifications.includes(event.modification)) return false;
+	if (target.categories && !target.categories.includes(event.category)) return false;
+
+	if (target.customMinScoreCount && event.category === 'custom') {
+		let scoreCount: number = shared.getMissionScoreCount.pluck().get(event.missionPath);
+		if (scoreCount < target.customMinScoreCount) return false; // Not enough scores yet, don't broadcast
+	}
+
+	return true;
+};
+
+const send = (target: WebhookTarget, event: WorldRecordEvent) => {
+	return fetch(target.url, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json'
+		},
+		body: JSON.stringify(createPayload(target, event))
+	});
+};
+
+/** Announces a new world record to all webhook targets interested in it. */
+export const broadcastWorldRecord = (event: WorldRecordEvent) => {
+	for (let target of getWebhookTargets()) {
+		if (!isAllowed(target, event)) continue;
+		send(target, event).catch(e => console.error(`Couldn't send a webhook to ${target.url}.`, e));
+	}
+};
+
+/** Sends a made-up record the way a target would get it, but to another URL. */
+export const sendSampleEvent = (target: WebhookTarget, url: string) => {
+	return send({ ...target, url }, {
+		missionPath: 'beginner/movement.mis',
+		missionName: 'Learning to Roll',
+		modification: 'gold',
+		category: 'beginner',
+		player: 'Sample Player',
+		time: 3141,
+		isHunt: false,
+		previousHolder: 'Previous Holder',
+		previousTime: 3592
+	});
+};
\ No newline at end of file
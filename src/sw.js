@@ -1,23 +1,75 @@
+// Levels downloaded for offline play are put into this cache by the game (see offline.ts). Keep the name in sync.
+const OFFLINE_CACHE_NAME = 'offline-levels';
+// Holds the latest version of everything the game needs to start up, so that it also starts without internet
+const SHELL_CACHE_NAME = 'app-shell';
+// The only API responses needed for startup. All other API requests are dynamic.
+const SHELL_API_PATHS = ['/api/directory_structure', '/api/directory_structure_mbp', '/api/missions', '/api/version_history'];
+
+/** Returns true iff the resource is part of what's needed to start the game and get around the menus. Level resources aren't, they're only available offline once downloaded. */
+const isShellResource = (url) => {
+	if (url.pathname.startsWith('/api/')) return SHELL_API_PATHS.includes(url.pathname);
+
+	let dataPath = /^\/assets\/data(_mbp)?\/(.*)$/.exec(url.pathname);
+	if (dataPath) return dataPath[2].startsWith('sound/'); // The menus have sounds too
+
+	return true;
+};
+
 self.addEventListener('fetch', event => {
-	if (!(event.request.url.endsWith('/') || event.request.url.endsWith('index.html'))) return; // Only file we wanna handle specially rn
+	let url = new URL(event.request.url);
+	if (event.request.method !== 'GET' || url.origin !== location.origin) return;
+	if (url.pathname === '/api/live') return; // An endless event stream, leave it to the browser
+
+	let isNavigation = event.request.mode === 'navigate';
 
-	event.respondWith(new Promise(async (resolve) => {
-		let errResponse = new Response(noInternetHtml, {
-			status: '200', // Technically wrong ig,
-			headers: {
-				'Content-Type': 'text/html'
+	event.respondWith((async () => {
+		// Downloaded resources are for when there's no connection. While online, get the latest version and keep the download up to date with it, so it doesn't go stale.
+		let offlineCache = await caches.open(OFFLINE_CACHE_NAME);
+		let downloaded = await offlineCache.match(event.request);
+		if (downloaded) {
+			if (!navigator.onLine) return downloaded;
+
+			try {
+				let response = await fetch(event.request);
+				if (!response.ok) return downloaded;
+
+				let copy = response.clone();
+				event.waitUntil((async () => {
+					// The download might have been removed in the meantime, so don't bring it back
+					if (await offlineCache.match(event.request)) await offlineCache.put(event.request, copy);
+				})());
+				return response;
+			} catch (error) {
+				return downloaded;
 			}
-		});
+		}
 
-		setTimeout(() => resolve(errResponse), 10000);
+		if (!isNavigation && !isShellResource(url)) return fetch(event.request);
 
+		// Go to the network first so that the game stays up to date, and fall back to the last version we got
+		let shellCache = await caches.open(SHELL_CACHE_NAME);
 		try {
-			let response = await fetch(event.request);
-			resolve(response);
+			let response = await Promise.race([
+				fetch(event.request),
+				// Don't let the user stare at a blank page forever if the connection is really bad
+				...(isNavigation? [new Promise((_, reject) => setTimeout(() => reject(new Error("Timed out.")), 10000))] : [])
+			]);
+			if (response.ok) event.waitUntil(shellCache.put(event.request, response.clone()));
+
+			return response;
 		} catch (error) {
-			resolve(errResponse);
+			let cached = await shellCache.match(event.request, { ignoreSearch: isNavigation });
+			if (cached) return cached;
+			if (!isNavigation) throw error;
+
+			return new Response(noInternetHtml, {
+				status: '200', // Technically wrong ig,
+				headers: {
+					'Content-Type': 'text/html'
+				}
+			});
 		}
-	}));
+	})());
 });
 
 // Describes an HTML file that is shown when there's no internet. Reminds the user that internet is required to use the internet. Lol.
@@ -48,7 +100,7 @@ const noInternetHtml = `
 
 	<div>
 		Can't seem to establish a connection to the server.<br>
-		Marble Blast Web requires an active internet connection to function.<br><br><br>
+		Marble Blast Web needs to be opened with an active internet connection once before it can be played offline.<br><br><br>
 		<span style="font-size: 18px; opacity: 0.75;" onclick="document.body.style.display = 'none'; location.reload(true);">Try again</span>
 	</div>
 </html>
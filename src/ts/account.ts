@@ -0,0 +1,49 @@
+import { Leaderboard } from "./leaderboard";
+import { StorageManager } from "./storage";
+
+/** Handles logging into player accounts, which protect the player's name on the online leaderboard. Playing without one works just as well. */
+export abstract class AccountManager {
+	static get account() {
+		return StorageManager.data.account;
+	}
+
+	/** Logs into an account, or creates it first if `register` is set. The scores set on this device so far are moved to the account. Returns an error message if it didn't work. */
+	static async logIn(name: string, password: string, register = false) {
+		let data: {
+			name?: string,
+			token?: string,
+			error?: string
+		};
+		try {
+			let response = await fetch(register? './api/register' : './api/login', {
+				method: 'POST',
+				body: JSON.stringify({
+					name,
+					password,
+					randomId: StorageManager.data.randomId
+				})
+			});
+			data = await response.json();
+		} catch (e) {
+			console.error(e);
+			return "The server couldn't be reached. Check your internet connection and try again.";
+		}
+		if (data.error) return data.error;
+
+		StorageManager.data.account = {
+			name: data.name,
+			token: data.token
+		};
+		StorageManager.data.sessionExpired = false;
+		StorageManager.data.lastUsedName = data.name;
+		StorageManager.store();
+
+		Leaderboard.syncLeaderboard(); // Whatever's still queued can now be submitted under the account
+		return null;
+	}
+
+	static logOut() {
+		StorageManager.data.account = null;
+		StorageManager.store();
+	}
+}
\ No newline at end of file
@@ -16,6 +16,10 @@ export abstract class AudioManager {
 	static audioBufferCache = new Map<string, Promise<AudioBuffer>>();
 	/** Stores a list of all currently playing audio sources. */
 	static audioSources: AudioSource[] = [];
+	/** While set, no sounds are played. Used when simulating a level in the background. */
+	static silent = false;
+	/** While set, all sound effects are muted, including the ones already playing. */
+	static soundsMuted = false;
 
 	static oggDecoder: ReturnType<typeof OggdecModule>; // Because Safari
 
@@ -59,6 +63,8 @@ export abstract class AudioManager {
 
 	/** Loads an audio buffer from a path. Returns the cached version whenever possible. */
 	static loadBuffer(path: string) {
+		if (!this.context) return Promise.resolve<AudioBuffer>(null); // There's no audio when running headless
+
 		let fullPath = this.toFullPath(path);
 
 		// If there's a current level, see if there's a sound file for this path contained in it
@@ -148,6 +154,8 @@ export abstract class AudioManager {
 
 	/** Utility method for creating an audio source and playing it immediately. */
 	static play(path: string | string[], volume = 1, destination = this.soundGain, position?: THREE.Vector3) {
+		if (!this.context || this.silent) return;
+
 		let audioSource = this.createAudioSource(path, destination, position);
 		audioSource.gain.gain.value = position? 0 : volume;
 		audioSource.play();
@@ -179,7 +187,12 @@ export abstract class AudioManager {
 	static updateVolumes() {
 		// Quadratic because it feels better
 		this.musicGain.gain.linearRampToValueAtTime(StorageManager.data.settings.musicVolume ** 2, this.context.currentTime + 0.01);
-		this.soundGain.gain.linearRampToValueAtTime(StorageManager.data.settings.soundVolume ** 2, this.context.currentTime + 0.01);
+		this.soundGain.gain.linearRampToValueAtTime(this.soundsMuted? 0 : StorageManager.data.settings.soundVolume ** 2, this.context.currentTime + 0.01);
+	}
+
+	static setSoundsMuted(muted: boolean) {
+		this.soundsMuted = muted;
+		if (this.context) this.updateVolumes();
 	}
 
 	static stopAllAudio() {
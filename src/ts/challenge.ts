@@ -0,0 +1,73 @@
+import { MissionLibrary } from "./mission_library";
+import { state } from "./state";
+import { StorageManager } from "./storage";
+import { Util } from "./util";
+
+/** A mission everyone plays for a limited time, with a leaderboard of its own. */
+export interface Challenge {
+	id: string,
+	type: 'daily' | 'weekly',
+	mission: string,
+	missionName: string,
+	startsAt: number,
+	endsAt: number,
+	/** Best one first. */
+	scores: [string, number][]
+}
+
+/** Handles the daily and weekly challenges the server picks for everyone. */
+export abstract class ChallengeManager {
+	/** Gets the challenges that are currently running. Returns null if the server couldn't be reached. */
+	static async getChallenges() {
+		try {
+			let response = await fetch('./api/challenge');
+			if (!response.ok) return null;
+
+			return await response.json() as Record<Challenge['type'], Challenge>;
+		} catch (e) {
+			console.error(e);
+			return null;
+		}
+	}
+
+	/** Starts playing the mission of a challenge. Every qualified finish is submitted to the challenge until it's over. */
+	static play(challenge: Challenge) {
+		let mission = MissionLibrary.allMissions.find(x => x.path === challenge.mission);
+		if (!mission) {
+			state.menu.showAlertPopup('Error', "The mission of this challenge couldn't be found.");
+			return;
+		}
+
+		if (state.modification === 'gold' && mission.modification !== 'gold') {
+			state.menu.showAlertPopup('Warning', "This challenge can only be played in Marble Blast Platinum.");
+			return;
+		}
+
+		state.menu.home.hide();
+		state.menu.loadingScreen.loadLevel(mission, undefined, challenge.id);
+	}
+
+	/** Submits the result of a finished run to a challenge. Returns an error message if it wasn't accepted. */
+	static async submitScore(challengeId: string, name: string, result: number, replayData: ArrayBuffer) {
+		let data: { error?: string };
+		try {
+			let response = await fetch('./api/challenge', {
+				method: 'POST',
+				body: JSON.stringify({
+					challengeId,
+					randomId: StorageManager.data.randomId,
+					name,
+					time: result,
+					replay: replayData && await Util.arrayBufferToBase64(replayData),
+					token: StorageManager.data.account?.token
+				})
+			});
+			data = await response.json();
+		} catch (e) {
+			console.error(e);
+			return "The server couldn't be reached, so the score wasn't submitted to the challenge.";
+		}
+
+		return data.error ?? null;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+// Every built-in shape and trigger registers the datablocks it handles when its module is loaded, so all of them are imported here.
+import "./shapes/anti_gravity";
+import "./shapes/blast";
+import "./shapes/checkpoint";
+import "./shapes/duct_fan";
+import "./shapes/easter_egg";
+import "./shapes/end_pad";
+import "./shapes/gem";
+import "./shapes/glass";
+import "./shapes/helicopter";
+import "./shapes/land_mine";
+import "./shapes/magnet";
+import "./shapes/mega_marble";
+import "./shapes/nuke";
+import "./shapes/oilslick";
+import "./shapes/push_button";
+import "./shapes/random_power_up";
+import "./shapes/round_bumper";
+import "./shapes/shock_absorber";
+import "./shapes/sign";
+import "./shapes/sign_caution";
+import "./shapes/sign_finish";
+import "./shapes/sign_plain";
+import "./shapes/sky";
+import "./shapes/small_duct_fan";
+import "./shapes/start_pad";
+import "./shapes/super_bounce";
+import "./shapes/super_jump";
+import "./shapes/super_speed";
+import "./shapes/time_travel";
+import "./shapes/tornado";
+import "./shapes/trap_door";
+import "./shapes/triangle_bumper";
+import "./triggers/checkpoint_trigger";
+import "./triggers/destination_trigger";
+import "./triggers/help_trigger";
+import "./triggers/in_bounds_trigger";
+import "./triggers/out_of_bounds_trigger";
+import "./triggers/teleport_trigger";
\ No newline at end of file
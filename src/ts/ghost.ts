@@ -0,0 +1,101 @@
+import * as THREE from "three";
+import OIMO from "./declarations/oimo";
+import { Level, PHYSICS_TICK_RATE, TimeState } from "./level";
+import { Replay } from "./replay";
+import { StorageManager } from "./storage";
+import { Leaderboard } from "./leaderboard";
+import { Util } from "./util";
+
+const GHOST_OPACITY = 0.35;
+
+/** A translucent marble that races along the path of a stored replay. It's purely visual: It isn't part of the physics simulation and doesn't end up in the recorded replay. Since it follows the current attempt's time, it resets whenever the level restarts. */
+export class Ghost {
+	group: THREE.Group;
+	innerGroup: THREE.Group;
+	sphere: THREE.Mesh;
+	/** The position of the ghost after each physics tick. */
+	positions: THREE.Vector3[];
+	/** The orientation of the ghost after each physics tick. */
+	orientations: THREE.Quaternion[];
+	/** Ticks in which the ghost respawned at a checkpoint. It jumps there instead of being interpolated. */
+	respawnTicks: Set<number>;
+
+	constructor(level: Level, positions: OIMO.Vec3[], orientations: OIMO.Quat[], respawnTicks: number[]) {
+		this.positions = positions.map(x => Util.vecOimoToThree(x));
+		this.orientations = orientations.map(x => new THREE.Quaternion(x.x, x.y, x.z, x.w));
+		this.respawnTicks = new Set(respawnTicks);
+
+		this.group = new THREE.Group();
+		this.innerGroup = new THREE.Group();
+		this.group.add(this.innerGroup);
+
+		let geometry = new THREE.SphereBufferGeometry(1, 32, 16);
+		let material = new THREE.MeshLambertMaterial({ map: level.marble.marbleTexture ?? null, color: 0xffffff, transparent: true, opacity: GHOST_OPACITY, depthWrite: false });
+		this.sphere = new THREE.Mesh(geometry, material);
+		this.sphere.scale.setScalar(level.marble.radius);
+		this.innerGroup.add(this.sphere);
+	}
+
+	/** Creates the ghost picked in the settings for a level. Returns null if there's no ghost to race against. */
+	static async load(level: Level) {
+		let setting = StorageManager.data.settings.ghost;
+		if (setting === 0 || level.replay.mode === 'playback') return null;
+
+		try {
+			let replayData: ArrayBuffer = null;
+			if (setting === 1) {
+				let personalBest = StorageManager.getBestTimesForMission(level.mission.path, 1, '', level.mission.isHunt)[0];
+				if (personalBest[2]) replayData = await StorageManager.databaseGet('replays', personalBest[2]);
+			} else if (!level.mission.isLocal) {
+				replayData = await Leaderboard.getWorldRecordReplay(level.mission.path);
+			}
+			if (!replayData) return null;
+
+			let replay = Replay.fromSerialized(replayData);
+			if (replay.missionPath !== level.mission.path) return null;
+
+			if (replay.isInputBased) {
+				// Find out where the marble went on every tick
+				let positions: OIMO.Vec3[] = [];
+				let orientations: OIMO.Quat[] = [];
+				await replay.simulate(level.mission, simulated => {
+					positions.push(simulated.marble.body.getPosition());
+					orientations.push(simulated.marble.body.getOrientation());
+				});
+
+				return new Ghost(level, positions, orientations, replay.checkpointRespawns);
+			}
+
+			return new Ghost(level, replay.marblePositions, replay.marbleOrientations, replay.checkpointRespawns);
+		} catch (e) {
+			// Not being able to race a ghost is no reason to not let the player play
+			console.error("Couldn't load the ghost.", e);
+			return null;
+		}
+	}
+
+	render(time: TimeState) {
+		let ticks = time.currentAttemptTime * PHYSICS_TICK_RATE / 1000;
+		let index = Math.floor(ticks) - 1; // The last state that's fully reached
+		let completion = ticks - Math.floor(ticks);
+
+		if (index + 1 >= this.positions.length) {
+			// The ghost's run is over
+			this.group.visible = false;
+			return;
+		}
+
+		let from = Math.max(index, 0);
+		let to = index + 1;
+		if (this.respawnTicks.has(to)) completion = 1;
+
+		this.group.visible = true;
+		this.group.position.copy(this.positions[from]).lerp(this.positions[to], completion);
+		this.innerGroup.quaternion.copy(this.orientations[from]).slerp(this.orientations[to], completion);
+	}
+
+	dispose() {
+		this.sphere.geometry.dispose();
+		(this.sphere.material as THREE.Material).dispose();
+	}
+}
@@ -0,0 +1,184 @@
+import { rootDirectory } from './headless_globals';
+import { StorageManager } from './storage'; // Has to come before the other game modules for the circular imports to resolve in the right order
+import * as fs from 'fs';
+import * as path from 'path';
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import OIMO from "./declarations/oimo";
+import * as THREE from "three";
+import { DirectoryStructure, ResourceManager } from "./resources";
+import { state } from "./state";
+import { FileLoader } from "./parsing/file_loader";
+import { MisParser } from "./parsing/mis_parser";
+import { CLAEntry, Mission, MissionIndexEntry } from "./mission";
+import { Level, TickInput } from "./level";
+import { Replay } from "./replay";
+
+/** Supplies the input for every tick. Either a list of inputs, one per tick, or a function that's called for every tick. Returning null (or running out of inputs) ends the run. */
+export type InputScript = Partial<TickInput>[] | ((tickIndex: number, level: Level) => Partial<TickInput>);
+
+/** Reads a directory recursively into the same structure the server hands out to the browser. */
+const scanDirectory = (directoryPath: string) => {
+	let result: DirectoryStructure = {};
+
+	for (let file of fs.readdirSync(directoryPath).sort((a, b) => a.localeCompare(b))) {
+		let newPath = path.join(directoryPath, file);
+		result[file] = fs.statSync(newPath).isDirectory()? scanDirectory(newPath) : null;
+	}
+
+	return result;
+};
+
+/** Prepares everything necessary to run levels in Node: Physics settings, resource loading from the file system and the asset directory structure. */
+export const initHeadless = (modification: 'gold' | 'platinum' = 'gold') => {
+	// Same settings as the browser uses
+	OIMO.Setting.defaultGJKMargin = 0.005;
+	OIMO.Setting.defaultContactPositionCorrectionAlgorithm = OIMO.PositionCorrectionAlgorithm.NGS;
+	THREE.Object3D.DefaultUp = new THREE.Vector3(0, 0, 1);
+
+	state.modification = modification;
+	StorageManager.initHeadless();
+
+	ResourceManager.readFile = async (filePath: string) => {
+		// Custom level archives come from the server's storage, where it keeps them after downloading them from the CLA
+		let archiveMatch = /^\.\/api\/custom\/(\d+)\.zip$/.exec(filePath);
+		if (archiveMatch) filePath = path.join('..', 'server', 'storage', 'customs', `zip${archiveMatch[1]}.zip`);
+
+		try {
+			let buffer = await fs.promises.readFile(path.join(rootDirectory, 'src', filePath));
+			return new Blob([buffer]);
+		} catch (e) {
+			return null; // Behave the same way a 404 would
+		}
+	};
+	ResourceManager.dataDirectoryStructure = scanDirectory(path.join(rootDirectory, 'src', 'assets', 'data'));
+	ResourceManager.dataMbpDirectoryStructure = scanDirectory(path.join(rootDirectory, 'src', 'assets', 'data_mbp'));
+};
+
+/** Loads a mission into a headless level, ready to be stepped. The path is the one used for leaderboards and replays, like "beginner/movement.mis" or "mbp/advanced/schadenfreude.mis". Custom levels also need their CLA entry, and their archive has to be in the server's storage. */
+export const loadHeadlessLevel = async (missionPath: string, claEntry?: CLAEntry) => {
+	let mission: Mission;
+	if (claEntry) {
+		mission = Mission.fromCLAEntry(claEntry, false);
+		if (mission.path !== missionPath) throw new Error("The CLA entry doesn't belong to the mission.");
+		await mission.load();
+	} else {
+		let misFilePath: string;
+		if (missionPath.startsWith('mbp/')) misFilePath = './assets/data_mbp/missions_mbp/' + missionPath.slice(4);
+		else if (missionPath.startsWith('mbu/')) misFilePath = './assets/data_mbp/missions_mbu/' + missionPath.slice(4);
+		else misFilePath = './assets/data/missions/' + missionPath;
+
+		let misFile = await FileLoader.loadMis(misFilePath);
+		mission = Mission.fromMisFile(missionPath, misFile);
+	}
+
+	let level = new Level(mission, true);
+	await level.init();
+	await level.start();
+
+	return level;
+};
+
+/**
+ * Steps a headless level using a scripted input stream.
+ * @param maxTicks The run ends after this many ticks at the latest.
+ * @returns The amount of ticks that were simulated.
+ */
+export const runHeadless = (level: Level, script: InputScript, maxTicks = Infinity) => {
+	let tickIndex = 0;
+
+	while (tickIndex < maxTicks && !level.stopped) {
+		let input = Array.isArray(script)? script[tickIndex] : script(tickIndex, level);
+		if (!input) break;
+
+		level.stepHeadless({
+			movement: input.movement ?? { x: 0, y: 0 },
+			jump: input.jump ?? false,
+			use: input.use ?? false,
+			blast: input.blast ?? false,
+			yaw: input.yaw ?? level.yaw,
+			pitch: input.pitch ?? level.pitch
+		});
+		tickIndex++;
+	}
+
+	return tickIndex;
+};
+
+/** What a replay comes out to when simulated. */
+export interface SimulationResult {
+	/** The gameplay clock the replay finishes with, or null if it doesn't finish. */
+	finishTime: number,
+	/** The points collected in hunt mode. */
+	huntScore: number
+}
+
+/** Re-simulates an input-based replay from the very start of its mission. Replays of custom levels need the level's CLA entry. */
+export const simulateReplay = async (replayData: ArrayBuffer, claEntry?: CLAEntry): Promise<SimulationResult> => {
+	let replay = Replay.fromSerialized(replayData);
+	if (!replay.isInputBased) throw new Error("Only input-based replays can be simulated.");
+
+	let level = await loadHeadlessLevel(replay.missionPath, claEntry);
+	level.replay = replay;
+	replay.level = level;
+	replay.mode = 'playback';
+	level.restart(true);
+
+	// The input comes from the replay itself. The level stops once the replay is over.
+	runHeadless(level, () => ({}));
+
+	return {
+		finishTime: level.finishTime?.gameplayClock ?? null,
+		huntScore: level.huntScore
+	};
+};
+
+/** Collects the metadata of all stock missions into the mission index the server hands out. Within each modification, the missions are sorted by level index. */
+export const buildMissionIndex = async () => {
+	let index: MissionIndexEntry[] = [];
+
+	const collectMissionFiles = (arr: string[], directory: DirectoryStructure, path: string) => {
+		for (let name in directory) {
+			if (directory[name]) {
+				collectMissionFiles(arr, directory[name], path + name + '/');
+			} else if (name.endsWith('.mis')) {
+				arr.push(path + name);
+			}
+		}
+	};
+
+	const addMissions = async (directoryPath: string, directory: DirectoryStructure, pathPrefix: string) => {
+		let filenames: string[] = [];
+		collectMissionFiles(filenames, directory, '');
+
+		let missions: Mission[] = [];
+		for (let filename of filenames) {
+			let misFile = await FileLoader.loadMis(directoryPath + filename);
+			missions.push(Mission.fromMisFile(pathPrefix + filename, misFile));
+		}
+		missions.sort((a, b) => MisParser.parseNumber(a.missionInfo.level) - MisParser.parseNumber(b.missionInfo.level));
+
+		index.push(...missions.map(x => x.toIndexEntry()));
+	};
+
+	await addMissions('./assets/data/missions/', ResourceManager.dataDirectoryStructure['missions'], '');
+	await addMissions('./assets/data_mbp/missions_mbp/', ResourceManager.dataMbpDirectoryStructure['missions_mbp'], 'mbp/');
+	await addMissions('./assets/data_mbp/missions_mbu/', ResourceManager.dataMbpDirectoryStructure['missions_mbu'], 'mbu/');
+
+	return index;
+};
+
+// Simulating is blocking and slow, so the server runs it on a worker thread that loads this bundle
+if (!isMainThread && workerData?.simulateReplay) {
+	initHeadless(workerData.modification);
+	simulateReplay(workerData.replayData, workerData.claEntry)
+		.then(result => parentPort.postMessage({ result }))
+		.catch(e => parentPort.postMessage({ error: (e instanceof Error)? e.message : String(e) }));
+}
+
+// Same goes for parsing all the missions
+if (!isMainThread && workerData?.buildMissionIndex) {
+	initHeadless();
+	buildMissionIndex()
+		.then(index => parentPort.postMessage({ index }))
+		.catch(e => parentPort.postMessage({ error: (e instanceof Error)? e.message : String(e) }));
+}
@@ -0,0 +1,18 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// This module sets up the globals that the browser would otherwise provide through script tags. It has to be imported before anything else when running headless.
+
+/** The root directory of the project. The headless bundle lives in the server directory. */
+export const rootDirectory = path.join(__dirname, '..');
+
+/** Evaluates one of the browser libraries such that it registers its global, exactly like it would in the browser. */
+const loadLibrary = (fileName: string) => {
+	let code = fs.readFileSync(path.join(rootDirectory, 'src', 'lib', fileName), 'utf-8');
+	new Function('window', code)(globalThis);
+};
+
+// Use the same builds the browser uses so that the simulation matches exactly
+loadLibrary('three.js');
+loadLibrary('oimo.js');
+loadLibrary('pako.js');
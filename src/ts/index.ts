@@ -1,4 +1,4 @@
-import './input';
+import { initInput } from './input';
 import OIMO from "./declarations/oimo";
 import { ResourceManager } from "./resources";
 import * as THREE from "three";
@@ -9,11 +9,16 @@ import { Leaderboard } from './leaderboard';
 import { MissionLibrary } from './mission_library';
 import { state } from './state';
 import { setMenu } from './ui/menu_setter';
+import { initRendering } from './rendering';
+import { OfflineManager } from './offline';
 
 OIMO.Setting.defaultGJKMargin = 0.005; // Without this, the marble is very visibly floating above stuff.
 OIMO.Setting.defaultContactPositionCorrectionAlgorithm = OIMO.PositionCorrectionAlgorithm.NGS; // Slower, but there's really only one collision object anyway so
 THREE.Object3D.DefaultUp = new THREE.Vector3(0, 0, 1);
 
+initRendering();
+initInput();
+
 const loadingMessage = document.querySelector('#loading-message') as HTMLDivElement;
 const loadingDetail = document.querySelector('#loading-detail') as HTMLDivElement;
 const startGameDialog = document.querySelector('#start-game-dialog') as HTMLDivElement;
@@ -56,7 +61,8 @@ const init = async () => {
 	}
 
 	loadingDetail.textContent = 'Loading leaderboard...';
-	await Leaderboard.init();
+	if (OfflineManager.isOffline) Leaderboard.init(); // Don't wait on the network if there is none
+	else await Leaderboard.init();
 	if (Util.isWeeb) document.title = 'Marble Blast Weeb'; // <- humor
 
 	let started = false;
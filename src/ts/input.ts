@@ -8,101 +8,104 @@ export const currentMousePosition = {
 	y: 0
 };
 
-window.addEventListener('mousemove', (e) => {
-	currentMousePosition.x = e.clientX * SCALING_RATIO;
-	currentMousePosition.y = e.clientY * SCALING_RATIO;
-	state.level?.onMouseMove(e);
-});
-window.addEventListener('touchstart', (e) => {
-	let touch = e.changedTouches[0];
-	currentMousePosition.x = touch.clientX * SCALING_RATIO;
-	currentMousePosition.y = touch.clientY * SCALING_RATIO;
-});
-window.addEventListener('touchmove', (e) => {
-	let touch = e.changedTouches[0];
-	currentMousePosition.x = touch.clientX * SCALING_RATIO;
-	currentMousePosition.y = touch.clientY * SCALING_RATIO;
-});
-
-window.addEventListener('mousedown', (e) => {
-	if (!StorageManager.data) return;
-	// Request pointer lock if we're currently in-game
-	if (state.level && !state.level.paused && !state.level.finishTime && !Util.isTouchDevice) document.documentElement.requestPointerLock?.();
-
-	let buttonName = ["LMB", "MMB", "RMB"][e.button];
-	if (buttonName && document.pointerLockElement) {
-		// Check if the mouse button is mapped to something
-		for (let button in StorageManager.data.settings.gameButtonMapping) {
-			let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
-			if (buttonName !== StorageManager.data.settings.gameButtonMapping[key]) continue;
+/** Registers the window-level mouse, keyboard and touch listeners. */
+const addWindowListeners = () => {
+	window.addEventListener('mousemove', (e) => {
+		currentMousePosition.x = e.clientX * SCALING_RATIO;
+		currentMousePosition.y = e.clientY * SCALING_RATIO;
+		state.level?.onMouseMove(e);
+	});
+	window.addEventListener('touchstart', (e) => {
+		let touch = e.changedTouches[0];
+		currentMousePosition.x = touch.clientX * SCALING_RATIO;
+		currentMousePosition.y = touch.clientY * SCALING_RATIO;
+	});
+	window.addEventListener('touchmove', (e) => {
+		let touch = e.changedTouches[0];
+		currentMousePosition.x = touch.clientX * SCALING_RATIO;
+		currentMousePosition.y = touch.clientY * SCALING_RATIO;
+	});
+
+	window.addEventListener('mousedown', (e) => {
+		if (!StorageManager.data) return;
+		// Request pointer lock if we're currently in-game. Replays need the cursor for their controls.
+		if (state.level && !state.level.paused && !state.level.finishTime && state.level.replay.mode !== 'playback' && !Util.isTouchDevice) document.documentElement.requestPointerLock?.();
+
+		let buttonName = ["LMB", "MMB", "RMB"][e.button];
+		if (buttonName && document.pointerLockElement) {
+			// Check if the mouse button is mapped to something
+			for (let button in StorageManager.data.settings.gameButtonMapping) {
+				let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
+				if (buttonName !== StorageManager.data.settings.gameButtonMapping[key]) continue;
 	
-			setPressed(key, buttonName, true);
+				setPressed(key, buttonName, true);
 			
-			if (state.level) {
-				if (key === 'jump' && isPressedOnce(key)) state.level.jumpQueued = true;
-				if (key === 'use' && isPressedOnce(key)) state.level.useQueued = true;
-				if (key === 'blast' && isPressedOnce(key)) state.level.blastQueued = true;
+				if (state.level) {
+					if (key === 'jump' && isPressedOnce(key)) state.level.jumpQueued = true;
+					if (key === 'use' && isPressedOnce(key)) state.level.useQueued = true;
+					if (key === 'blast' && isPressedOnce(key)) state.level.blastQueued = true;
+				}
 			}
 		}
-	}
-});
+	});
 
-window.addEventListener('mouseup', (e) => {
-	if (!StorageManager.data) return;
+	window.addEventListener('mouseup', (e) => {
+		if (!StorageManager.data) return;
 
-	let buttonName = ["LMB", "MMB", "RMB"][e.button];
-	if (buttonName) {
-		for (let button in StorageManager.data.settings.gameButtonMapping) {
-			let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
-			if (buttonName !== StorageManager.data.settings.gameButtonMapping[key]) continue;
+		let buttonName = ["LMB", "MMB", "RMB"][e.button];
+		if (buttonName) {
+			for (let button in StorageManager.data.settings.gameButtonMapping) {
+				let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
+				if (buttonName !== StorageManager.data.settings.gameButtonMapping[key]) continue;
 	
-			setPressed(key, buttonName, false);
+				setPressed(key, buttonName, false);
+			}
 		}
-	}
-});
+	});
 
-window.addEventListener('keydown', (e) => {
-	if (!StorageManager.data) return;
+	window.addEventListener('keydown', (e) => {
+		if (!StorageManager.data) return;
 
-	// Check if the key button is mapped to something
-	for (let button in StorageManager.data.settings.gameButtonMapping) {
-		let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
-		if (e.code !== StorageManager.data.settings.gameButtonMapping[key]) continue;
+		// Check if the key button is mapped to something
+		for (let button in StorageManager.data.settings.gameButtonMapping) {
+			let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
+			if (e.code !== StorageManager.data.settings.gameButtonMapping[key]) continue;
 
-		setPressed(key, e.code, true);
+			setPressed(key, e.code, true);
 
-		if (state.level) {
-			if (key === 'jump' && isPressedOnce(key)) state.level.jumpQueued = true;
-			if (key === 'use' && isPressedOnce(key)) state.level.useQueued = true;
+			if (state.level) {
+				if (key === 'jump' && isPressedOnce(key)) state.level.jumpQueued = true;
+				if (key === 'use' && isPressedOnce(key)) state.level.useQueued = true;
+			}
 		}
-	}
-});
+	});
 
-window.addEventListener('keyup', (e) => {
-	if (!StorageManager.data) return;
+	window.addEventListener('keyup', (e) => {
+		if (!StorageManager.data) return;
 
-	for (let button in StorageManager.data.settings.gameButtonMapping) {
-		let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
-		if (e.code !== StorageManager.data.settings.gameButtonMapping[key]) continue;
+		for (let button in StorageManager.data.settings.gameButtonMapping) {
+			let key = button as keyof typeof StorageManager.data.settings.gameButtonMapping;
+			if (e.code !== StorageManager.data.settings.gameButtonMapping[key]) continue;
 
-		setPressed(key, e.code, false);
-	}
-});
+			setPressed(key, e.code, false);
+		}
+	});
 
-window.addEventListener('contextmenu', (e) => e.preventDefault()); // Disable right click context menu for good
+	window.addEventListener('contextmenu', (e) => e.preventDefault()); // Disable right click context menu for good
 
-window.addEventListener('beforeunload', (e) => {
-	// Ask the user if they're sure about closing the tab if they're currently in game
-	if (state.level) {
-		e.preventDefault();
-		e.returnValue = '';
-	}
-});
+	window.addEventListener('beforeunload', (e) => {
+		// Ask the user if they're sure about closing the tab if they're currently in game
+		if (state.level) {
+			e.preventDefault();
+			e.returnValue = '';
+		}
+	});
 
-document.addEventListener('pointerlockchange', () => {
-	// When pointer lock is left, we pause.
-	if (!document.pointerLockElement) state.level?.pause();
-});
+	document.addEventListener('pointerlockchange', () => {
+		// When pointer lock is left, we pause.
+		if (!document.pointerLockElement) state.level?.pause();
+	});
+};
 
 /** For each game button, a list of the keys/buttons corresponding to it that are currently pressed. */
 const gameButtons = {
@@ -119,7 +122,9 @@ const gameButtons = {
 	freeLook: [] as string[],
 	restart: [] as string[],
 	pause: [] as string[],
-	blast: [] as string[]
+	blast: [] as string[],
+	saveState: [] as string[],
+	loadState: [] as string[]
 };
 
 /** For each game button, a flag indicating whether it has been pressed since the flag was reset. Used to prevent things like entering and immediately leaving the pause menu. */
@@ -137,7 +142,9 @@ const pressedSinceFlag = {
 	freeLook: false,
 	restart: false,
 	pause: false,
-	blast: false
+	blast: false,
+	saveState: false,
+	loadState: false
 };
 
 /** Set a button's state based on a presser. */
@@ -255,22 +262,20 @@ const updateGamepadInput = () => {
 	}
 };
 
-window.setInterval(updateGamepadInput, 4);
-
 /* TOUCH STUFF: */
 
-export const touchInputContainer = document.querySelector('#touch-input-container') as HTMLDivElement;
-const movementAreaElement = document.querySelector('#movement-area') as HTMLDivElement;
-const cameraAreaElement = document.querySelector('#camera-area') as HTMLDivElement;
-export const movementJoystick = document.querySelector('#movement-joystick') as HTMLDivElement;
-export const movementJoystickHandle = document.querySelector('#movement-joystick-handle') as HTMLDivElement;
-export const actionButtonContainer = document.querySelector('#action-buttons') as HTMLDivElement;
-export const jumpButton = document.querySelector('#jump-button') as HTMLImageElement;
-export const useButton = document.querySelector('#use-button') as HTMLImageElement;
-export const blastButton = document.querySelector('#blast-button') as HTMLImageElement;
-export const pauseButton = document.querySelector('#pause-button') as HTMLImageElement;
-export const restartButton = document.querySelector('#restart-button') as HTMLImageElement;
-export const freeLookButton = document.querySelector('#free-look-button') as HTMLImageElement;
+export let touchInputContainer: HTMLDivElement;
+let movementAreaElement: HTMLDivElement;
+let cameraAreaElement: HTMLDivElement;
+export let movementJoystick: HTMLDivElement;
+export let movementJoystickHandle: HTMLDivElement;
+export let actionButtonContainer: HTMLDivElement;
+export let jumpButton: HTMLImageElement;
+export let useButton: HTMLImageElement;
+export let blastButton: HTMLImageElement;
+export let pauseButton: HTMLImageElement;
+export let restartButton: HTMLImageElement;
+export let freeLookButton: HTMLImageElement;
 
 export const JOYSTICK_HANDLE_SIZE_FACTOR = 2/5;
 let joystickPosition: {x: number, y: number} = null;
@@ -347,13 +352,6 @@ const endCameraMovementFromButton = (touch: Touch) => {
 	joystickAsCameraTouches.splice(joystickAsCameraTouches.indexOf(touch), 1);
 };
 
-setupTouchButton(jumpButton, 'jump', startCameraMovementFromButton, endCameraMovementFromButton);
-setupTouchButton(useButton, 'use', startCameraMovementFromButton, endCameraMovementFromButton, getUseEnabledOpacityAndEnabled);
-setupTouchButton(blastButton, 'blast', startCameraMovementFromButton, endCameraMovementFromButton, getBlastEnabledOpacityAndEnabled);
-setupTouchButton(pauseButton, 'pause');
-setupTouchButton(restartButton, 'restart');
-setupTouchButton(freeLookButton, 'freeLook');
-
 export const hideTouchControls = () => {
 	touchInputContainer.style.display = 'none';
 };
@@ -371,39 +369,6 @@ export const setTouchControlMode = (mode: 'normal' | 'replay') => {
 	}
 };
 
-movementAreaElement.addEventListener('touchstart', (e) => {
-	let touch = e.changedTouches[0];
-	movementAreaTouchIdentifier = touch.identifier;
-
-	let x: number, y: number;
-	let joystickSize = StorageManager.data.settings.joystickSize;
-	if (StorageManager.data.settings.joystickPosition === 0) {
-		// Fixed
-		x = StorageManager.data.settings.joystickLeftOffset + joystickSize/2;
-		y = window.innerHeight * (1 - StorageManager.data.settings.joystickVerticalPosition) * SCALING_RATIO;
-	} else {
-		// Dynamic
-		x = Util.clamp(touch.clientX * SCALING_RATIO, joystickSize/2, (window.innerWidth * SCALING_RATIO - joystickSize) / 2);
-		y = Util.clamp(touch.clientY * SCALING_RATIO, joystickSize/2, window.innerHeight * SCALING_RATIO - joystickSize / 2);
-	}
-
-	movementJoystick.style.visibility = 'visible';
-	movementJoystick.style.left = x - joystickSize/2 + 'px';
-	movementJoystick.style.top = y - joystickSize/2 + 'px';
-	joystickPosition = {x: x, y: y};
-	normalizedJoystickHandlePosition = {x: 0, y: 0};
-	updateJoystickHandlePosition(touch);
-});
-
-movementAreaElement.addEventListener('touchmove', (e) => {
-	let touch = [...e.changedTouches].find(x => x.identifier === movementAreaTouchIdentifier);
-	if (!touch) return;
-
-	if (touch.identifier === movementAreaTouchIdentifier) {
-		updateJoystickHandlePosition(touch);
-	}
-});
-
 const updateJoystickHandlePosition = (touch: Touch) => {
 	let joystickSize = StorageManager.data.settings.joystickSize;
 	let joystickHandleSize = JOYSTICK_HANDLE_SIZE_FACTOR * StorageManager.data.settings.joystickSize;
@@ -416,56 +381,119 @@ const updateJoystickHandlePosition = (touch: Touch) => {
 	movementJoystickHandle.style.top = (normalizedJoystickHandlePosition.y) * innerRadius + joystickSize/2 - joystickHandleSize/2 + 'px';
 };
 
-window.addEventListener('touchend', (e) => {
-	for (let touch of e.changedTouches) {
+/** Looks up the touch control elements and hooks them up. */
+const initTouchControls = () => {
+	touchInputContainer = document.querySelector('#touch-input-container') as HTMLDivElement;
+	movementAreaElement = document.querySelector('#movement-area') as HTMLDivElement;
+	cameraAreaElement = document.querySelector('#camera-area') as HTMLDivElement;
+	movementJoystick = document.querySelector('#movement-joystick') as HTMLDivElement;
+	movementJoystickHandle = document.querySelector('#movement-joystick-handle') as HTMLDivElement;
+	actionButtonContainer = document.querySelector('#action-buttons') as HTMLDivElement;
+	jumpButton = document.querySelector('#jump-button') as HTMLImageElement;
+	useButton = document.querySelector('#use-button') as HTMLImageElement;
+	blastButton = document.querySelector('#blast-button') as HTMLImageElement;
+	pauseButton = document.querySelector('#pause-button') as HTMLImageElement;
+	restartButton = document.querySelector('#restart-button') as HTMLImageElement;
+	freeLookButton = document.querySelector('#free-look-button') as HTMLImageElement;
+
+	setupTouchButton(jumpButton, 'jump', startCameraMovementFromButton, endCameraMovementFromButton);
+	setupTouchButton(useButton, 'use', startCameraMovementFromButton, endCameraMovementFromButton, getUseEnabledOpacityAndEnabled);
+	setupTouchButton(blastButton, 'blast', startCameraMovementFromButton, endCameraMovementFromButton, getBlastEnabledOpacityAndEnabled);
+	setupTouchButton(pauseButton, 'pause');
+	setupTouchButton(restartButton, 'restart');
+	setupTouchButton(freeLookButton, 'freeLook');
+
+	movementAreaElement.addEventListener('touchstart', (e) => {
+		let touch = e.changedTouches[0];
+		movementAreaTouchIdentifier = touch.identifier;
+
+		let x: number, y: number;
+		let joystickSize = StorageManager.data.settings.joystickSize;
+		if (StorageManager.data.settings.joystickPosition === 0) {
+			// Fixed
+			x = StorageManager.data.settings.joystickLeftOffset + joystickSize/2;
+			y = window.innerHeight * (1 - StorageManager.data.settings.joystickVerticalPosition) * SCALING_RATIO;
+		} else {
+			// Dynamic
+			x = Util.clamp(touch.clientX * SCALING_RATIO, joystickSize/2, (window.innerWidth * SCALING_RATIO - joystickSize) / 2);
+			y = Util.clamp(touch.clientY * SCALING_RATIO, joystickSize/2, window.innerHeight * SCALING_RATIO - joystickSize / 2);
+		}
+
+		movementJoystick.style.visibility = 'visible';
+		movementJoystick.style.left = x - joystickSize/2 + 'px';
+		movementJoystick.style.top = y - joystickSize/2 + 'px';
+		joystickPosition = {x: x, y: y};
+		normalizedJoystickHandlePosition = {x: 0, y: 0};
+		updateJoystickHandlePosition(touch);
+	});
+
+	movementAreaElement.addEventListener('touchmove', (e) => {
+		let touch = [...e.changedTouches].find(x => x.identifier === movementAreaTouchIdentifier);
+		if (!touch) return;
+
 		if (touch.identifier === movementAreaTouchIdentifier) {
-			movementAreaTouchIdentifier = null;
-			movementJoystick.style.visibility = 'hidden';
-			normalizedJoystickHandlePosition = null;
+			updateJoystickHandlePosition(touch);
 		}
+	});
+
+	window.addEventListener('touchend', (e) => {
+		for (let touch of e.changedTouches) {
+			if (touch.identifier === movementAreaTouchIdentifier) {
+				movementAreaTouchIdentifier = null;
+				movementJoystick.style.visibility = 'hidden';
+				normalizedJoystickHandlePosition = null;
+			}
 	
-		if (touch.identifier === cameraAreaTouchIdentifier) {
-			cameraAreaTouchIdentifier = null;
-		}
+			if (touch.identifier === cameraAreaTouchIdentifier) {
+				cameraAreaTouchIdentifier = null;
+			}
 	
-		for (let func of touchendFuncs) func(touch, false);
-	}
+			for (let func of touchendFuncs) func(touch, false);
+		}
 
-	if (e.touches.length === 0) {
-		// Just to be sure, end all the things. To prevent stuff from being stuck on screen forever
-		movementAreaTouchIdentifier = null;
-		movementJoystick.style.visibility = 'hidden';
-		normalizedJoystickHandlePosition = null;
+		if (e.touches.length === 0) {
+			// Just to be sure, end all the things. To prevent stuff from being stuck on screen forever
+			movementAreaTouchIdentifier = null;
+			movementJoystick.style.visibility = 'hidden';
+			normalizedJoystickHandlePosition = null;
 
-		cameraAreaTouchIdentifier = null;
+			cameraAreaTouchIdentifier = null;
 
-		for (let func of touchendFuncs) func(null, true);
-	}
-});
+			for (let func of touchendFuncs) func(null, true);
+		}
+	});
 
-cameraAreaElement.addEventListener('touchstart', (e) => {
-	let touch = e.changedTouches[0];
-	startCameraMovement(touch);
-});
+	cameraAreaElement.addEventListener('touchstart', (e) => {
+		let touch = e.changedTouches[0];
+		startCameraMovement(touch);
+	});
+
+	// Put this on touchInputContainer instead of cameraAreaElement so it also works when you start the drag on a button
+	touchInputContainer.addEventListener('touchmove', (e) => {
+		let touch = [...e.changedTouches].find(x => x.identifier === cameraAreaTouchIdentifier);
+		let level = state.level;
 
-// Put this on touchInputContainer instead of cameraAreaElement so it also works when you start the drag on a button
-touchInputContainer.addEventListener('touchmove', (e) => {
-	let touch = [...e.changedTouches].find(x => x.identifier === cameraAreaTouchIdentifier);
-	let level = state.level;
+		if (!touch) return;
 
-	if (!touch) return;
+		if (touch.identifier === cameraAreaTouchIdentifier) {
+			let movementX = (touch.clientX - lastCameraTouch.clientX) * SCALING_RATIO;
+			let movementY = (touch.clientY - lastCameraTouch.clientY) * SCALING_RATIO;
 
-	if (touch.identifier === cameraAreaTouchIdentifier) {
-		let movementX = (touch.clientX - lastCameraTouch.clientX) * SCALING_RATIO;
-		let movementY = (touch.clientY - lastCameraTouch.clientY) * SCALING_RATIO;
+			let factor = Util.lerp(1 / 1500, 1 / 50, StorageManager.data.settings.mouseSensitivity) * ((joystickAsCameraTouches.length !== 0) ? StorageManager.data.settings.actionButtonAsJoystickMultiplier : 1);
+			let yFactor = (StorageManager.data.settings.invertMouse & 0b10)? -1 : 1;
+			let freeLook = StorageManager.data.settings.alwaysFreeLook || isPressed('freeLook');
 
-		let factor = Util.lerp(1 / 1500, 1 / 50, StorageManager.data.settings.mouseSensitivity) * ((joystickAsCameraTouches.length !== 0) ? StorageManager.data.settings.actionButtonAsJoystickMultiplier : 1);
-		let yFactor = (StorageManager.data.settings.invertMouse & 0b10)? -1 : 1;
-		let freeLook = StorageManager.data.settings.alwaysFreeLook || isPressed('freeLook');
+			level.yaw -= movementX * factor;
+			if (freeLook) level.pitch += movementY * factor * yFactor;
 
-		level.yaw -= movementX * factor;
-		if (freeLook) level.pitch += movementY * factor * yFactor;
+			lastCameraTouch = touch;
+		}
+	});
+};
 
-		lastCameraTouch = touch;
-	}
-});
\ No newline at end of file
+/** Hooks up all input devices. Needs to be called once before any input can be received. */
+export const initInput = () => {
+	addWindowListeners();
+	window.setInterval(updateGamepadInput, 4);
+	initTouchControls();
+};
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Point3F } from "./parsing/binary_file_parser";
 import { Octree, OctreeObject } from "./octree";
 import { renderer } from "./rendering";
 import { StorageManager } from "./storage";
+import { Mission } from "./mission";
 
 export const INTERIOR_DEFAULT_FRICTION = 1;
 export const INTERIOR_DEFAULT_RESTITUTION = 1;
@@ -255,15 +256,56 @@ export class Interior {
 		let rigidBodyConfig =  new OIMO.RigidBodyConfig();
 		rigidBodyConfig.type = (subObjectIndex === undefined)? OIMO.RigidBodyType.STATIC : OIMO.RigidBodyType.KINEMATIC;
 		this.body = new OIMO.RigidBody(rigidBodyConfig);
-		this.useInstancing = Util.supportsInstancing(renderer);
+		this.useInstancing = !level.headless && Util.supportsInstancing(renderer);
 
 		// Combine the default special materials with the special ones specified in the .mis file
 		this.specialMaterials = new Set([...specialMaterials, ...Object.keys(this.level.mission.misFile.materialMappings)]);
 	}
 
+	/** Finds the texture file of a material used by an interior. Returns its path relative to the data directory, or null if there's no such file. */
+	static findTexturePath(mission: Mission, difPath: string, fileName: string) {
+		let fullPath = difPath.includes('data/')?
+			difPath.slice(difPath.indexOf('data/') + 'data/'.length)
+			: difPath.slice(difPath.indexOf('data_mbp/') + 'data_mbp/'.length);
+
+		const lookForTexture = () => {
+			let currentPath = fullPath;
+
+			while (true) {
+				// Search for the texture file inside-out, first looking in the closest directory and then searching in parent directories until it is found.
+
+				currentPath = currentPath.slice(0, Math.max(0, currentPath.lastIndexOf('/')));
+				if (!currentPath) return null; // Nothing found
+
+				let fullNames = mission.getFullNamesOf(currentPath + '/' + fileName);
+				if (fullNames.length > 0) {
+					let name = fullNames.find(x => !x.endsWith('.dif'));
+					if (!name) return null;
+
+					return currentPath + '/' + name;
+				}
+			}
+		};
+
+		let texturePath = lookForTexture(); // First look for the texture regularly
+		if (!texturePath && fullPath.includes('interiors/')) {
+			// If we didn't find the texture, try looking for it in the MBP folder.
+			fullPath = fullPath.replace('interiors/', 'interiors_mbp/');
+			texturePath = lookForTexture();
+		}
+
+		return texturePath;
+	}
+
 	async init(id: number) {
 		this.id = id;
 
+		if (this.level.headless) {
+			// Collision geometry is built from the convex hulls later on, so there's nothing to do here
+			this.level.loadingState.loaded++;
+			return;
+		}
+
 		// Check if there's already shared data from another interior
 		let sharedDataPromise = this.level.sharedInteriorData.get(this.detailLevel);
 		if (this.useInstancing && sharedDataPromise) {
@@ -308,40 +350,13 @@ export class Interior {
 					continue;
 				}
 				
-				let fullPath = this.difPath.includes('data/')?
-					this.difPath.slice(this.difPath.indexOf('data/') + 'data/'.length)
-					: this.difPath.slice(this.difPath.indexOf('data_mbp/') + 'data_mbp/'.length);
-
-				const lookForTexture = async () => {
-					let currentPath = fullPath;
-	
-					while (true) {
-						// Search for the texture file inside-out, first looking in the closest directory and then searching in parent directories until it is found.
-		
-						currentPath = currentPath.slice(0, Math.max(0, currentPath.lastIndexOf('/')));
-						if (!currentPath) break; // Nothing found
-		
-						let fullNames = this.level.mission.getFullNamesOf(currentPath + '/' + fileName);
-						if (fullNames.length > 0) {
-							let name = fullNames.find(x => !x.endsWith('.dif'));
-							if (!name) break;
-		
-							// We found the texture file; create the texture.
-							let texture = await this.level.mission.getTexture(currentPath + '/' + name);
-							texture.wrapS = THREE.RepeatWrapping;
-							texture.wrapT = THREE.RepeatWrapping;
-							mat.map = texture;
-		
-							break;
-						}
-					}
-				};
-	
-				await lookForTexture(); // First look for the texture regularly
-				if (!mat.map && fullPath.includes('interiors/')) {
-					// If we didn't find the texture, try looking for it in the MBP folder.
-					fullPath = fullPath.replace('interiors/', 'interiors_mbp/');
-					await lookForTexture();
+				let texturePath = Interior.findTexturePath(this.level.mission, this.difPath, fileName);
+				if (texturePath) {
+					// We found the texture file; create the texture.
+					let texture = await this.level.mission.getTexture(texturePath);
+					texture.wrapS = THREE.RepeatWrapping;
+					texture.wrapT = THREE.RepeatWrapping;
+					mat.map = texture;
 				}
 			}
 	
@@ -561,7 +576,7 @@ export class Interior {
 		if (this.useInstancing) {
 			this.sharedData.instancedMesh.setMatrixAt(this.instanceIndex, this.worldMatrix);
 			this.sharedData.instancedMesh.instanceMatrix.needsUpdate = true;
-		} else {
+		} else if (this.mesh) {
 			this.mesh.matrix.copy(this.worldMatrix);
 		}
 
@@ -1,21 +1,102 @@
+import { MissionLibrary } from "./mission_library";
 import { ResourceManager } from "./resources";
 import { state } from "./state";
 import { BestTimes, StorageManager } from "./storage";
 import { Util } from "./util";
 import { executeOnWorker } from "./worker";
 
+/** How often the leaderboard is synced when live updates aren't coming through. */
+const POLLING_INTERVAL = 60 * 1000;
+/** How long to wait before submitting the scores again that the server was too busy to verify. */
+const DEFERRED_SUBMISSION_DELAY = 30 * 1000;
+
 /** Stores and handles operations on the online leaderboard. */
 export abstract class Leaderboard {
-	/** The scores for each mission. */
-	static scores = new Map<string, [string, number][]>();
+	/** The scores for each mission. The top scores also state whether their replay can be watched. */
+	static scores = new Map<string, [string, number, boolean?][]>();
 	/** Whether a mission's scores are currently loading. */
 	static loading = new Set<string>();
 	/** The latest score timestamp received from the user. Will be used to get any scores newer than this. */
 	static latestTimestamp: number = null;
+	static liveEventSource: EventSource = null;
+	static pollingInterval: number = null;
 
 	static async init() {
 		// The first time we do this, the main purpose is to update the value of `latestTimestamp`.
 		await this.syncLeaderboard();
+		this.subscribeToLiveUpdates();
+	}
+
+	/** Listens for scores being set by other players while the game is open. Periodically syncs the leaderboard instead whenever that doesn't work. */
+	static subscribeToLiveUpdates() {
+		if (typeof EventSource === 'undefined') {
+			this.startPolling();
+			return;
+		}
+
+		let connectedBefore = false;
+		this.liveEventSource = new EventSource('./api/live');
+
+		this.liveEventSource.addEventListener('open', () => {
+			this.stopPolling();
+			if (connectedBefore) this.syncLeaderboard(); // Catch up on what we missed while disconnected
+			connectedBefore = true;
+		});
+		this.liveEventSource.addEventListener('error', () => {
+			// The browser reconnects by itself unless the server turned us away for good, but keep the leaderboard fresh in the meantime either way
+			this.startPolling();
+		});
+		// New scores and scores changed by moderators both come with the mission's updated leaderboard
+		for (let event of ['score', 'change']) this.liveEventSource.addEventListener(event, (e: MessageEvent) => {
+			let data: { mission: string, scores: [string, number, boolean?][] } = JSON.parse(e.data);
+			this.onLiveChange(data.mission, data.scores);
+		});
+		this.liveEventSource.addEventListener('worldRecord', (e: MessageEvent) => {
+			let data: { mission: string, username: string, time: number } = JSON.parse(e.data);
+			this.onLiveWorldRecord(data);
+		});
+	}
+
+	static startPolling() {
+		if (this.pollingInterval !== null) return;
+		this.pollingInterval = setInterval(() => this.syncLeaderboard(), POLLING_INTERVAL) as any as number;
+	}
+
+	static stopPolling() {
+		clearInterval(this.pollingInterval);
+		this.pollingInterval = null;
+	}
+
+	static onLiveChange(missionPath: string, scores: [string, number, boolean?][]) {
+		if (!this.scores.has(missionPath)) return; // Nobody's looking at it, it'll be loaded fresh once needed
+
+		this.scores.set(missionPath, scores);
+		this.registerLeaderboardChange([missionPath]);
+	}
+
+	/** Lets the player know when someone else just took the world record on the mission they're playing. */
+	static onLiveWorldRecord(data: { mission: string, username: string, time: number }) {
+		let level = state.level;
+		if (!level || level.stopped || level.mission.path !== data.mission) return;
+		if ([StorageManager.data.account?.name, StorageManager.data.lastUsedName].includes(data.username)) return; // Most likely their own
+
+		level.hud.displayAlert(`${data.username} just set a new world record on this level: ${level.mission.formatResult(data.time)}`);
+	}
+
+	/** Gets the .wrec of the world record on a mission. Returns null if there is none. */
+	static async getWorldRecordReplay(missionPath: string) {
+		let response = await fetch('./api/world_record_replay?mission=' + encodeURIComponent(missionPath));
+		if (!response.ok) return null;
+
+		return await response.arrayBuffer();
+	}
+
+	/** Gets the replay of the score with the given rank on a mission. Returns null if it wasn't kept. */
+	static async getReplay(missionPath: string, rank: number) {
+		let response = await fetch(`./api/replay?mission=${encodeURIComponent(missionPath)}&rank=${rank}`);
+		if (!response.ok) return null;
+
+		return await response.arrayBuffer();
 	}
 
 	/** Loads the scores of all missions in the vicinity of the current mission. */
@@ -26,10 +107,12 @@ export abstract class Leaderboard {
 		for (let i = -5; i <= 5; i++) {
 			let index = state.menu.levelSelect.getCycleMissionIndex(i);
 			let mission = currentLevelArray[index];
-			if (mission) missionPaths.add(mission.path);
+			if (mission && !mission.isLocal) missionPaths.add(mission.path);
 		}
 
-		for (let mission of state.menu.levelSelect.getNextShuffledMissions()) missionPaths.add(mission.path);
+		for (let mission of state.menu.levelSelect.getNextShuffledMissions()) {
+			if (!mission.isLocal) missionPaths.add(mission.path);
+		}
 
 		this.loadForMissions([...missionPaths]);
 	}
@@ -42,14 +125,7 @@ export abstract class Leaderboard {
 		missionPaths.forEach(x => this.loading.add(x));
 		this.registerLeaderboardChange(missionPaths);
 
-		// Get all the scores
-		let blob = await ResourceManager.retryFetch('./api/scores', {
-			method: 'POST',
-			body: JSON.stringify({
-				missions: missionPaths
-			})
-		});
-		let data: Record<string, [string, number][]> = await ResourceManager.readBlobAsJson(blob);
+		let data = await this.fetchScores(missionPaths);
 
 		for (let missionPath in data) {
 			// Update the scores
@@ -60,6 +136,19 @@ export abstract class Leaderboard {
 		this.registerLeaderboardChange(missionPaths);
 	}
 
+	/** Gets all the scores of the given missions from the server. */
+	static async fetchScores(missionPaths: string[]) {
+		let blob = await ResourceManager.retryFetch('./api/scores', {
+			method: 'POST',
+			body: JSON.stringify({
+				missions: missionPaths
+			})
+		});
+		let data: Record<string, [string, number, boolean?][]> = await ResourceManager.readBlobAsJson(blob);
+
+		return data;
+	}
+
 	static isLoading(missionPath: string) {
 		return this.loading.has(missionPath);
 	}
@@ -74,32 +163,36 @@ export abstract class Leaderboard {
 
 	/** Synchronizes the leaderboard: Uploads new personal best times and gets all new/changed online scores and updates the leaderboard accordingly. */
 	static async syncLeaderboard() {
-		let queue = StorageManager.data.bestTimeSubmissionQueue;
+		// While the account session is expired, hold the scores back so they don't get submitted without the account
+		let queue: Record<string, BestTimes[number]> = StorageManager.data.sessionExpired? {} : { ...StorageManager.data.bestTimeSubmissionQueue };
 		let payloadBestTimes: Record<string, [string, number]> = {};
 		let payloadReplays: Record<string, string> = {};
 
 		// Go over all scores in the submission queue
 		for (let missionPath in queue) {
 			let score = queue[missionPath];
-			payloadBestTimes[missionPath] = [score[0], score[1]];
 
-			let onlineScore = this.scores.get(missionPath)?.[0];
-			if ((!onlineScore || (score[1] < onlineScore[1])) && !missionPath.includes('custom/')) {
-				// This score is better than the top online score, therefore assume this is a new world record and prepare the replay for upload.
-				let replayData = await StorageManager.databaseGet('replays', score[2]) as ArrayBuffer;
-				if (!replayData) continue;
-
-				// Convert to base64 because we can't ship binary data over JSON
-				let base64 = await Util.arrayBufferToBase64(replayData);
-				payloadReplays[missionPath] = base64;
+			// Always send along the replay, as the server uses it to verify the score
+			let replayData = await StorageManager.databaseGet('replays', score[2]) as ArrayBuffer;
+			if (!replayData) {
+				// Without its replay, the score can't be verified, so there's no use in submitting it
+				delete queue[missionPath];
+				if (StorageManager.data.bestTimeSubmissionQueue[missionPath] === score) delete StorageManager.data.bestTimeSubmissionQueue[missionPath];
+				continue;
 			}
+			payloadBestTimes[missionPath] = [score[0], score[1]];
+
+			// Convert to base64 because we can't ship binary data over JSON
+			let base64 = await Util.arrayBufferToBase64(replayData);
+			payloadReplays[missionPath] = base64;
 		}
 
 		let payload = {
 			randomId: StorageManager.data.randomId,
 			bestTimes: Object.keys(queue).length? await Util.arrayBufferToBase64(await executeOnWorker('compress', JSON.stringify(payloadBestTimes))) : null, // Compress and encode the best times a bit for security™
 			latestTimestamp: this.latestTimestamp,
-			replays: payloadReplays
+			replays: payloadReplays,
+			token: StorageManager.data.account?.token
 		};
 
 		let blob = await ResourceManager.retryFetch('./api/submit', {
@@ -108,7 +201,12 @@ export abstract class Leaderboard {
 		});
 		let data: {
 			latestTimestamp: number,
-			scores: Record<string, [string, number][]>
+			scores: Record<string, [string, number, boolean?][]>,
+			sessionExpired: boolean,
+			/** Scores the server won't ever accept, along with why. */
+			rejectedScores: Record<string, string>,
+			/** Scores the server couldn't get to right now. */
+			deferredScores: string[]
 		} = await ResourceManager.readBlobAsJson(blob);
 
 		this.latestTimestamp = data.latestTimestamp;
@@ -119,9 +217,33 @@ export abstract class Leaderboard {
 
 		this.registerLeaderboardChange(Object.keys(data.scores));
 
-		// Since a response arrived, empty the queue
-		StorageManager.data.bestTimeSubmissionQueue = {};
+		if (data.sessionExpired) {
+			// The scores weren't submitted, so keep them queued until the player has logged in again
+			StorageManager.data.account = null;
+			StorageManager.data.sessionExpired = true;
+			StorageManager.store();
+			state.menu.showAlertPopup('Logged out', "Your account session has expired. Log in again to submit your scores.");
+			return;
+		}
+
+		// Since a response arrived, take the submitted scores off the queue. Scores queued in the meantime and the ones the server couldn't verify yet stay on it.
+		let deferredScores = data.deferredScores ?? [];
+		for (let missionPath in queue) {
+			if (deferredScores.includes(missionPath)) continue;
+			if (StorageManager.data.bestTimeSubmissionQueue[missionPath] === queue[missionPath]) delete StorageManager.data.bestTimeSubmissionQueue[missionPath];
+		}
 		StorageManager.store();
+
+		if (deferredScores.length > 0) setTimeout(() => this.syncLeaderboard(), DEFERRED_SUBMISSION_DELAY);
+
+		let rejectedMissions = Object.keys(data.rejectedScores ?? {});
+		if (rejectedMissions.length > 0) {
+			let lines = rejectedMissions.map(missionPath => {
+				let title = MissionLibrary.allMissions.find(x => x.path === missionPath)?.title ?? missionPath;
+				return `${Util.htmlEscape(title)}: ${Util.htmlEscape(data.rejectedScores[missionPath])}`;
+			});
+			state.menu.showAlertPopup('Score not submitted', lines.join('<br>'));
+		}
 	}
 
 	/** Communicates that the given missions' leaderboards have changed somehow. Causes a visual update to the leaderboard if the missions are currently being viewed. */
@@ -4,61 +4,37 @@ import { renderer, camera, orthographicCamera, mainCanvas, marbleReflectionCamer
 import OIMO from "./declarations/oimo";
 import { Marble, bounceParticleOptions } from "./marble";
 import { Shape, SharedShapeData } from "./shape";
-import { MissionElementSimGroup, MissionElementType, MissionElementStaticShape, MissionElementItem, MisParser, MissionElementTrigger, MissionElementInteriorInstance, MissionElementTSStatic, MissionElementParticleEmitterNode, MissionElementSky } from "./parsing/mis_parser";
+import { MissionElementSimGroup, MissionElementType, MissionElementStaticShape, MissionElementItem, MisParser, MissionElementTrigger, MissionElementInteriorInstance, MissionElementTSStatic, MissionElementParticleEmitterNode, MissionElementSky, MissionElementMissionArea } from "./parsing/mis_parser";
 import { StartPad } from "./shapes/start_pad";
-import { SignFinish } from "./shapes/sign_finish";
-import { SignPlain } from "./shapes/sign_plain";
 import { EndPad, fireworkSmoke, redSpark, redTrail, blueSpark, blueTrail } from "./shapes/end_pad";
 import { Gem } from "./shapes/gem";
-import { SuperJump, superJumpParticleOptions } from "./shapes/super_jump";
-import { SignCaution } from "./shapes/sign_caution";
-import { SuperBounce } from "./shapes/super_bounce";
-import { RoundBumper } from "./shapes/round_bumper";
-import { Helicopter } from "./shapes/helicopter";
+import { superJumpParticleOptions } from "./shapes/super_jump";
 import { DuctFan } from "./shapes/duct_fan";
-import { AntiGravity } from "./shapes/anti_gravity";
-import { LandMine, landMineSmokeParticle, landMineSparksParticle } from "./shapes/land_mine";
-import { ShockAbsorber } from "./shapes/shock_absorber";
-import { SuperSpeed, superSpeedParticleOptions } from "./shapes/super_speed";
-import { TimeTravel } from "./shapes/time_travel";
+import { landMineSmokeParticle, landMineSparksParticle } from "./shapes/land_mine";
+import { superSpeedParticleOptions } from "./shapes/super_speed";
 import { Tornado } from "./shapes/tornado";
-import { TrapDoor } from "./shapes/trap_door";
-import { TriangleBumper } from "./shapes/triangle_bumper";
-import { Oilslick } from "./shapes/oilslick";
 import { Util, Scheduler } from "./util";
 import { PowerUp } from "./shapes/power_up";
-import { isPressed, releaseAllButtons, gamepadAxes, getPressedFlag, resetPressedFlag, hideTouchControls, maybeShowTouchControls, setTouchControlMode } from "./input";
-import { SmallDuctFan } from "./shapes/small_duct_fan";
+import { isPressed, releaseAllButtons, gamepadAxes, getPressedFlag, resetPressedFlag, hideTouchControls, maybeShowTouchControls, setTouchControlMode, normalizedJoystickHandlePosition } from "./input";
 import { PathedInterior } from "./pathed_interior";
 import { Trigger } from "./triggers/trigger";
-import { InBoundsTrigger } from "./triggers/in_bounds_trigger";
-import { HelpTrigger } from "./triggers/help_trigger";
-import { OutOfBoundsTrigger } from "./triggers/out_of_bounds_trigger";
 import { ResourceManager } from "./resources";
 import { AudioManager, AudioSource } from "./audio";
 import { PhysicsHelper } from "./physics";
 import { ParticleManager, ParticleEmitterOptions, particleNodeEmittersEmitterOptions, ParticleEmitter } from "./particles";
-import { StorageManager } from "./storage";
+import { Split, StorageManager } from "./storage";
 import { Replay } from "./replay";
+import { Ghost } from "./ghost";
 import { Mission } from "./mission";
-import { PushButton } from "./shapes/push_button";
 import { DifFile } from "./parsing/dif_parser";
 import { state } from "./state";
-import { Sign } from "./shapes/sign";
-import { Magnet } from "./shapes/magnet";
-import { Nuke, nukeSmokeParticle, nukeSparksParticle } from "./shapes/nuke";
-import { TeleportTrigger } from "./triggers/teleport_trigger";
-import { DestinationTrigger } from "./triggers/destination_trigger";
-import { Checkpoint } from "./shapes/checkpoint";
+import { nukeSmokeParticle, nukeSparksParticle } from "./shapes/nuke";
 import { CheckpointTrigger } from "./triggers/checkpoint_trigger";
-import { EasterEgg } from "./shapes/easter_egg";
 import { RandomPowerUp } from "./shapes/random_power_up";
 import { MbpPauseScreen } from "./ui/pause_screen_mbp";
-import { MbpHud } from "./ui/hud_mbp";
-import { Sky } from "./shapes/sky";
-import { Glass } from "./shapes/glass";
-import { Blast } from "./shapes/blast";
-import { MegaMarble } from "./shapes/mega_marble";
+import { PracticeState } from "./practice";
+import { shapeRegistry, triggerRegistry } from "./registry";
+import "./datablocks";
 
 /** How often the physics will be updated, per second. */
 export const PHYSICS_TICK_RATE = 120;
@@ -77,10 +53,17 @@ const SHAPE_OVERLAY_SCALES = {
 };
 /** The time in milliseconds when the marble is released from the start pad. */
 export const GO_TIME = 3500;
+/** Simulating many ticks at once happens in chunks of this many milliseconds, in between which the page gets to respond. */
+export const SIMULATION_CHUNK_DURATION = 15;
 /** Default camera pitch */
 export const DEFAULT_PITCH = 0.45;
 const BLAST_CHARGE_TIME = 25000;
 const MAX_TIME = 999 * 60 * 1000 + 59 * 1000 + 999; // 999:59.99, should be large enough
+/** In hunt mode, gems this close to the randomly chosen one spawn along with it, unless the mission says otherwise. */
+const HUNT_SPAWN_RADIUS = 20;
+const HUNT_MAX_GEMS_PER_SPAWN = 7;
+/** How far below the lowest part of the level the marble can fall before it's considered out of the mission area. */
+const MISSION_AREA_FLOOR_DEPTH = 100;
 const MBP_SONGS = ['astrolabe.ogg', 'endurance.ogg', 'flanked.ogg', 'grudge.ogg', 'mbp old shell.ogg', 'quiet lab.ogg', 'rising temper.ogg', 'seaside revisited.ogg', 'the race.ogg'];
 
 /** The map used to get particle emitter options for a ParticleEmitterNode. */
@@ -119,6 +102,19 @@ export interface TimeState {
 	physicsTickCompletion: number
 }
 
+/** The player input used to simulate a single physics tick. */
+export interface TickInput {
+	/** The movement direction relative to the camera, each component in [-1, 1]. Positive x is forward, positive y is left. */
+	movement: { x: number, y: number },
+	jump: boolean,
+	/** Uses the held power-up, or skips the out-of-bounds animation. */
+	use: boolean,
+	blast: boolean,
+	/** The camera orientation at the start of the tick. */
+	yaw: number,
+	pitch: number
+}
+
 interface LoadingState {
 	/** How many things have loaded */
 	loaded: number,
@@ -129,6 +125,8 @@ interface LoadingState {
 /** The central control unit of gameplay. Handles loading, simulation and rendering. */
 export class Level extends Scheduler {
 	mission: Mission;
+	/** Headless levels only simulate and don't touch the DOM, WebGL or audio. They are stepped manually using `stepHeadless`. */
+	headless = false;
 	/** Whether or not this level has the classic additional features of MBU levels, such as a larger marble and the blast functionality. */
 	loadingState: LoadingState;
 
@@ -159,6 +157,12 @@ export class Level extends Scheduler {
 	lastPhysicsTick: number = null;
 	lastFrameTime: number = null;
 	paused = true;
+	/** How fast a replay is played back, relative to real time. */
+	playbackSpeed = 1;
+	/** Whether replay playback is halted. Unlike pausing the level, this keeps the level interactive. */
+	playbackPaused = false;
+	/** The tick replay playback is currently being moved to, or null if it isn't. */
+	seekTarget: number = null;
 	/** If the level is stopped, it shouldn't be used anymore. */
 	stopped = false;
 	/** The timestate at the moment of finishing. */
@@ -188,9 +192,19 @@ export class Level extends Scheduler {
 	heldPowerUp: PowerUp = null;
 	totalGems = 0;
 	gemCount = 0;
+	/** The points collected in the current hunt round. */
+	huntScore = 0;
+	/** The gem the current group of gems was spawned around in hunt mode. */
+	huntSpawnCenter: Gem = null;
+	/** How many groups of gems have been spawned in the current hunt round. */
+	huntSpawnCount = 0;
 	blastAmount = 0;
 	outOfBounds = false;
 	outOfBoundsTime: TimeState;
+	/** The bounds of the mission area, or null if the mission doesn't define one. The marble is out of bounds once it leaves them horizontally or falls below them. The top is only there for drawing. */
+	missionArea: THREE.Box3 = null;
+	/** The input for the physics tick currently being simulated. */
+	input: TickInput = null;
 	/** When the jump button was pressed, remember that it was pressed until the next tick to execute the jump. */
 	jumpQueued = false;
 	useQueued = false;
@@ -202,6 +216,15 @@ export class Level extends Scheduler {
 	helpTextTimeState: TimeState = null;
 	/** The time state at the last point the alert text was updated. */
 	alertTextTimeState: TimeState = null;
+	/** The time state at the last point the split delta was updated. */
+	splitDeltaTimeState: TimeState = null;
+
+	/** The splits taken in the current attempt, at every gem, checkpoint and the finish. */
+	splits: Split[] = [];
+	/** The splits of the personal best, which the current attempt is compared against. */
+	bestSplits: Split[] = null;
+	/** How many splits had been taken when the current checkpoint was reached. */
+	checkpointSplitCount = 0;
 
 	/** Stores the shape that is the destination of the current checkpoint. */
 	currentCheckpoint: Shape = null;
@@ -220,13 +243,32 @@ export class Level extends Scheduler {
 	/** Used for jukebox stuff */
 	originalMusicName: string;
 	replay: Replay;
-
-	constructor(mission: Mission) {
+	/** The ghost marble the player is racing against, if any. */
+	ghost: Ghost = null;
+	/** In practice mode, the player can save and load the level state at will, but doesn't get any scores. */
+	practice = false;
+	/** The last state saved in practice mode. Survives restarts. */
+	practiceState: PracticeState = null;
+	/** The ID of the challenge this level is played for, if any. Qualified finishes get submitted to it. */
+	challengeId: string = null;
+
+	constructor(mission: Mission, headless = false) {
 		super();
 		this.mission = mission;
+		this.headless = headless;
 		this.loadingState = { loaded: 0, total: 0 };
 	}
 
+	/** The HUD to display information on, or null if there is none. */
+	get hud() {
+		return this.headless? null : state.menu.hud;
+	}
+
+	/** How many ticks are simulated per tick's worth of real time. */
+	get simulationSpeed() {
+		return PLAYBACK_SPEED * ((this.replay.mode === 'playback')? this.playbackSpeed : 1);
+	}
+
 	/** Loads all necessary resources and builds the mission. */
 	async init() {
 		// Scan the mission for elements to determine required loading effort
@@ -240,6 +282,9 @@ export class Level extends Scheduler {
 		}
 		this.loadingState.total += 6 + 1 + 3 + 6; // For the scene, marble, UI and sounds (includes music!)
 
+		this.bestSplits = StorageManager.data.bestSplits[this.mission.path] ?? null;
+		this.practice = !this.headless && StorageManager.data.settings.practiceMode;
+
 		this.timeState = {
 			timeSinceLoad: 0,
 			currentAttemptTime: 0,
@@ -253,12 +298,27 @@ export class Level extends Scheduler {
 		}
 
 		this.physics = new PhysicsHelper(this);
+
+		if (this.headless) {
+			// Only build what's needed for the simulation
+			this.scene = new THREE.Scene();
+			await this.initMarble(); this.loadingState.loaded += 1;
+			this.particles = new ParticleManager(this);
+			await this.addSimGroup(this.mission.root);
+			this.initMissionArea();
+			this.loadingState.loaded = this.loadingState.total;
+
+			this.replay = new Replay(this);
+			return;
+		}
+
 		await this.initScene();
 		await this.initMarble(); this.loadingState.loaded += 1;
 		this.particles = new ParticleManager(this);
 		await this.particles.init();
 		let soundPromise = this.initSounds();
 		await this.addSimGroup(this.mission.root);
+		this.initMissionArea();
 		await this.initUi(); this.loadingState.loaded += 3;
 		await soundPromise; this.loadingState.loaded += 6;
 
@@ -270,6 +330,13 @@ export class Level extends Scheduler {
 
 		this.paused = false;
 		this.restart(true);
+
+		if (this.headless) {
+			// Everything done in onLevelStart is audio, so we can skip it
+			this.updateCamera(this.timeState);
+			return;
+		}
+
 		for (let interior of this.interiors) await interior.onLevelStart();
 		for (let shape of this.shapes) await shape.onLevelStart();
 		AudioManager.normalizePositionalAudioVolume();
@@ -286,6 +353,36 @@ export class Level extends Scheduler {
 		for (let shape of this.shapes) if (shape.isTSStatic) shape.render(this.timeState);
 	}
 
+	/** Computes the bounds of the mission area from the MissionArea element and the level geometry. */
+	initMissionArea() {
+		let element = this.mission.allElements.find(x => x._type === MissionElementType.MissionArea) as MissionElementMissionArea;
+		if (!element?.area) return;
+
+		// The area is given as "x y width height"
+		let [x, y, width, height] = MisParser.parseNumberList(element.area);
+		if (!(width > 0 && height > 0)) return;
+
+		// The floor lies a bit below the lowest part of the level, found using the bounding boxes of all interiors and the positions of all shapes
+		let geometryBounds = new THREE.Box3();
+		for (let interior of this.interiors) {
+			let { min, max } = interior.detailLevel.boundingBox;
+			let box = new THREE.Box3(new THREE.Vector3(min.x, min.y, min.z), new THREE.Vector3(max.x, max.y, max.z));
+			geometryBounds.union(box.applyMatrix4(interior.worldMatrix));
+		}
+		for (let shape of this.shapes) geometryBounds.expandByPoint(shape.worldPosition);
+		if (geometryBounds.isEmpty()) return;
+
+		this.missionArea = new THREE.Box3(
+			new THREE.Vector3(x, y, geometryBounds.min.z - MISSION_AREA_FLOOR_DEPTH),
+			new THREE.Vector3(x + width, y + height, geometryBounds.max.z + MISSION_AREA_FLOOR_DEPTH)
+		);
+
+		if (!this.headless && StorageManager.data.settings.debugOverlay) {
+			// Draw the boundary so that level makers can see where it is
+			this.scene.add(new THREE.Box3Helper(this.missionArea, new THREE.Color(0xffff00)));
+		}
+	}
+
 	async initScene() {
 		this.scene = new THREE.Scene();
 
@@ -411,6 +508,12 @@ export class Level extends Scheduler {
 		this.physics.initMarble();
 	}
 
+	/** Loads the ghost marble picked in the settings. Has to happen once the replay is set up. */
+	async initGhost() {
+		this.ghost = await Ghost.load(this);
+		if (this.ghost) this.scene.add(this.ghost.group);
+	}
+
 	async initUi() {
 		// Load all necessary UI image elements
 		await state.menu.hud.load();
@@ -441,7 +544,7 @@ export class Level extends Scheduler {
 			shape.ambientRotate = true;
 			shape.showSequences = false;
 			// MBP's UI gem color is randomized
-			if (path.includes("gem") && state.menu.hud instanceof MbpHud) shape.matNamesOverride['base.gem'] = Gem.pickRandomColor() + '.gem';
+			if (path.includes("gem") && state.modification === 'platinum') shape.matNamesOverride['base.gem'] = Gem.pickRandomColor() + '.gem';
 
 			await shape.init();
 
@@ -468,7 +571,7 @@ export class Level extends Scheduler {
 			this.overlayScene.remove(shape.group);
 		}
 
-		if (state.menu.pauseScreen instanceof MbpPauseScreen) state.menu.pauseScreen.jukebox.reset();
+		if (state.modification === 'platinum') (state.menu.pauseScreen as MbpPauseScreen).jukebox.reset();
 	}
 
 	async initSounds() {
@@ -581,44 +684,9 @@ export class Level extends Scheduler {
 	}
 
 	async addShape(element: MissionElementStaticShape | MissionElementItem) {
-		let shape: Shape;
-
 		// Add the correct shape based on type
-		let dataBlockLowerCase = element.datablock?.toLowerCase();
-		if (!dataBlockLowerCase) { /* Make sure we don't do anything if there's no data block */ }
-		else if (dataBlockLowerCase === "startpad") shape = new StartPad();
-		else if (dataBlockLowerCase === "endpad") shape = new EndPad(element === this.endPadElement);
-		else if (dataBlockLowerCase === "signfinish") shape = new SignFinish();
-		else if (dataBlockLowerCase.startsWith("signplain")) shape = new SignPlain(element as MissionElementStaticShape);
-		else if (dataBlockLowerCase.startsWith("gemitem")) shape = new Gem(element as MissionElementItem), this.totalGems++;
-		else if (dataBlockLowerCase === "superjumpitem") shape = new SuperJump(element as MissionElementItem);
-		else if (dataBlockLowerCase.startsWith("signcaution")) shape = new SignCaution(element as MissionElementStaticShape);
-		else if (dataBlockLowerCase === "superbounceitem") shape = new SuperBounce(element as MissionElementItem);
-		else if (dataBlockLowerCase === "roundbumper") shape = new RoundBumper();
-		else if (dataBlockLowerCase === "trianglebumper") shape = new TriangleBumper();
-		else if (dataBlockLowerCase === "helicopteritem") shape = new Helicopter(element as MissionElementItem);
-		else if (dataBlockLowerCase === "ductfan") shape = new DuctFan();
-		else if (dataBlockLowerCase === "smallductfan") shape = new SmallDuctFan();
-		else if (dataBlockLowerCase === "antigravityitem") shape = new AntiGravity(element as MissionElementItem);
-		else if (dataBlockLowerCase === "norespawnantigravityitem") shape = new AntiGravity(element as MissionElementItem, true);
-		else if (dataBlockLowerCase === "landmine") shape = new LandMine();
-		else if (dataBlockLowerCase === "shockabsorberitem") shape = new ShockAbsorber(element as MissionElementItem);
-		else if (dataBlockLowerCase === "superspeeditem") shape = new SuperSpeed(element as MissionElementItem);
-		else if (["timetravelitem", "timepenaltyitem"].includes(dataBlockLowerCase)) shape = new TimeTravel(element as MissionElementItem);
-		else if (dataBlockLowerCase === "tornado") shape = new Tornado();
-		else if (dataBlockLowerCase === "trapdoor") shape = new TrapDoor(element as MissionElementStaticShape);
-		else if (dataBlockLowerCase === "oilslick") shape = new Oilslick();
-		else if (dataBlockLowerCase === "pushbutton") shape = new PushButton();
-		else if (dataBlockLowerCase.startsWith("sign") || dataBlockLowerCase === "arrow") shape = new Sign(element as MissionElementStaticShape);
-		else if (dataBlockLowerCase === "magnet") shape = new Magnet();
-		else if (dataBlockLowerCase === "nuke") shape = new Nuke();
-		else if (dataBlockLowerCase === "checkpoint") shape = new Checkpoint();
-		else if (dataBlockLowerCase === "easteregg") shape = new EasterEgg(element as MissionElementItem);
-		else if (dataBlockLowerCase === "randompowerupitem") shape = new RandomPowerUp(element as MissionElementItem);
-		else if (["clear", "cloudy", "dusk", "wintry"].includes(dataBlockLowerCase)) shape = new Sky(dataBlockLowerCase);
-		else if (/glass_\d+shape/.test(dataBlockLowerCase)) shape = new Glass(dataBlockLowerCase);
-		else if (dataBlockLowerCase === "blastitem") shape = new Blast(element as MissionElementItem);
-		else if (dataBlockLowerCase === "megamarbleitem") shape = new MegaMarble(element as MissionElementItem);
+		let shape = shapeRegistry.get(element.datablock)?.(element, this);
+		if (shape instanceof Gem) this.totalGems++;
 
 		if (!shape) return;
 
@@ -644,23 +712,8 @@ export class Level extends Scheduler {
 	}
 
 	async addTrigger(element: MissionElementTrigger) {
-		let trigger: Trigger;
-
 		// Create a trigger based on type
-		let dataBlockLowerCase = element.datablock?.toLowerCase();
-		if (dataBlockLowerCase === "outofboundstrigger") {
-			trigger = new OutOfBoundsTrigger(element, this);
-		} else if (dataBlockLowerCase === "inboundstrigger") {
-			trigger = new InBoundsTrigger(element, this);
-		} else if (dataBlockLowerCase === "helptrigger") {
-			trigger = new HelpTrigger(element, this);
-		} else if (dataBlockLowerCase === "teleporttrigger") {
-			trigger = new TeleportTrigger(element, this);
-		} else if (dataBlockLowerCase === "destinationtrigger") {
-			trigger = new DestinationTrigger(element, this);
-		} else if (dataBlockLowerCase === "checkpointtrigger") {
-			trigger = new CheckpointTrigger(element, this);
-		}
+		let trigger = triggerRegistry.get(element.datablock)?.(element, this);
 
 		if (!trigger) return;
 
@@ -709,14 +762,19 @@ export class Level extends Scheduler {
 
 	/** Restarts and resets the level. */
 	restart(forceHardRestart: boolean) {
-		if (!forceHardRestart && this.currentCheckpoint && this.replay.mode !== 'playback') {
+		if (!forceHardRestart && this.currentCheckpoint && !this.replay.isPlayingBackState) {
 			// There's a checkpoint, so load its state instead of restarting the whole level
 			this.loadCheckpointState();
 			return;
 		}
+		if (!forceHardRestart && this.mission.isHunt && this.outOfBounds) {
+			// Going out of bounds doesn't end the round
+			this.respawnAtStart();
+			return;
+		}
 
-		let hud = state.menu.hud;
-		hud.setPowerupButtonState(false, true);
+		let hud = this.hud;
+		hud?.setPowerupButtonState(false, true);
 
 		this.timeState.currentAttemptTime = 0;
 		this.timeState.gameplayClock = 0;
@@ -725,15 +783,19 @@ export class Level extends Scheduler {
 		this.lastPhysicsTick = null;
 		this.maxDisplayedTime = 0;
 		this.blastAmount = 0;
+		this.huntScore = 0;
 		
 		if (this.totalGems > 0) {
 			this.gemCount = 0;
-			hud.displayGemCount(this.gemCount, this.totalGems);
+			this.updateGemCountDisplay();
 		}
 
 		this.currentCheckpoint = null;
 		this.currentCheckpointTrigger = null;
 		this.checkpointCollectedGems.clear();
+		this.splits = [];
+		this.checkpointSplitCount = 0;
+		this.splitDeltaTimeState = null;
 		this.checkpointHeldPowerUp = null;
 		this.checkpointUp = null;
 		this.checkpointBlast = null;
@@ -754,11 +816,12 @@ export class Level extends Scheduler {
 		this.pitch = DEFAULT_PITCH;
 
 		let missionInfo = this.mission.missionInfo;
-		if (missionInfo.starthelptext) state.menu.hud.displayHelp(missionInfo.starthelptext); // Show the start help text
+		if (missionInfo.starthelptext) hud?.displayHelp(missionInfo.starthelptext); // Show the start help text
 
 		for (let shape of this.shapes) shape.reset();
 		for (let interior of this.interiors) interior.reset();
 		for (let trigger of this.triggers) trigger.reset();
+		for (let trigger of this.triggers) trigger.setExactShape(this.replay.hasExactTriggers); // Older replays need the triggers they were recorded with
 
 		// Reset the physics
 		this.currentUp = new OIMO.Vec3(0, 0, 1);
@@ -769,9 +832,13 @@ export class Level extends Scheduler {
 		this.physics.reset();
 		
 		this.deselectPowerUp();
-		hud.setCenterText('none');
-		maybeShowTouchControls();
-		setTouchControlMode((this.replay.mode === 'playback')? 'replay' : 'normal');
+		hud?.setCenterText('none');
+		if (!this.headless) {
+			maybeShowTouchControls();
+			setTouchControlMode((this.replay.mode === 'playback')? 'replay' : 'normal');
+			state.menu.replayControls.setVisible(this.replay.mode === 'playback');
+		}
+		this.playbackPaused = false;
 
 		this.timeTravelSound?.stop();
 		this.timeTravelSound = null;
@@ -780,25 +847,37 @@ export class Level extends Scheduler {
 
 		this.replay.init();
 
+		if (this.mission.isHunt) {
+			// Gems only show up one group at a time
+			this.huntSpawnCenter = null;
+			this.huntSpawnCount = 0;
+			for (let shape of this.shapes) {
+				if (!(shape instanceof Gem)) continue;
+				shape.pickedUp = true;
+				shape.setOpacity(0);
+			}
+			this.spawnGemGroup();
+		}
+
 		// Queue the ready-set-go events
 
 		AudioManager.play('spawn.wav');
 
 		this.clearSchedule();
 		this.schedule(500, () => {
-			hud.setCenterText('ready');
+			hud?.setCenterText('ready');
 			AudioManager.play('ready.wav');
 		});
 		this.schedule(2000, () => {
-			hud.setCenterText('set');
+			hud?.setCenterText('set');
 			AudioManager.play('set.wav');
 		});
 		this.schedule(GO_TIME, () => {
-			hud.setCenterText('go');
+			hud?.setCenterText('go');
 			AudioManager.play('go.wav');
 		});
 		this.schedule(5500, () => {
-			if (!this.outOfBounds) hud.setCenterText('none');
+			if (!this.outOfBounds) hud?.setCenterText('none');
 		});
 	}
 
@@ -822,8 +901,8 @@ export class Level extends Scheduler {
 
 		if (this.stopped) return; // Check it again here 'cuz the tick might've changed it
 
-		let physicsTickLength = 1000 / PHYSICS_TICK_RATE / PLAYBACK_SPEED;
-		let completion = Util.clamp((time - this.lastPhysicsTick) / physicsTickLength, 0, 1);
+		let physicsTickLength = 1000 / PHYSICS_TICK_RATE;
+		let completion = Util.clamp((time - this.lastPhysicsTick) / (physicsTickLength / this.simulationSpeed), 0, 1);
 		// Set up an intermediate time state for smoother rendering
 		let tempTimeState: TimeState = {
 			timeSinceLoad: this.timeState.timeSinceLoad + completion * physicsTickLength,
@@ -833,9 +912,11 @@ export class Level extends Scheduler {
 		};
 
 		this.marble.render(tempTimeState);
+		this.ghost?.render(tempTimeState);
 		for (let interior of this.interiors) interior.render(tempTimeState);
 		for (let shape of this.shapes) if (!shape.isTSStatic) shape.render(tempTimeState);
 		this.particles.render(tempTimeState.timeSinceLoad);
+		if (this.replay.mode === 'playback') state.menu.replayControls.update(this);
 
 		this.updateCamera(tempTimeState);
 
@@ -877,9 +958,10 @@ export class Level extends Scheduler {
 		if (this.currentTimeTravelBonus === 0 && !this.finishTime) timeToDisplay = this.maxDisplayedTime;
 
 		timeToDisplay = Math.min(timeToDisplay, MAX_TIME);
+		let shownTime = this.mission.isHunt? Math.max(this.mission.qualifyTime - timeToDisplay, 0) : timeToDisplay; // Hunt rounds count down
 
 		let hud = state.menu.hud;
-		hud.displayTime(timeToDisplay / 1000, this.determineClockColor(timeToDisplay));
+		hud.displayTime(shownTime / 1000, this.determineClockColor(timeToDisplay));
 		hud.displayBlastMeterFullness(this.blastAmount);
 		hud.displayFps();
 
@@ -893,6 +975,10 @@ export class Level extends Scheduler {
 		hud.helpElement.style.filter = `brightness(${Util.lerp(1, 0.25, helpTextCompletion)})`;
 		hud.alertElement.style.opacity = (1 - alertTextCompletion).toString();
 		hud.alertElement.style.filter = `brightness(${Util.lerp(1, 0.25, alertTextCompletion)})`;
+
+		let splitDeltaTime = this.splitDeltaTimeState?.timeSinceLoad ?? -Infinity;
+		let splitDeltaCompletion = Util.clamp((this.timeState.timeSinceLoad - splitDeltaTime - 3000) / 1000, 0, 1) ** 2;
+		hud.splitDeltaElement.style.opacity = (1 - splitDeltaCompletion).toString();
 	}
 
 	determineClockColor(timeToDisplay: number) {
@@ -915,6 +1001,8 @@ export class Level extends Scheduler {
 
 	/** Updates the position of the camera based on marble position and orientation. */
 	updateCamera(timeState: TimeState) {
+		if (this.headless) return; // Headless levels aren't rendered, and the camera belongs to the level that is
+
 		let marblePosition = Util.vecThreeToOimo(this.marble.group.position);
 		let orientationQuat = this.getOrientationQuat(timeState);
 		let up = new THREE.Vector3(0, 0, 1).applyQuaternion(orientationQuat);
@@ -924,7 +1012,7 @@ export class Level extends Scheduler {
 
 		if (this.replay.mode === 'playback') {
 			let indexLow = Math.max(0, this.replay.currentTickIndex - 1);
-			let indexHigh = this.replay.currentTickIndex;
+			let indexHigh = Math.min(this.replay.currentTickIndex, this.replay.cameraOrientations.length - 1);
 
 			// Smoothly interpolate pitch and yaw between the last two keyframes
 			this.pitch = Util.lerp(this.replay.cameraOrientations[indexLow].pitch, this.replay.cameraOrientations[indexHigh].pitch, timeState.physicsTickCompletion);
@@ -1024,23 +1112,6 @@ export class Level extends Scheduler {
 		if (this.paused) return;
 		if (this.stopped) return;
 		if (time === undefined) time = performance.now();
-		let playReplay = this.replay.mode === 'playback';
-
-		if (!playReplay && !state.menu.finishScreen.showing && (isPressed('use') || this.useQueued) && getPressedFlag('use')) {
-			if (this.outOfBounds && !this.finishTime) {
-				// Skip the out of bounds "animation" and restart immediately
-				this.restart(false);
-				return;
-			} else if (this.heldPowerUp) {
-				this.replay.recordUsePowerUp(this.heldPowerUp);
-				this.heldPowerUp.use(this.timeState);
-			}
-		}
-		if (!playReplay && !state.menu.finishScreen.showing && (isPressed('blast') || this.blastQueued) && getPressedFlag('blast')) {
-			this.marble.useBlast();
-		}
-		this.useQueued = false;
-		this.blastQueued = false;
 
 		state.menu.finishScreen.handleGamepadInput();
 
@@ -1053,14 +1124,18 @@ export class Level extends Scheduler {
 			this.pause();
 		}
 
-		if (this.lastPhysicsTick === null) {
+		let speed = this.simulationSpeed;
+		if (this.replay.mode === 'playback' && (this.playbackPaused || this.seekTarget !== null)) {
+			// Hold the simulation right where it is
+			this.lastPhysicsTick = time;
+		} else if (this.lastPhysicsTick === null) {
 			// If there hasn't been a physics tick yet, ensure there is one now
-			this.lastPhysicsTick = time - 1000 / PHYSICS_TICK_RATE * 1.1 / PLAYBACK_SPEED;
+			this.lastPhysicsTick = time - 1000 / PHYSICS_TICK_RATE * 1.1 / speed;
 		}
 
 		/** Time since the last physics tick */
 		let elapsed = time - this.lastPhysicsTick;
-		elapsed *= PLAYBACK_SPEED;
+		elapsed *= speed;
 		if (elapsed >= 1000) {
 			elapsed = 1000;
 			this.lastPhysicsTick = time - 1000;
@@ -1069,61 +1144,178 @@ export class Level extends Scheduler {
 		let tickDone = false;
 		// Make sure to execute the correct amount of ticks
 		while (elapsed >= 1000 / PHYSICS_TICK_RATE) {
-			// By ticking we advance time, so advance time.
-			this.timeState.timeSinceLoad += 1000 / PHYSICS_TICK_RATE;
-			this.timeState.currentAttemptTime += 1000 / PHYSICS_TICK_RATE;
-			this.lastPhysicsTick += 1000 / PHYSICS_TICK_RATE / PLAYBACK_SPEED;
+			this.lastPhysicsTick += 1000 / PHYSICS_TICK_RATE / speed;
 			elapsed -= 1000 / PHYSICS_TICK_RATE;
 
-			this.tickSchedule(this.timeState.currentAttemptTime);
-
-			if (this.mission.hasBlast && this.blastAmount < 1) this.blastAmount = Util.clamp(this.blastAmount + 1000 / BLAST_CHARGE_TIME / PHYSICS_TICK_RATE, 0, 1);
+			this.input = this.readLiveInput();
+			if (!this.advanceTick()) return;
+			tickDone = true;
+		}
 
-			// Update pathed interior velocities before running the simulation step
-			// Note: We do this even in replay playback mode, because pathed interior body position is relevant for the camera code.
-			for (let interior of this.interiors) interior.tick(this.timeState);
-			for (let trigger of this.triggers) trigger.tick(this.timeState);
+		AudioManager.updatePositionalAudio(this.timeState, camera.position, this.yaw);
+		this.pitch = Math.max(-Math.PI/2 + Math.PI/4, Math.min(Math.PI/2 - 0.0001, this.pitch)); // The player can't look straight up
+		if (tickDone) this.marble.calculatePredictiveTransforms();
 
-			// Step the physics
-			for (let interior of this.interiors) interior.buildCollisionGeometry(); // Update collision geometry for interiors
-			if (!playReplay) this.physics.step();
+		// Handle pressing of the restart button
+		if (!this.finishTime && isPressed('restart') && !this.pressingRestart) {
+			let hardRestart = this.replay.mode === 'playback' || this.mission.isHunt; // Replays and hunt rounds always start over
+			if (this.currentCheckpoint && !hardRestart) this.replay.recordManualRespawn();
+			this.restart(hardRestart);
+			if (this.currentCheckpoint && !hardRestart) this.restartPressTime = performance.now();
+			this.pressingRestart = true;
+		} else if (!isPressed('restart')) {
+			this.pressingRestart = false;
+		}
 
-			for (let shape of this.shapes) if (!shape.isTSStatic) shape.tick(this.timeState);
+		// Holding down the restart button for 1 second will force a hard restart
+		if (!this.finishTime && isPressed('restart') && this.restartPressTime !== null) {
+			if (this.restartPressTime !== null && performance.now() - this.restartPressTime >= 1000)
+				this.restart(true);
+		}
 
-			// Update pathed interior positions after the physics tick because they will have changed position only after the physics tick was calculated, not during.
-			for (let interior of this.interiors) if (interior instanceof PathedInterior) interior.updatePosition();
+		// Handle saving and loading of practice states
+		if (this.practice && this.replay.mode === 'record' && !this.finishTime) {
+			if (isPressed('saveState') && getPressedFlag('saveState')) {
+				resetPressedFlag('saveState');
+				this.savePracticeState();
+			}
+			if (isPressed('loadState') && getPressedFlag('loadState')) {
+				resetPressedFlag('loadState');
+				this.loadPracticeState();
+			}
+		}
+	}
 
-			// Major bruh energy here: Simply updating the interior positions isn't enough, OIMO needs to do some extra broadphase stuff or something. That's why we do this call here.
-			if (playReplay) (this.physics.world as any)._updateContacts();
+	/** Advances a headless level by exactly one physics tick using the given input. */
+	stepHeadless(input: TickInput) {
+		if (!this.headless || this.paused || this.stopped) return;
 
-			if (!playReplay) this.marble.tick(this.timeState);
-			this.marble.updatePowerUpStates(this.timeState);
+		this.input = input;
+		this.advanceTick();
 
-			this.jumpQueued = false;
+		this.pitch = Math.max(-Math.PI/2 + Math.PI/4, Math.min(Math.PI/2 - 0.0001, this.pitch));
+	}
 
-			if (this.timeState.currentAttemptTime < GO_TIME && !playReplay) {
-				// Lock the marble to the space above the start pad
+	/** Collects the input for the next physics tick from keyboard, gamepad and touch controls. */
+	readLiveInput(): TickInput {
+		let canAct = this.replay.mode !== 'playback' && !state.menu.finishScreen.showing;
+
+		let movement = { x: 0, y: 0 };
+		if (isPressed('up')) movement.x += 1;
+		if (isPressed('down')) movement.x -= 1;
+		if (isPressed('left')) movement.y += 1;
+		if (isPressed('right')) movement.y -= 1;
+
+		// Add gamepad and joystick input and restrict if necessary
+		movement.x -= gamepadAxes.marbleY;
+		movement.y -= gamepadAxes.marbleX;
+		if (normalizedJoystickHandlePosition) {
+			movement.x -= Util.signedSquare(normalizedJoystickHandlePosition.y);
+			movement.y -= Util.signedSquare(normalizedJoystickHandlePosition.x);
+		}
+		movement.x = Util.clamp(movement.x, -1, 1);
+		movement.y = Util.clamp(movement.y, -1, 1);
+
+		if (state.menu.finishScreen.showing) movement.x = movement.y = 0;
+
+		let input: TickInput = {
+			movement,
+			jump: !state.menu.finishScreen.showing && (isPressed('jump') || this.jumpQueued),
+			use: canAct && (isPressed('use') || this.useQueued) && getPressedFlag('use'),
+			blast: canAct && (isPressed('blast') || this.blastQueued) && getPressedFlag('blast'),
+			yaw: this.yaw,
+			pitch: this.pitch
+		};
+		this.useQueued = false;
+		this.blastQueued = false;
 
-				let { position: startPosition } = this.getStartPositionAndOrientation();
-				let position = this.marble.body.getPosition().clone();
-				position.x = startPosition.x;
-				position.y = startPosition.y;
-				this.marble.body.setPosition(position);
+		return input;
+	}
 
-				let vel = this.marble.body.getLinearVelocity();
-				vel.x = vel.y = 0;
-				this.marble.body.setLinearVelocity(vel);
+	/** Simulates a single physics tick using the current input. Returns false if the tick was cut short because the level restarted or stopped. */
+	advanceTick() {
+		let playReplay = this.replay.isPlayingBackState;
+		if (this.replay.mode === 'playback' && this.replay.isInputBased) this.replay.playBackInput();
+		let input = this.input;
 
-				let angVel = this.marble.body.getAngularVelocity();
-				// Cap the angular velocity so it doesn't go haywire
-				if (angVel.length() > 60) angVel.normalize().scaleEq(60);
-				this.marble.body.setAngularVelocity(angVel);
+		this.yaw = input.yaw;
+		this.pitch = input.pitch;
 
-				this.marble.shape.setFriction(0);
-			} else {
-				this.marble.shape.setFriction(1);
+		if (input.use) {
+			if (this.outOfBounds && !this.finishTime) {
+				// Skip the out of bounds "animation" and restart immediately
+				if (this.currentCheckpoint) this.replay.recordManualRespawn();
+				else if (this.mission.isHunt) this.replay.recordStartRespawn();
+				this.restart(false);
+				return false;
+			} else if (this.heldPowerUp) {
+				this.replay.recordUsePowerUp(this.heldPowerUp);
+				this.heldPowerUp.use(this.timeState);
 			}
+		}
+		if (input.blast) {
+			this.marble.useBlast();
+		}
+
+		// By ticking we advance time, so advance time.
+		this.timeState.timeSinceLoad += 1000 / PHYSICS_TICK_RATE;
+		this.timeState.currentAttemptTime += 1000 / PHYSICS_TICK_RATE;
+
+		this.tickSchedule(this.timeState.currentAttemptTime);
+		if (this.timeState.currentAttemptTime === 0) return false; // A scheduled restart just happened. Begin the new attempt with a fresh tick, just like the replay will.
+
+		// Hunt rounds end once the time is up
+		if (this.mission.isHunt && !this.finishTime && this.timeState.gameplayClock >= this.mission.qualifyTime) this.touchFinish(1);
+
+		if (this.mission.hasBlast && this.blastAmount < 1) this.blastAmount = Util.clamp(this.blastAmount + 1000 / BLAST_CHARGE_TIME / PHYSICS_TICK_RATE, 0, 1);
+
+		// Update pathed interior velocities before running the simulation step
+		// Note: We do this even in replay playback mode, because pathed interior body position is relevant for the camera code.
+		for (let interior of this.interiors) interior.tick(this.timeState);
+		for (let trigger of this.triggers) trigger.tick(this.timeState);
+
+		// Step the physics
+		for (let interior of this.interiors) interior.buildCollisionGeometry(); // Update collision geometry for interiors
+		if (!playReplay) this.physics.step();
+
+		for (let shape of this.shapes) if (!shape.isTSStatic) shape.tick(this.timeState);
+
+		// Update pathed interior positions after the physics tick because they will have changed position only after the physics tick was calculated, not during.
+		for (let interior of this.interiors) if (interior instanceof PathedInterior) interior.updatePosition();
+
+		// Major bruh energy here: Simply updating the interior positions isn't enough, OIMO needs to do some extra broadphase stuff or something. That's why we do this call here.
+		if (playReplay) (this.physics.world as any)._updateContacts();
+
+		if (!playReplay) this.marble.tick(this.timeState);
+		if (!playReplay) this.checkMissionArea();
+		this.marble.updatePowerUpStates(this.timeState);
+
+		this.jumpQueued = false;
+
+		if (this.timeState.currentAttemptTime < GO_TIME && !playReplay) {
+			// Lock the marble to the space above the start pad
+
+			let { position: startPosition } = this.getStartPositionAndOrientation();
+			let position = this.marble.body.getPosition().clone();
+			position.x = startPosition.x;
+			position.y = startPosition.y;
+			this.marble.body.setPosition(position);
+
+			let vel = this.marble.body.getLinearVelocity();
+			vel.x = vel.y = 0;
+			this.marble.body.setLinearVelocity(vel);
+
+			let angVel = this.marble.body.getAngularVelocity();
+			// Cap the angular velocity so it doesn't go haywire
+			if (angVel.length() > 60) angVel.normalize().scaleEq(60);
+			this.marble.body.setAngularVelocity(angVel);
 
+			this.marble.shape.setFriction(0);
+		} else {
+			this.marble.shape.setFriction(1);
+		}
+
+		if (!this.headless) {
 			let yawChange = 0.0;
 			let pitchChange = 0.0;
 			let freeLook = StorageManager.data.settings.alwaysFreeLook || isPressed('freeLook');
@@ -1140,85 +1332,69 @@ export class Level extends Scheduler {
 			this.pitch += pitchChange / PHYSICS_TICK_RATE;
 
 			this.particles.tick();
-			tickDone = true;
+		}
 
-			// Record or playback the replay
-			if (!playReplay) this.replay.record();
-			else {
-				this.replay.playBack();
-				if (this.replay.isPlaybackComplete()) {
-					this.stopAndExit();
-					return;
-				}
+		// Record or playback the replay
+		if (this.replay.mode === 'record') this.replay.record();
+		else {
+			this.replay.playBack();
+			if (this.replay.isPlaybackComplete()) {
+				// When seeking to the end, stay on the last frame so that the replay can still be rewound
+				if (this.seekTarget !== null) this.playbackPaused = true;
+				else this.stopAndExit();
+				return false;
 			}
+		}
 
-			let prevGameplayClock = this.timeState.gameplayClock;
+		let prevGameplayClock = this.timeState.gameplayClock;
 
-			// Note: It is incorrect that this TT code here runs after physics and shape updating, it should run at the top of this loop's body. However, changing this code's position now would make all TT catches about ~8 milliseconds later, giving an unfair advantage to those who have already set leaderboard scores using the previous calculation. So, for the sake of score integrity, we're keeping it this way.
-			if (this.timeState.currentAttemptTime >= GO_TIME) {
-				if (this.currentTimeTravelBonus > 0) {
-					// Subtract remaining time travel time
-					this.currentTimeTravelBonus -= 1000 / PHYSICS_TICK_RATE;
-	
-					if (!this.timeTravelSound) {
-						this.timeTravelSound = AudioManager.createAudioSource('timetravelactive.wav');
-						this.timeTravelSound.setLoop(true);
-						this.timeTravelSound.play();
-					}
-				} else {
-					// Increase the gameplay time
-					this.timeState.gameplayClock += 1000 / PHYSICS_TICK_RATE;
-	
-					this.timeTravelSound?.stop();
-					this.timeTravelSound = null;
-				}
-	
-				if (this.currentTimeTravelBonus < 0) {
-					// If we slightly undershot the zero mark of the remaining time travel bonus, add the "lost time" back onto the gameplay clock:
-					this.timeState.gameplayClock += -this.currentTimeTravelBonus;
-					this.currentTimeTravelBonus = 0;
+		// Note: It is incorrect that this TT code here runs after physics and shape updating, it should run at the top of this loop's body. However, changing this code's position now would make all TT catches about ~8 milliseconds later, giving an unfair advantage to those who have already set leaderboard scores using the previous calculation. So, for the sake of score integrity, we're keeping it this way.
+		if (this.timeState.currentAttemptTime >= GO_TIME) {
+			if (this.currentTimeTravelBonus > 0) {
+				// Subtract remaining time travel time
+				this.currentTimeTravelBonus -= 1000 / PHYSICS_TICK_RATE;
+
+				if (!this.timeTravelSound && !this.headless) {
+					this.timeTravelSound = AudioManager.createAudioSource('timetravelactive.wav');
+					this.timeTravelSound.setLoop(true);
+					this.timeTravelSound.play();
 				}
-			}
+			} else {
+				// Increase the gameplay time
+				this.timeState.gameplayClock += 1000 / PHYSICS_TICK_RATE;
 
-			// Handle alarm warnings (that the user is about to exceed the par time)
-			if (this.timeState.currentAttemptTime >= GO_TIME && isFinite(this.mission.qualifyTime) && state.modification === 'platinum' && !this.finishTime) {
-				let alarmStart = this.mission.computeAlarmStartTime();
+				this.timeTravelSound?.stop();
+				this.timeTravelSound = null;
+			}
 
-				if (prevGameplayClock <= alarmStart && this.timeState.gameplayClock >= alarmStart) {
-					// Start the alarm
-					this.alarmSound = AudioManager.createAudioSource('alarm.wav');
-					this.alarmSound.setLoop(true);
-					this.alarmSound.play();
-					state.menu.hud.displayHelp(`You have ${(this.mission.qualifyTime - alarmStart) / 1000} seconds remaining.`, true);
-				}
-				if (prevGameplayClock < this.mission.qualifyTime && this.timeState.gameplayClock >= this.mission.qualifyTime) {
-					// Stop the alarm
-					this.alarmSound?.stop();
-					this.alarmSound = null;
-					state.menu.hud.displayHelp("The clock has passed the Par Time.", true);
-					AudioManager.play('alarm_timeout.wav');
-				}
+			if (this.currentTimeTravelBonus < 0) {
+				// If we slightly undershot the zero mark of the remaining time travel bonus, add the "lost time" back onto the gameplay clock:
+				this.timeState.gameplayClock += -this.currentTimeTravelBonus;
+				this.currentTimeTravelBonus = 0;
 			}
 		}
 
-		AudioManager.updatePositionalAudio(this.timeState, camera.position, this.yaw);
-		this.pitch = Math.max(-Math.PI/2 + Math.PI/4, Math.min(Math.PI/2 - 0.0001, this.pitch)); // The player can't look straight up
-		if (tickDone) this.marble.calculatePredictiveTransforms();
+		// Handle alarm warnings (that the user is about to exceed the par time)
+		if (this.timeState.currentAttemptTime >= GO_TIME && isFinite(this.mission.qualifyTime) && state.modification === 'platinum' && !this.finishTime && !this.headless) {
+			let alarmStart = this.mission.computeAlarmStartTime();
 
-		// Handle pressing of the restart button
-		if (!this.finishTime && isPressed('restart') && !this.pressingRestart) {
-			this.restart(false);
-			if (this.currentCheckpoint) this.restartPressTime = performance.now();
-			this.pressingRestart = true;
-		} else if (!isPressed('restart')) {
-			this.pressingRestart = false;
+			if (prevGameplayClock <= alarmStart && this.timeState.gameplayClock >= alarmStart) {
+				// Start the alarm
+				this.alarmSound = AudioManager.createAudioSource('alarm.wav');
+				this.alarmSound.setLoop(true);
+				this.alarmSound.play();
+				this.hud.displayHelp(`You have ${(this.mission.qualifyTime - alarmStart) / 1000} seconds remaining.`, true);
+			}
+			if (prevGameplayClock < this.mission.qualifyTime && this.timeState.gameplayClock >= this.mission.qualifyTime) {
+				// Stop the alarm
+				this.alarmSound?.stop();
+				this.alarmSound = null;
+				this.hud.displayHelp("The clock has passed the Par Time.", true);
+				AudioManager.play('alarm_timeout.wav');
+			}
 		}
 
-		// Holding down the restart button for 1 second will force a hard restart
-		if (!this.finishTime && isPressed('restart') && this.restartPressTime !== null) {
-			if (this.restartPressTime !== null && performance.now() - this.restartPressTime >= 1000)
-				this.restart(true);
-		}
+		return true;
 	}
 
 	/** Get the current interpolated orientation quaternion. */
@@ -1240,7 +1416,13 @@ export class Level extends Scheduler {
 		let quatChange = new THREE.Quaternion();
 		let dot = Util.vecOimoToThree(newUp).dot(oldUp);
 		if (dot <= -(1 - 1e-15) && !(this.replay.version < 3)) { // If the old and new up are exact opposites, there are infinitely many possible rotations we could do. So choose the one that maintains the current look vector the best. Replay check so we don't break old stuff.
-			let lookVector = new THREE.Vector3(0, 0, 1).applyQuaternion(camera.quaternion);
+			let lookVector: THREE.Vector3;
+			if (this.replay.isInputBased) {
+				// The rendered camera depends on frame timing, so use the camera orientation of the tick instead to keep this reproducible
+				lookVector = new THREE.Vector3(-1, 0, 0).applyAxisAngle(new THREE.Vector3(0, 1, 0), this.pitch).applyAxisAngle(new THREE.Vector3(0, 0, 1), this.yaw).applyQuaternion(currentQuat);
+			} else {
+				lookVector = new THREE.Vector3(0, 0, 1).applyQuaternion(camera.quaternion);
+			}
 			let intermediateVector = oldUp.clone().cross(lookVector).normalize();
 
 			// First rotation to the intermediate vector, then rotate from there to the new up
@@ -1312,7 +1494,7 @@ export class Level extends Scheduler {
 		if (!powerUp) return false;
 		if (this.heldPowerUp && powerUp.constructor === this.heldPowerUp.constructor) return false;
 		this.heldPowerUp = powerUp;
-		state.menu.hud.setPowerupButtonState(true);
+		this.hud?.setPowerupButtonState(true);
 
 		for (let overlayShape of this.overlayShapes) {
 			if (overlayShape.dtsPath.includes("gem")) continue;
@@ -1329,11 +1511,11 @@ export class Level extends Scheduler {
 
 	deselectPowerUp() {
 		if (!this.heldPowerUp) {
-			state.menu.hud.setPowerupButtonState(false);
+			this.hud?.setPowerupButtonState(false);
 			return;
 		}
 		this.heldPowerUp = null;
-		state.menu.hud.setPowerupButtonState(false);
+		this.hud?.setPowerupButtonState(false);
 
 		for (let overlayShape of this.overlayShapes) {
 			if (overlayShape.dtsPath.includes("gem")) continue;
@@ -1342,7 +1524,13 @@ export class Level extends Scheduler {
 	}
 
 	pickUpGem(gem: Gem) {
+		if (this.mission.isHunt) {
+			this.pickUpHuntGem(gem);
+			return;
+		}
+
 		this.gemCount++;
+		this.recordSplit('gem');
 		let string: string;
 		let gemWord = (state.modification === 'gold')? 'gem' : 'diamond';
 
@@ -1369,8 +1557,57 @@ export class Level extends Scheduler {
 			AudioManager.play('gotgem.wav');
 		}
 
-		state.menu.hud.displayAlert(string);
-		state.menu.hud.displayGemCount(this.gemCount, this.totalGems);
+		this.hud?.displayAlert(string);
+		this.updateGemCountDisplay();
+	}
+
+	pickUpHuntGem(gem: Gem) {
+		this.huntScore += gem.points;
+		this.hud?.displayAlert(`You picked up ${gem.points} ${(gem.points === 1)? 'point' : 'points'}!`);
+		this.updateGemCountDisplay();
+		AudioManager.play('gotgem.wav');
+
+		// Once the whole group has been collected, the next one shows up
+		if (this.shapes.every(shape => !(shape instanceof Gem) || shape.pickedUp)) this.spawnGemGroup();
+	}
+
+	/** Spawns the next group of gems in hunt mode. A group consists of a randomly chosen gem and the ones closest to it. */
+	spawnGemGroup() {
+		let gems = this.shapes.filter(shape => shape instanceof Gem) as Gem[];
+		if (gems.length === 0) return;
+
+		let missionInfo = this.mission.missionInfo;
+		let radius = MisParser.parseNumber(missionInfo.radiusfromgem) || HUNT_SPAWN_RADIUS;
+		let maxGems = MisParser.parseNumber(missionInfo.maxgemsperspawn) || HUNT_MAX_GEMS_PER_SPAWN;
+		let spawnBlock = MisParser.parseNumber(missionInfo.spawnblock) || 2 * radius;
+
+		let center: Gem;
+		if (this.replay.mode === 'record') {
+			// Spawn somewhere away from the last group so the player has to move
+			let candidates = gems.filter(gem => !this.huntSpawnCenter || gem.worldPosition.distanceTo(this.huntSpawnCenter.worldPosition) > spawnBlock);
+			if (candidates.length === 0) candidates = gems;
+			center = Util.randomFromArray(candidates);
+			this.replay.gemSpawnChoices.push(center.id); // Save the random choice to the replay
+		} else {
+			// Select the one stored in the replay
+			let id = this.replay.gemSpawnChoices[this.huntSpawnCount];
+			center = gems.find(gem => gem.id === id) ?? gems[0];
+		}
+		this.huntSpawnCenter = center;
+		this.huntSpawnCount++;
+
+		let group = gems
+			.map(gem => ({ gem, distance: gem.worldPosition.distanceTo(center.worldPosition) }))
+			.filter(x => x.distance <= radius)
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, maxGems);
+		for (let { gem } of group) gem.reset();
+	}
+
+	/** Shows the amount of collected gems on the HUD, or the score in hunt mode. */
+	updateGemCountDisplay() {
+		if (this.mission.isHunt) this.hud?.displayScore(this.huntScore);
+		else this.hud?.displayGemCount(this.gemCount, this.totalGems);
 	}
 
 	addTimeTravelBonus(bonus: number, timeToRevert: number) {
@@ -1387,15 +1624,27 @@ export class Level extends Scheduler {
 	goOutOfBounds() {
 		if (this.outOfBounds || this.finishTime) return;
 
-		state.menu.hud.setPowerupButtonState(true);
+		this.hud?.setPowerupButtonState(true);
+		let { yaw, pitch } = this;
 		this.updateCamera(this.timeState); // Update the camera at the point of OOB-ing
+		this.yaw = yaw; // Replay playback interpolates these for the camera, but the rest of this tick still needs the ones it was simulated with
+		this.pitch = pitch;
 		this.outOfBounds = true;
 		this.outOfBoundsTime = Util.jsonClone(this.timeState);
 		this.oobCameraPosition = camera.position.clone();
-		state.menu.hud.setCenterText('outofbounds');
+		this.hud?.setCenterText('outofbounds');
 		AudioManager.play('whoosh.wav');
 
-		if (this.replay.mode !== 'playback') this.schedule(this.timeState.currentAttemptTime + 2000, () => this.restart(false), 'oobRestart');
+		if (!this.replay.isPlayingBackState) this.schedule(this.timeState.currentAttemptTime + 2000, () => this.restart(false), 'oobRestart');
+	}
+
+	/** Sends the marble out of bounds if it has left the mission area. */
+	checkMissionArea() {
+		if (!this.missionArea || !this.replay.enforcesMissionArea) return; // Older replays were recorded without this
+
+		let position = this.marble.body.getPosition();
+		let { min, max } = this.missionArea;
+		if (position.x < min.x || position.x > max.x || position.y < min.y || position.y > max.y || position.z < min.z) this.goOutOfBounds();
 	}
 
 	/** Sets a new active checkpoint. */
@@ -1419,7 +1668,10 @@ export class Level extends Scheduler {
 
 		this.checkpointHeldPowerUp = this.heldPowerUp;
 
-		state.menu.hud.displayAlert("Checkpoint reached!");
+		this.recordSplit('checkpoint');
+		this.checkpointSplitCount = this.splits.length;
+
+		this.hud?.displayAlert("Checkpoint reached!");
 		AudioManager.play('checkpoint.wav');
 	}
 
@@ -1468,14 +1720,14 @@ export class Level extends Scheduler {
 
 		// Restore gem states
 		for (let shape of this.shapes) {
-			if (!(shape instanceof Gem)) continue;
+			if (!(shape instanceof Gem) || this.mission.isHunt) continue; // Hunt gems stay as they are
 			if (shape.pickedUp && !this.checkpointCollectedGems.has(shape)) {
 				shape.reset();
 				this.gemCount--;
 			}
 		}
-		state.menu.hud.displayGemCount(this.gemCount, this.totalGems);
-		state.menu.hud.setCenterText('none');
+		this.updateGemCountDisplay();
+		this.hud?.setCenterText('none');
 
 		// Turn all of these off
 		marble.superBounceEnableTime = -Infinity;
@@ -1486,6 +1738,7 @@ export class Level extends Scheduler {
 		this.clearSchedule();
 		this.outOfBounds = false;
 		this.blastAmount = this.checkpointBlast;
+		this.splits.length = this.checkpointSplitCount; // The splits after the checkpoint will be taken again
 		this.finishTime = null; // For those very, very rare cases where the player touched the finish while OOB, but not fast enough, so they get respawned at the checkpoint and we need to remove the "finish lock".
 
 		this.deselectPowerUp(); // Always deselect first
@@ -1496,14 +1749,69 @@ export class Level extends Scheduler {
 		this.replay.recordCheckpointRespawn();
 	}
 
+	/** Puts the marble back onto the start pad without resetting the rest of the level. Used when going out of bounds in hunt mode. */
+	respawnAtStart() {
+		let { position: startPosition, euler } = this.getStartPositionAndOrientation();
+
+		this.setUp(new OIMO.Vec3(0, 0, 1), this.timeState, true);
+		this.marble.body.setPosition(new OIMO.Vec3(startPosition.x, startPosition.y, startPosition.z + 3));
+		this.marble.reset();
+		this.marble.calculatePredictiveTransforms();
+
+		this.yaw = euler.z + Math.PI/2;
+		this.pitch = DEFAULT_PITCH;
+
+		this.clearSchedule();
+		this.outOfBounds = false;
+		this.hud?.setCenterText('none');
+
+		AudioManager.play('spawn.wav');
+	}
+
+	/** Remembers the current state of the level so that it can be returned to later. */
+	savePracticeState() {
+		if (this.outOfBounds) return; // Nothing good can come from returning to this
+
+		this.practiceState = PracticeState.save(this);
+		this.hud?.displayAlert("Practice state saved.");
+	}
+
+	/** Returns to the last saved practice state. */
+	loadPracticeState() {
+		if (!this.practiceState) {
+			this.hud?.displayAlert("No practice state saved yet.");
+			return;
+		}
+
+		this.clearSchedule();
+		this.outOfBounds = false;
+		this.practiceState.load(this);
+
+		this.updateGemCountDisplay();
+		this.hud?.setCenterText('none');
+		this.hud?.displayAlert("Practice state loaded.");
+		AudioManager.play('spawn.wav');
+	}
+
+	/** Takes a split and shows how it compares to the same split of the personal best. */
+	recordSplit(type: Split['type'], time = this.timeState.gameplayClock) {
+		if (this.mission.isHunt) return; // Every hunt round takes equally long, so there's nothing to compare
+
+		let bestSplit = this.bestSplits?.[this.splits.length];
+		this.splits.push({ type, time });
+
+		if (bestSplit?.type === type) this.hud?.displaySplitDelta(time - bestSplit.time);
+	}
+
 	touchFinish(completionOfImpactOverride?: number) {
 		if (this.finishTime !== null) return;
+		if (this.mission.isHunt && completionOfImpactOverride === undefined) return; // Hunt rounds only end once the time is up
 
 		this.replay.recordTouchFinish();
 
 		if (completionOfImpactOverride === undefined && this.gemCount < this.totalGems) {
 			AudioManager.play('missinggems.wav');
-			state.menu.hud.displayAlert((state.modification === 'gold')? "You can't finish without all the gems!!" : "You may not finish without all the diamonds!");
+			this.hud?.displayAlert((state.modification === 'gold')? "You can't finish without all the gems!!" : "You may not finish without all the diamonds!");
 		} else {
 			let completionOfImpact: number;
 			if (completionOfImpactOverride === undefined) {
@@ -1521,11 +1829,12 @@ export class Level extends Scheduler {
 			this.finishTime.currentAttemptTime -= toSubtract;
 			if (this.currentTimeTravelBonus === 0) this.finishTime.gameplayClock -= toSubtract;
 			this.finishTime.gameplayClock = Math.min(this.finishTime.gameplayClock, MAX_TIME); // Apply the time cap
+			if (this.mission.isHunt) this.finishTime.gameplayClock = Math.min(this.finishTime.gameplayClock, this.mission.qualifyTime);
 			this.finishTime.physicsTickCompletion = completionOfImpact;
 			this.currentTimeTravelBonus = 0;
 			this.alarmSound?.stop();
 
-			if (this.replay.mode === 'playback') this.finishTime = this.replay.finishTime;
+			if (this.replay.isPlayingBackState) this.finishTime = this.replay.finishTime;
 
 			this.finishYaw = this.yaw;
 			this.finishPitch = this.pitch;
@@ -1533,16 +1842,17 @@ export class Level extends Scheduler {
 			let endPad = Util.findLast(this.shapes, (shape) => shape instanceof EndPad) as EndPad;
 			endPad?.spawnFirework(this.timeState); // EndPad *might* not exist, in that case no fireworks lol
 
-			state.menu.hud.displayAlert("Congratulations! You've finished!");
+			this.hud?.displayAlert(this.mission.isHunt? "Time's up!" : "Congratulations! You've finished!");
 
-			// Check if the player is OOB, but still allow finishing with less than half a second of having been OOB
-			if (this.outOfBounds && this.timeState.currentAttemptTime - this.outOfBoundsTime.currentAttemptTime >= 500) return;
+			// Check if the player is OOB, but still allow finishing with less than half a second of having been OOB. Hunt rounds end either way.
+			if (!this.mission.isHunt && this.outOfBounds && this.timeState.currentAttemptTime - this.outOfBoundsTime.currentAttemptTime >= 500) return;
 
 			// When we reach this point, the player has actually successfully completed the level.
 
+			this.recordSplit('finish', this.finishTime.gameplayClock);
 			this.clearScheduleId('oobRestart'); // Make sure we don't restart the level now
 			// Schedule the finish screen to be shown
-			if (this.replay.mode !== 'playback') this.schedule(this.timeState.currentAttemptTime + 2000, () => {
+			if (this.replay.mode !== 'playback' && !this.headless) this.schedule(this.timeState.currentAttemptTime + 2000, () => {
 				// Show the finish screen
 				document.exitPointerLock?.();
 				state.menu.finishScreen.show();
@@ -1569,19 +1879,73 @@ export class Level extends Scheduler {
 	/** Unpauses the level. */
 	unpause() {
 		this.paused = false;
-		if (!Util.isTouchDevice) document.documentElement.requestPointerLock?.();
+		if (!Util.isTouchDevice && this.replay.mode !== 'playback') document.documentElement.requestPointerLock?.(); // The cursor is needed for the replay controls
 		state.menu.pauseScreen.hide();
 		this.lastPhysicsTick = performance.now();
 		maybeShowTouchControls();
 	}
 
+	/** Halts or continues replay playback. Continuing a replay that's over watches it again from the start. */
+	setPlaybackPaused(paused: boolean) {
+		if (!paused && this.replay.isPlaybackComplete()) this.seekPlayback(0);
+		this.playbackPaused = paused;
+	}
+
+	/** Halts replay playback and moves it the given amount of ticks forwards or backwards. */
+	stepPlayback(ticks: number) {
+		this.playbackPaused = true;
+		this.seekPlayback((this.seekTarget ?? this.replay.currentTickIndex) + ticks);
+	}
+
+	/** Moves replay playback to the given tick. Seeking backwards restarts the replay and fast-forwards it, as that's the only way to correctly rebuild the state of everything in the level, such as trapdoors, landmines, buttons and nukes. */
+	async seekPlayback(tickIndex: number) {
+		let alreadySeeking = this.seekTarget !== null;
+		this.seekTarget = Util.clamp(Math.floor(tickIndex), 0, this.replay.tickCount);
+		if (alreadySeeking) return; // The running seek picks up the new target
+
+		AudioManager.setSoundsMuted(true); // Nobody wants to hear all the skipped ticks at once, nor the sounds that were playing when the seek began
+		try {
+			while (!this.stopped) {
+				// Silence only the chunks themselves, as other things might want to make sound in between
+				AudioManager.silent = true;
+				try {
+					if (this.seekTarget < this.replay.currentTickIndex) {
+						let paused = this.playbackPaused;
+						this.restart(true);
+						this.playbackPaused = paused;
+					}
+
+					let chunkEnd = performance.now() + SIMULATION_CHUNK_DURATION;
+					while (this.replay.currentTickIndex < this.seekTarget && !this.replay.isPlaybackComplete() && !this.stopped && performance.now() < chunkEnd) {
+						this.advanceTick(); // The replay supplies the input
+					}
+				} finally {
+					AudioManager.silent = false;
+				}
+
+				let done = this.seekTarget === this.replay.currentTickIndex || (this.seekTarget > this.replay.currentTickIndex && this.replay.isPlaybackComplete());
+				if (done || this.stopped) break;
+				await Util.wait(0);
+			}
+		} finally {
+			this.seekTarget = null;
+			AudioManager.setSoundsMuted(false);
+		}
+		if (this.stopped) return;
+
+		this.playbackPaused = this.playbackPaused || this.replay.isPlaybackComplete();
+		this.marble.calculatePredictiveTransforms();
+		this.lastPhysicsTick = performance.now();
+	}
+
 	/** Ends the level irreversibly. */
 	stop() {
 		this.stopped = true;
 		clearInterval(this.tickInterval);
 		this.dispose();
+		if (this.headless) return; // Headless levels don't make any sound that would need stopping
 
-		this.music.stop();
+		this.music?.stop();
 		for (let interior of this.interiors) {
 			if (interior instanceof PathedInterior) interior.soundSource?.stop();
 		}
@@ -1601,6 +1965,7 @@ export class Level extends Scheduler {
 	/** Stops and destroys the current level and returns back to the menu. */
 	stopAndExit() {
 		this.stop();
+		if (this.headless) return; // There's no menu to return to
 		state.level = null;
 		mainCanvas.classList.add('hidden');
 
@@ -1624,5 +1989,6 @@ export class Level extends Scheduler {
 		for (let interior of this.interiors) interior.dispose();
 		for (let shape of this.shapes) shape.dispose();
 		for (let overlayShape of this.overlayShapes) overlayShape.dispose();
+		this.ghost?.dispose();
 	}
 }
\ No newline at end of file
@@ -1,7 +1,6 @@
 import OIMO from "./declarations/oimo";
 import * as THREE from "three";
 import { ResourceManager } from "./resources";
-import { isPressed, gamepadAxes, normalizedJoystickHandlePosition } from "./input";
 import { PHYSICS_TICK_RATE, TimeState, Level } from "./level";
 import { Shape } from "./shape";
 import { Util } from "./util";
@@ -10,7 +9,6 @@ import { StorageManager } from "./storage";
 import { MisParser, MissionElementType } from "./parsing/mis_parser";
 import { ParticleEmitter, ParticleEmitterOptions } from "./particles";
 import { camera, marbleReflectionCamera, marbleReflectionRenderTarget, renderer } from "./rendering";
-import { state } from "./state";
 
 const DEFAULT_RADIUS = 0.2;
 const ULTRA_RADIUS = 0.3;
@@ -200,40 +198,10 @@ export class Marble {
 		if (this.level.mission.misFile.marbleAttributes["bounceRestitution"] !== undefined) 
 			this.bounceRestitution = MisParser.parseNumber(this.level.mission.misFile.marbleAttributes["bounceRestitution"]);
 
-		// Get the correct texture
-		let marbleTexture: THREE.Texture;
-		let customTextureBlob = await StorageManager.databaseGet('keyvalue', 'marbleTexture');
-		if (customTextureBlob) {
-			try {
-				let url = ResourceManager.getUrlToBlob(customTextureBlob);
-				marbleTexture = await ResourceManager.getTexture(url, false, '');
-			} catch (e) {
-				console.error("Failed to load custom marble texture:", e);
-			}
-		} else {
-			marbleTexture = await ResourceManager.getTexture("shapes/balls/base.marble.png");
-		}
-		marbleTexture.flipY = true; // Because THREE.js UVs are different from what Torque would do
-		this.marbleTexture = marbleTexture;
-
-		let has2To1Texture = marbleTexture.image.width === marbleTexture.image.height * 2;
-
-		// Create the 3D object
-		if (has2To1Texture || (this.level.mission.modification === 'ultra' && !customTextureBlob)) {
-			let ballShape = new Shape();
-			ballShape.shareMaterials = false;
-			ballShape.dtsPath = 'shapes/balls/pack1/pack1marble.dts';
-			ballShape.castShadow = true;
-			ballShape.normalizeVertexNormals = true; // We do this so that the marble doesn't get darker the larger it gets
-			if (this.isReflective()) ballShape.onBeforeMaterialCompile = applyReflectiveMarbleShader;
-			if (customTextureBlob) ballShape.matNamesOverride['base.marble'] = marbleTexture;
-			await ballShape.init(this.level);
-			this.innerGroup.add(ballShape.group);
-			this.ballShape = ballShape;
-		}
+		if (!this.level.headless) await this.initAppearance();
 
 		let geometry = new THREE.SphereBufferGeometry(1, 32, 16);
-		let sphereMaterial = new THREE.MeshLambertMaterial({ map: marbleTexture, color: 0xffffff });
+		let sphereMaterial = new THREE.MeshLambertMaterial({ map: this.marbleTexture ?? null, color: 0xffffff });
 		let sphere = new THREE.Mesh(geometry, sphereMaterial);
 		sphere.material.onBeforeCompile = shader => shader.vertexShader = '#define NORMALIZE_TRANSFORMED_NORMAL\n' + shader.vertexShader; // Same thing as with ballShape
 		sphere.castShadow = true;
@@ -280,6 +248,8 @@ export class Marble {
 		this.helicopter.setOpacity(0);
 		this.group.add(this.helicopter.group);
 
+		if (this.level.headless) return;
+
 		// Load the necessary rolling sounds
 		let toLoad = ["jump.wav", "bouncehard1.wav", "bouncehard2.wav", "bouncehard3.wav", "bouncehard4.wav", "rolling_hard.wav", "sliding.wav"];
 		if (this.level.mission.hasBlast) toLoad.push("blast.wav");
@@ -305,6 +275,41 @@ export class Marble {
 		await Promise.all([this.rollingSound.promise, this.slidingSound.promise, this.rollingMegaMarbleSound?.promise]);
 	}
 
+	/** Loads the marble texture and creates the fancy marble shape if the texture calls for it. */
+	async initAppearance() {
+		// Get the correct texture
+		let marbleTexture: THREE.Texture;
+		let customTextureBlob = await StorageManager.databaseGet('keyvalue', 'marbleTexture');
+		if (customTextureBlob) {
+			try {
+				let url = ResourceManager.getUrlToBlob(customTextureBlob);
+				marbleTexture = await ResourceManager.getTexture(url, false, '');
+			} catch (e) {
+				console.error("Failed to load custom marble texture:", e);
+			}
+		} else {
+			marbleTexture = await ResourceManager.getTexture("shapes/balls/base.marble.png");
+		}
+		marbleTexture.flipY = true; // Because THREE.js UVs are different from what Torque would do
+		this.marbleTexture = marbleTexture;
+
+		let has2To1Texture = marbleTexture.image.width === marbleTexture.image.height * 2;
+
+		// Create the 3D object
+		if (has2To1Texture || (this.level.mission.modification === 'ultra' && !customTextureBlob)) {
+			let ballShape = new Shape();
+			ballShape.shareMaterials = false;
+			ballShape.dtsPath = 'shapes/balls/pack1/pack1marble.dts';
+			ballShape.castShadow = true;
+			ballShape.normalizeVertexNormals = true; // We do this so that the marble doesn't get darker the larger it gets
+			if (this.isReflective()) ballShape.onBeforeMaterialCompile = applyReflectiveMarbleShader;
+			if (customTextureBlob) ballShape.matNamesOverride['base.marble'] = marbleTexture;
+			await ballShape.init(this.level);
+			this.innerGroup.add(ballShape.group);
+			this.ballShape = ballShape;
+		}
+	}
+
 	/** Returns true iff the marble should use special reflective shaders. */
 	isReflective() {
 		return (StorageManager.data.settings.marbleReflectivity === 2 || (StorageManager.data.settings.marbleReflectivity === 0 && this.level.mission.modification === 'ultra')) && !Util.isIOS();
@@ -313,28 +318,8 @@ export class Marble {
 
 	tick(time: TimeState) {
 		// Construct the raw movement vector from inputs
-		let movementVec = new THREE.Vector3(0, 0, 0);
-		if (isPressed('up')) movementVec.add(new THREE.Vector3(1, 0, 0));
-		if (isPressed('down')) movementVec.add(new THREE.Vector3(-1, 0, 0));
-		if (isPressed('left')) movementVec.add(new THREE.Vector3(0, 1, 0));
-		if (isPressed('right')) movementVec.add(new THREE.Vector3(0, -1, 0));
-		
-		// Add gamepad input and restrict if necessary
-		movementVec.add(new THREE.Vector3(-gamepadAxes.marbleY, -gamepadAxes.marbleX));
-		if (normalizedJoystickHandlePosition) movementVec.add(new THREE.Vector3(
-			-Util.signedSquare(normalizedJoystickHandlePosition.y),
-			-Util.signedSquare(normalizedJoystickHandlePosition.x)
-		));
-		if (movementVec.x > 1.0)
-			movementVec.x = 1.0;
-		if (movementVec.x < -1.0)
-			movementVec.x = -1.0;
-		if (movementVec.y > 1.0)
-			movementVec.y = 1.0;
-		if (movementVec.y < -1.0)
-			movementVec.y = -1.0;
-
-		if (state.menu.finishScreen.showing) movementVec.multiplyScalar(0);
+		let movement = this.level.input.movement;
+		let movementVec = new THREE.Vector3(movement.x, movement.y, 0);
 		let inputStrength = movementVec.length();
 
 		// Rotate the vector accordingly
@@ -445,12 +430,12 @@ export class Marble {
 
 			// See if, out of all contact normals, there is one that's not at a 90° angle to the up vector.
 			let allContactNormalUpDots = allContactNormals.map(x => Math.abs(x.dot(this.level.currentUp)));
-			if (this.collisionTimeout <= 0 && !state.menu.finishScreen.showing && (isPressed('jump') || this.level.jumpQueued) && allContactNormalUpDots.some(x => x > 1e-10)) {
+			if (this.collisionTimeout <= 0 && this.level.input.jump && allContactNormalUpDots.some(x => x > 1e-10)) {
 				// Handle jumping
 				this.setLinearVelocityInDirection(contactNormal, this.jumpImpulse + surfaceShape.getRigidBody().getLinearVelocity().dot(contactNormal), true, () => {
 					this.playJumpSound();
 					collisionTimeoutNeeded = true;
-					if (this.level.replay.canStore) this.level.replay.jumpSoundTimes.push(this.level.replay.currentTickIndex);
+					if (this.level.replay.canStore && !this.level.replay.isInputBased) this.level.replay.jumpSoundTimes.push(this.level.replay.currentTickIndex);
 				});
 			}
 
@@ -465,32 +450,34 @@ export class Marble {
 					// Play a collision impact sound
 					this.playBounceSound(volume);
 					collisionTimeoutNeeded = true;
-					if (this.level.replay.canStore) this.level.replay.bounceTimes.push({ tickIndex: this.level.replay.currentTickIndex, volume: volume, showParticles: impactVelocity > 6 });
+					if (this.level.replay.canStore && !this.level.replay.isInputBased) this.level.replay.bounceTimes.push({ tickIndex: this.level.replay.currentTickIndex, volume: volume, showParticles: impactVelocity > 6 });
 				}
 			}
 
 			// Handle rolling and sliding sounds
-			if (contactNormal.dot(surfaceRelativeVelocity) < 0.01) {
-				let predictedMovement = this.body.getAngularVelocity().cross(this.level.currentUp).scaleEq(1 / Math.PI / 2);
-				// The expected movement based on the current angular velocity. If actual movement differs too much, we consider the marble to be "sliding".
-
-				if (predictedMovement.dot(surfaceRelativeVelocity) < -0.00001 || (predictedMovement.length() > 0.5 && predictedMovement.length() > surfaceRelativeVelocity.length() * 1.5)) {
-					this.slidingSound.gain.gain.value = 0.6;
-					this.rollingSound.gain.gain.value = 0;
-					if (this.rollingMegaMarbleSound) this.rollingMegaMarbleSound.gain.gain.value = 0;
+			if (!this.level.headless) {
+				if (contactNormal.dot(surfaceRelativeVelocity) < 0.01) {
+					let predictedMovement = this.body.getAngularVelocity().cross(this.level.currentUp).scaleEq(1 / Math.PI / 2);
+					// The expected movement based on the current angular velocity. If actual movement differs too much, we consider the marble to be "sliding".
+
+					if (predictedMovement.dot(surfaceRelativeVelocity) < -0.00001 || (predictedMovement.length() > 0.5 && predictedMovement.length() > surfaceRelativeVelocity.length() * 1.5)) {
+						this.slidingSound.gain.gain.value = 0.6;
+						this.rollingSound.gain.gain.value = 0;
+						if (this.rollingMegaMarbleSound) this.rollingMegaMarbleSound.gain.gain.value = 0;
+					} else {
+						this.slidingSound.gain.gain.value = 0;
+						let pitch = Util.clamp(surfaceRelativeVelocity.length() / 15, 0, 1) * 0.75 + 0.75;
+
+						this.rollingSound.gain.gain.linearRampToValueAtTime(Util.clamp(pitch - 0.75, 0, 1), AudioManager.context.currentTime + 0.02);
+						this.rollingMegaMarbleSound?.gain.gain.linearRampToValueAtTime(Util.clamp(pitch - 0.75, 0, 1), AudioManager.context.currentTime + 0.02);
+						this.rollingSound.setPlaybackRate(pitch);
+						this.rollingMegaMarbleSound?.setPlaybackRate(pitch);
+					}
 				} else {
 					this.slidingSound.gain.gain.value = 0;
-					let pitch = Util.clamp(surfaceRelativeVelocity.length() / 15, 0, 1) * 0.75 + 0.75;
-
-					this.rollingSound.gain.gain.linearRampToValueAtTime(Util.clamp(pitch - 0.75, 0, 1), AudioManager.context.currentTime + 0.02);
-					this.rollingMegaMarbleSound?.gain.gain.linearRampToValueAtTime(Util.clamp(pitch - 0.75, 0, 1), AudioManager.context.currentTime + 0.02);
-					this.rollingSound.setPlaybackRate(pitch);
-					this.rollingMegaMarbleSound?.setPlaybackRate(pitch);
+					this.rollingSound.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
+					this.rollingMegaMarbleSound?.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
 				}
-			} else {
-				this.slidingSound.gain.gain.value = 0;
-				this.rollingSound.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
-				this.rollingMegaMarbleSound?.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
 			}
 
 			// Weaken the marble's angular power based on the friction and steepness of the surface
@@ -542,9 +529,11 @@ export class Marble {
 			airMovementVector.scaleEq(airVelocity / PHYSICS_TICK_RATE);
 			this.body.addLinearVelocity(airMovementVector);
 
-			this.slidingSound.gain.gain.value = 0;
-			this.rollingSound.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
-			this.rollingMegaMarbleSound?.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
+			if (!this.level.headless) {
+				this.slidingSound.gain.gain.value = 0;
+				this.rollingSound.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
+				this.rollingMegaMarbleSound?.gain.gain.linearRampToValueAtTime(0, AudioManager.context.currentTime + 0.02);
+			}
 		}
 
 		movementRotationAxis.scaleEq(this.speedFac);
@@ -555,12 +544,12 @@ export class Marble {
 		this.lastVel = this.body.getLinearVelocity();
 		this.lastAngVel = this.body.getAngularVelocity();
 
-		// Store sound state in the replay
+		// Store sound state in the replay. Input-based replays recreate it by themselves.
 		let r = this.level.replay;
-		if (r.canStore) {
-			r.rollingSoundGain.push(this.rollingSound.gain.gain.value);
-			r.rollingSoundPlaybackRate.push((this.rollingSound.node as AudioBufferSourceNode).playbackRate.value);
-			r.slidingSoundGain.push(this.slidingSound.gain.gain.value);
+		if (r.canStore && !r.isInputBased) {
+			r.rollingSoundGain.push(this.rollingSound?.gain.gain.value ?? 0);
+			r.rollingSoundPlaybackRate.push((this.rollingSound?.node as AudioBufferSourceNode)?.playbackRate.value ?? 1);
+			r.slidingSoundGain.push(this.slidingSound?.gain.gain.value ?? 0);
 		}
 	}
 
@@ -570,7 +559,7 @@ export class Marble {
 			this.forcefield.setOpacity(1);
 			this.shape.setRestitution(0.01);  // Yep it's not actually zero
 
-			if (!this.shockAbsorberSound) {
+			if (!this.shockAbsorberSound && !this.level.headless) {
 				this.shockAbsorberSound = AudioManager.createAudioSource('superbounceactive.wav');
 				this.shockAbsorberSound.setLoop(true);
 				this.shockAbsorberSound.play();
@@ -592,7 +581,7 @@ export class Marble {
 			this.superBounceSound?.stop();
 			this.superBounceSound = null;
 		}
-		if (time.currentAttemptTime - this.superBounceEnableTime < 5000 && !this.superBounceSound) {
+		if (time.currentAttemptTime - this.superBounceEnableTime < 5000 && !this.superBounceSound && !this.level.headless) {
 			// Play the super bounce sound
 			this.superBounceSound = AudioManager.createAudioSource('forcefield.wav');
 			this.superBounceSound.setLoop(true);
@@ -605,7 +594,7 @@ export class Marble {
 			this.helicopter.setTransform(new THREE.Vector3(0, 0, this.radius - DEFAULT_RADIUS).applyQuaternion(this.level.newOrientationQuat), this.level.newOrientationQuat, new THREE.Vector3(1, 1, 1));
 			this.level.setGravityIntensity(this.level.defaultGravity * 0.25);
 			
-			if (!this.helicopterSound) {
+			if (!this.helicopterSound && !this.level.headless) {
 				this.helicopterSound = AudioManager.createAudioSource('use_gyrocopter.wav');
 				this.helicopterSound.setLoop(true);
 				this.helicopterSound.play();
@@ -622,11 +611,11 @@ export class Marble {
 		if (this.radius !== MEGA_MARBLE_RADIUS && time.currentAttemptTime - this.megaMarbleEnableTime < 10000) {
 			this.setRadius(MEGA_MARBLE_RADIUS);
 			this.body.addLinearVelocity(this.level.currentUp.scale(6)); // There's a small yeet upwards
-			this.rollingSound.stop();
+			this.rollingSound?.stop();
 			this.rollingMegaMarbleSound?.play();
 		} else if (time.currentAttemptTime - this.megaMarbleEnableTime >= 10000) {
 			this.setRadius(this.level.mission.hasUltraMarble? ULTRA_RADIUS : DEFAULT_RADIUS);
-			this.rollingSound.play();
+			this.rollingSound?.play();
 			this.rollingMegaMarbleSound?.stop();
 		}
 	}
@@ -820,6 +809,7 @@ export class Marble {
 	reset() {
 		this.body.setLinearVelocity(new OIMO.Vec3());
 		this.body.setAngularVelocity(new OIMO.Vec3());
+		this.body.setOrientation(new OIMO.Quat()); // So that every attempt starts out exactly the same, which input-based replays rely on
 		this.superBounceEnableTime = -Infinity;
 		this.shockAbsorberEnableTime = -Infinity;
 		this.helicopterEnableTime = -Infinity;
@@ -828,6 +818,7 @@ export class Marble {
 		this.megaMarbleEnableTime = -Infinity;
 		this.lastContactNormal = new OIMO.Vec3(0, 0, 1);
 		this.lastVel = new OIMO.Vec3();
+		this.lastAngVel = new OIMO.Vec3();
 		this.collisionTimeout = 0;
 		this.slidingTimeout = 0;
 		this.predictedPosition = this.body.getPosition();
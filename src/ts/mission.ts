@@ -1,10 +1,14 @@
 import { MissionElementSimGroup, MisParser, MissionElementType, MissionElementScriptObject, MisFile, MissionElement } from "./parsing/mis_parser";
 import { ResourceManager } from "./resources";
-import { DifParser, DifFile } from "./parsing/dif_parser";
+import { DifFile } from "./parsing/dif_parser";
 import { Util } from "./util";
-import { DtsFile, DtsParser } from "./parsing/dts_parser";
+import { DtsFile } from "./parsing/dts_parser";
+import { FileLoader } from "./parsing/file_loader";
 import { state } from "./state";
 
+/** How long a hunt round lasts if the mission doesn't say. */
+const DEFAULT_HUNT_DURATION = 5 * 60 * 1000;
+
 /** A custom levels archive entry. */
 export interface CLAEntry {
 	id: number,
@@ -33,6 +37,17 @@ export interface CLAEntry {
 	hasEasterEgg: boolean
 }
 
+/** An entry of the index of all stock missions the server hands out. It looks just like a CLA entry, plus what's needed to place the mission among the stock levels. */
+export interface MissionIndexEntry extends CLAEntry {
+	/** The mission path, like "beginner/movement.mis" or "mbp/advanced/schadenfreude.mis". */
+	path: string,
+	type: Mission['type'],
+	/** The number of the level within its difficulty. */
+	level: number,
+	hasBlast: boolean,
+	hasUltraMarble: boolean
+}
+
 /** Represents a playable mission. Contains all the necessary metadata, as well as methods for loading the mission and gettings its resources. */
 export class Mission {
 	/** The path to the mission. This is either (beginner|intermediate|advanced)/levelname or custom/levelid. */
@@ -53,15 +68,27 @@ export class Mission {
 	qualifyTime = Infinity;
 	goldTime = -Infinity; // Doubles as platinum time
 	ultimateTime = -Infinity;
+	/** In hunt mode, the player collects as many points as possible from gems within a time limit (the qualify time) instead of racing to the finish. */
+	gameMode: 'normal' | 'hunt' = 'normal';
+	qualifyScore = 0;
+	goldScore = Infinity; // Doubles as platinum score
+	ultimateScore = Infinity;
 	type: 'beginner' | 'intermediate' | 'advanced' | 'expert' | 'custom' = 'custom';
 	modification: 'gold' | 'platinum' | 'ultra';
 	zipDirectory: JSZip = null;
 	fileToBlobPromises = new Map<JSZip['files'][number], Promise<Blob>>();
 	difCache = new Map<string, Promise<DifFile>>();
 	isNew = false;
+	/** When the custom level was added to the archive, as a timestamp. */
+	addedAt = 0;
+	gemCount = 0;
 	hasEasterEgg = false;
 	hasBlast = false;
 	hasUltraMarble = false;
+	/** Whether the mission was imported from a file on the player's device. Its scores never leave the device. */
+	isLocal = false;
+	/** The URL of the image that came along with an imported mission, if there was one. */
+	localImageUrl: string = null;
 
 	constructor(path: string, misFile?: MisFile) {
 		this.path = path;
@@ -90,6 +117,7 @@ export class Mission {
 		mission.modification = path.startsWith('mbp/')? 'platinum' : path.startsWith('mbu/')? 'ultra' : 'gold';
 		mission.hasEasterEgg = mission.allElements.some(element => element._type === MissionElementType.Item && element.datablock?.toLowerCase() === 'easteregg');
 		mission.setUltraFlags();
+		mission.setHuntFlags();
 
 		return mission;
 	}
@@ -109,12 +137,130 @@ export class Mission {
 		if (entry.ultimateTime) mission.ultimateTime = entry.ultimateTime;
 		mission.id = entry.id;
 		mission.isNew = isNew;
+		mission.addedAt = entry.addedAt ?? 0;
+		mission.gemCount = entry.gems ?? 0;
 		mission.modification = entry.modification as ('gold' | 'platinum' | 'ultra');
 		mission.hasEasterEgg = entry.hasEasterEgg;
 
+		if (entry.gameMode?.toLowerCase() === 'hunt' && mission.modification !== 'gold') { // Hunt is an MBP/MBU thing
+			mission.gameMode = 'hunt';
+			if (entry.qualifyingScore) mission.qualifyScore = entry.qualifyingScore;
+			if (entry.goldScore) mission.goldScore = entry.goldScore;
+			if (entry.platinumScore) mission.goldScore = entry.platinumScore;
+			if (entry.ultimateScore) mission.ultimateScore = entry.ultimateScore;
+			if (!isFinite(mission.qualifyTime)) mission.qualifyTime = DEFAULT_HUNT_DURATION;
+		}
+
+		return mission;
+	}
+
+	/** Creates a custom mission from a .zip archive or a bare .mis file on the player's device, so that levels can be tested before they're published. */
+	static async fromLocalFile(file: File) {
+		let fileName = file.name.toLowerCase();
+		let zip: JSZip = null;
+		let missionFileName: string;
+		let text: string;
+		let buffer = await ResourceManager.readBlobAsArrayBuffer(file);
+
+		if (fileName.endsWith('.zip')) {
+			zip = await JSZip.loadAsync(buffer);
+
+			// Bring the archive into the layout the server gives custom level archives, where everything is in data/
+			for (let filename of Object.keys(zip.files)) {
+				let val = zip.files[filename];
+				let index = filename.toLowerCase().indexOf('data/');
+				delete zip.files[filename];
+				zip.files[(index === -1)? 'data/' + filename : filename.slice(index)] = val;
+			}
+			Mission.normalizeZipDirectory(zip);
+
+			missionFileName = Object.keys(zip.files).find(x => x.endsWith('.mis') && !zip.files[x].dir);
+			if (!missionFileName) throw new Error("The archive doesn't contain a .mis file.");
+			text = await ResourceManager.readBlobAsText(await zip.files[missionFileName].async('blob'), 'ISO-8859-1');
+		} else if (fileName.endsWith('.mis')) {
+			missionFileName = fileName;
+			text = await ResourceManager.readBlobAsText(file, 'ISO-8859-1');
+		} else {
+			throw new Error("Only .zip and .mis files can be imported.");
+		}
+
+		let mission = new Mission(null, await FileLoader.parseMis(text));
+		let missionInfo = mission.allElements.find(x => x._type === MissionElementType.ScriptObject && x._name === "MissionInfo") as MissionElementScriptObject;
+		if (!missionInfo) throw new Error("The mission has no MissionInfo.");
+
+		// The gold menu loads everything from the gold assets, the platinum menu respects what the mission was made for
+		let game = missionInfo.game?.toLowerCase();
+		let modification: Mission['modification'] = (state.modification === 'gold' || game === 'gold')? 'gold' : (game === 'ultra')? 'ultra' : 'platinum';
+		let baseName = missionFileName.slice(missionFileName.lastIndexOf('/') + 1, -4);
+		mission.path = 'custom/local/' + Util.hashArrayBuffer(buffer); // Keyed on the contents so that different levels with the same file name don't share their scores
+		if (modification === 'platinum') mission.path = 'mbp/' + mission.path;
+		if (modification === 'ultra') mission.path = 'mbu/' + mission.path;
+		mission.title = missionInfo.name?.trim() || baseName;
+		mission.artist = missionInfo.artist ?? '';
+		mission.description = missionInfo.desc ?? '';
+		mission.modification = modification;
+		mission.type = 'custom';
+		mission.zipDirectory = zip;
+		mission.isLocal = true;
+		mission.addedAt = Date.now();
+		mission.gemCount = mission.countGems();
+		mission.initCustomMetadata();
+
+		let imageFileName = zip && Object.keys(zip.files).find(x => x.startsWith(missionFileName.slice(0, -3)) && /\.(jpg|jpeg|png|bmp)$/.test(x));
+		if (imageFileName) mission.localImageUrl = ResourceManager.getUrlToBlob(await zip.files[imageFileName].async('blob'));
+
+		return mission;
+	}
+
+	/** Creates a stock mission from its entry in the mission index. Its .mis file is only loaded once it's played. */
+	static fromIndexEntry(entry: MissionIndexEntry) {
+		let mission = Mission.fromCLAEntry(entry, false);
+		mission.path = entry.path;
+		mission.type = entry.type;
+		mission.hasBlast = entry.hasBlast;
+		mission.hasUltraMarble = entry.hasUltraMarble;
+
 		return mission;
 	}
 
+	/** Describes this mission for the mission index. Only works for stock missions created from their .mis file. */
+	toIndexEntry(): MissionIndexEntry {
+		let missionInfo = this.missionInfo;
+
+		return {
+			id: null,
+			baseName: this.path.slice(this.path.lastIndexOf('/') + 1, -4),
+			gameType: 'single',
+			modification: this.modification,
+			name: this.title,
+			artist: this.artist,
+			desc: this.description,
+			addedAt: 0,
+			gameMode: missionInfo.gamemode ?? null,
+
+			qualifyingTime: MisParser.parseNumber(missionInfo.time),
+			goldTime: MisParser.parseNumber(missionInfo.goldtime),
+			platinumTime: MisParser.parseNumber(missionInfo.platinumtime),
+			ultimateTime: MisParser.parseNumber(missionInfo.ultimatetime),
+			awesomeTime: MisParser.parseNumber(missionInfo.awesometime),
+
+			qualifyingScore: MisParser.parseNumber(missionInfo.score),
+			goldScore: MisParser.parseNumber(missionInfo.goldscore),
+			platinumScore: MisParser.parseNumber(missionInfo.platinumscore),
+			ultimateScore: MisParser.parseNumber(missionInfo.ultimatescore),
+			awesomeScore: MisParser.parseNumber(missionInfo.awesomescore),
+
+			gems: this.countGems(),
+			hasEasterEgg: this.hasEasterEgg,
+
+			path: this.path,
+			type: this.type,
+			level: MisParser.parseNumber(missionInfo.level),
+			hasBlast: this.hasBlast,
+			hasUltraMarble: this.hasUltraMarble
+		};
+	}
+
 	initAllElements() {
 		this.allElements = [];
 
@@ -127,6 +273,10 @@ export class Mission {
 		traverse(this.root);
 	}
 
+	countGems() {
+		return this.allElements.filter(element => element._type === MissionElementType.Item && element.datablock?.toLowerCase().startsWith('gemitem')).length;
+	}
+
 	initSearchString(index: number) {
 		// Just the title and artist for now
 		this.searchString = Util.removeSpecialCharacters(Util.normalizeString(this.title + ' ' + this.artist + ' ' + (index + 1))).toLowerCase().trim();
@@ -135,15 +285,38 @@ export class Mission {
 	/** Loads this mission for gameplay. */
 	async load() {
 		if (this.misFile) return; // We already have the .mis file, we don't need to do anything
-		if (this.type !== 'custom') return; // Just a safety check
+
+		if (this.type !== 'custom') {
+			// The metadata came from the mission index, so only the mission itself is missing
+			let misFile = await FileLoader.loadMis(this.getMisFilePath());
+			this.misFile = misFile;
+			this.root = misFile.root;
+			this.initAllElements();
+			this.missionInfo = this.allElements.find(x => x._type === MissionElementType.ScriptObject && x._name === "MissionInfo") as MissionElementScriptObject;
+
+			return;
+		}
 
 		// Get the zip archive
 		let blob = await ResourceManager.loadResource(`./api/custom/${this.id}.zip`);
 		let arrayBuffer = await ResourceManager.readBlobAsArrayBuffer(blob);
 		let zip = await JSZip.loadAsync(arrayBuffer); // Unzip the thing
 		this.zipDirectory = zip;
+		Mission.normalizeZipDirectory(zip);
+
+		// Read the .mis file
+		let missionFileName = Object.keys(zip.files).find(x => x.endsWith('.mis'));
+		let text = await ResourceManager.readBlobAsText(await zip.files[missionFileName].async('blob'), 'ISO-8859-1');
+		let misFile = await FileLoader.parseMis(text);
+
+		this.misFile = misFile;
+		this.root = misFile.root;
+		this.initAllElements();
+		this.initCustomMetadata();
+	}
 
-		// Normalize filenames within the zip
+	/** Makes the file names within a custom level archive lowercase and adds the aliases the asset lookups expect. */
+	static normalizeZipDirectory(zip: JSZip) {
 		for (let filename in zip.files) {
 			let val = zip.files[filename];
 			delete zip.files[filename];
@@ -155,18 +328,10 @@ export class Mission {
 				zip.files[filename.replace('interiors_mbg/', 'interiors/')] = val;
 			}
 		}
+	}
 
-		// Read the .mis file
-		let missionFileName = Object.keys(zip.files).find(x => x.endsWith('.mis'));
-		let text = await ResourceManager.readBlobAsText(await zip.files[missionFileName].async('blob'), 'ISO-8859-1');
-		let parser = new MisParser(text);
-		let misFile = parser.parse();
-
-		this.misFile = misFile;
-		this.root = misFile.root;
-		this.initAllElements();
-
-		// Set up some metadata
+	/** Reads the times and flags of a custom mission from its .mis file, as they might be missing from or differ from its CLA entry. */
+	initCustomMetadata() {
 		let missionInfo = this.allElements.find(x => x._type === MissionElementType.ScriptObject && x._name === "MissionInfo") as MissionElementScriptObject;
 		if (missionInfo?.time) {
 			this.qualifyTime = MisParser.parseNumber(missionInfo.time);
@@ -189,6 +354,7 @@ export class Mission {
 		this.missionInfo = missionInfo;
 
 		this.setUltraFlags();
+		this.setHuntFlags();
 	}
 
 	setUltraFlags() {
@@ -199,14 +365,63 @@ export class Mission {
 			this.hasUltraMarble = true;
 	}
  
+	setHuntFlags() {
+		if (this.missionInfo.gamemode?.toLowerCase() !== 'hunt' || this.modification === 'gold') return; // Hunt is an MBP/MBU thing
+
+		this.gameMode = 'hunt';
+		// Zero means there's no such score, same as with the times
+		if (this.missionInfo.score) this.qualifyScore = MisParser.parseNumber(this.missionInfo.score) || 0;
+		if (this.missionInfo.goldscore) this.goldScore = MisParser.parseNumber(this.missionInfo.goldscore) || Infinity;
+		if (this.missionInfo.platinumscore) this.goldScore = MisParser.parseNumber(this.missionInfo.platinumscore) || Infinity;
+		if (this.missionInfo.ultimatescore) this.ultimateScore = MisParser.parseNumber(this.missionInfo.ultimatescore) || Infinity;
+		if (!isFinite(this.qualifyTime)) this.qualifyTime = DEFAULT_HUNT_DURATION;
+	}
+
+	get isHunt() {
+		return this.gameMode === 'hunt';
+	}
+
+	/** Compares two results on this mission, being times or, in hunt mode, scores. Negative if the first one is better. */
+	compareResults(a: number, b: number) {
+		return this.isHunt? b - a : a - b;
+	}
+
+	/** Determines which of the mission's requirements a result beats. */
+	rateResult(result: number): 'failed' | 'qualified' | 'gold' | 'ultimate' {
+		if (this.isHunt) {
+			if (result < this.qualifyScore) return 'failed';
+			if (result >= this.ultimateScore) return 'ultimate';
+			if (result >= this.goldScore) return 'gold';
+			return 'qualified';
+		}
+
+		if (result > this.qualifyTime) return 'failed';
+		if (result <= this.ultimateTime) return 'ultimate';
+		if (result <= this.goldTime) return 'gold';
+		return 'qualified';
+	}
+
+	/** Formats a result for display in score lists. */
+	formatResult(result: number) {
+		if (this.isHunt) return `${result} ${(result === 1)? 'point' : 'points'}`;
+		return Util.secondsToTimeString(result / 1000);
+	}
+
 	getDirectoryMissionPath() {
 		if (this.modification === 'gold') return 'missions/' + this.path;
 		if (this.modification === 'ultra') return 'missions_mbu/' + this.path.slice(4);
 		if (this.modification === 'platinum') return 'missions_mbp/' + this.path.slice(4);
 	}
 
+	/** Gets the path of the .mis file of a stock mission. */
+	getMisFilePath() {
+		return ((this.modification === 'gold')? './assets/data/' : './assets/data_mbp/') + this.getDirectoryMissionPath();
+	}
+
 	/** Gets the path of the image of a mission. */
 	getImagePath() {
+		if (this.isLocal) return this.localImageUrl;
+
 		if (this.type !== 'custom') {
 			let directoryMissionPath = this.getDirectoryMissionPath();
 			if (state.modification !== 'gold') directoryMissionPath = directoryMissionPath.replace('missions/', 'missions_mbg/');
@@ -230,16 +445,24 @@ export class Mission {
 		}
 	}
 
-	/** Gets a DIF file from the mission resources.
+	/** Gets the path of a DIF file relative to the assets directory, which is also its path within the zip.
 	 * @param rawElementPath The raw path specified within the .mis file
 	 */
-	async getDif(rawElementPath: string) {
+	getDifPath(rawElementPath: string) {
 		rawElementPath = rawElementPath.toLowerCase();
 		let path = rawElementPath.slice(rawElementPath.indexOf('data/'));
 		if (state.modification === 'gold' && path.includes('interiors_mbg/')) path = path.replace('interiors_mbg/', 'interiors/');
 
 		if (this.modification !== 'gold') path = path.replace('data/', 'data_mbp/');
 
+		return path;
+	}
+
+	/** Gets a DIF file from the mission resources.
+	 * @param rawElementPath The raw path specified within the .mis file
+	 */
+	async getDif(rawElementPath: string) {
+		let path = this.getDifPath(rawElementPath);
 		let dif: DifFile = null;
 		if (this.difCache.get(path)) dif = await this.difCache.get(path); // We've already parsed the dif before
 		else {
@@ -249,11 +472,9 @@ export class Mission {
 				if (this.zipDirectory && this.zipDirectory.files[path]) {
 					// Get it from the zip
 					let arrayBuffer = await this.zipDirectory.files[path].async('arraybuffer');
-					let parser = new DifParser(arrayBuffer);
-					let result = parser.parse();
-					dif = result;
+					dif = await FileLoader.parseDif(arrayBuffer);
 				} else {
-					dif = await DifParser.loadFile('./assets/' + path);
+					dif = await FileLoader.loadDif('./assets/' + path);
 				}
 
 				resolve(dif);
@@ -275,11 +496,9 @@ export class Mission {
 		if (this.zipDirectory && this.zipDirectory.files['data/' + path]) {
 			// Get it from the zip
 			let arrayBuffer = await this.zipDirectory.files['data/' + path].async('arraybuffer');
-			let parser = new DtsParser(arrayBuffer);
-			let result = parser.parse();
-			dts = result;
+			dts = await FileLoader.parseDts(arrayBuffer);
 		} else {
-			dts = await DtsParser.loadFile('./assets/' + base + path);
+			dts = await FileLoader.loadDts('./assets/' + base + path);
 		}
 
 		return dts;
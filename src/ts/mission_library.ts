@@ -1,6 +1,5 @@
-import { Mission, CLAEntry } from "./mission";
-import { MisFile, MisParser } from "./parsing/mis_parser";
-import { ResourceManager, DirectoryStructure } from "./resources";
+import { Mission, CLAEntry, MissionIndexEntry } from "./mission";
+import { ResourceManager } from "./resources";
 import { Util } from "./util";
 
 export abstract class MissionLibrary {
@@ -24,84 +23,34 @@ export abstract class MissionLibrary {
 
 	/** Loads all missions. */
 	static async init() {
-		let mbgMissionFilenames: string[] = [];
-		let mbpMissionFilenames: string[] = [];
-		let mbuMissionFilenames: string[] = [];
-
-		const collectMissionFiles = (arr: string[], directory: DirectoryStructure, path: string) => {
-			for (let name in directory) {
-				if (directory[name]) {
-					collectMissionFiles(arr, directory[name], path + name + '/');
-				} else if (name.endsWith('.mis')) {
-					arr.push(path + name);
-				}
-			}
-		};
-		collectMissionFiles(mbgMissionFilenames, ResourceManager.dataDirectoryStructure['missions'], ''); // Find all mission files
-		collectMissionFiles(mbpMissionFilenames, ResourceManager.dataMbpDirectoryStructure['missions_mbp'], '');
-		collectMissionFiles(mbuMissionFilenames, ResourceManager.dataMbpDirectoryStructure['missions_mbu'], '');
-
-		let mbgPromises: Promise<MisFile>[] = [];
-		let mbpPromises: Promise<MisFile>[] = [];
-		let mbuPromises: Promise<MisFile>[] = [];
-		for (let filename of mbgMissionFilenames) {
-			// Load and read all missions
-			mbgPromises.push(MisParser.loadFile("./assets/data/missions/" + filename));
-		}
-		for (let filename of mbpMissionFilenames) {
-			mbpPromises.push(MisParser.loadFile("./assets/data_mbp/missions_mbp/" + filename));
-		}
-		for (let filename of mbuMissionFilenames) {
-			mbuPromises.push(MisParser.loadFile("./assets/data_mbp/missions_mbu/" + filename));
-		}
+		// Get the metadata of all stock missions. Their .mis files are only loaded once they're played.
+		let missionIndexPromise = ResourceManager.loadResource('./api/missions');
 
 		// Get the list of all custom levels in the CLA
 		let goldCustomLevelListPromise = ResourceManager.loadResource('./assets/customs_gold.json');
 		let platinumCustomLevelListPromise = ResourceManager.loadResource('./assets/customs_platinum.json');
 		let ultraCustomLevelListPromise = ResourceManager.loadResource('./assets/customs_ultra.json');
 
-		let mbgMisFiles = await Promise.all(mbgPromises);
-		let mbpMisFiles = await Promise.all(mbpPromises);
-		let mbuMisFiles = await Promise.all(mbuPromises);
-
-		let misFileToFilename = new Map<MisFile, string>();
-		for (let i = 0; i < mbgMissionFilenames.length; i++) misFileToFilename.set(mbgMisFiles[i], mbgMissionFilenames[i]);
-		for (let i = 0; i < mbpMissionFilenames.length; i++) misFileToFilename.set(mbpMisFiles[i], mbpMissionFilenames[i]);
-		for (let i = 0; i < mbuMissionFilenames.length; i++) misFileToFilename.set(mbuMisFiles[i], mbuMissionFilenames[i]);
-
 		let mbgMissions: Mission[] = [];
 		let mbpMissions: Mission[] = [];
 		let mbuMissions: Mission[] = [];
 
-		// Create the regular missions
-		for (let misFile of mbgMisFiles) {
-			let mission = Mission.fromMisFile(misFileToFilename.get(misFile), misFile);
-			mbgMissions.push(mission);
-		}
-		for (let misFile of mbpMisFiles) {
-			let mission = Mission.fromMisFile('mbp/' + misFileToFilename.get(misFile), misFile);
-			mbpMissions.push(mission);
-		}
-		for (let misFile of mbuMisFiles) {
-			let mission = Mission.fromMisFile('mbu/' + misFileToFilename.get(misFile), misFile);
-			mbuMissions.push(mission);
+		// Create the regular missions. The index is already sorted by level index.
+		let missionIndex = await ResourceManager.readBlobAsJson(await missionIndexPromise) as MissionIndexEntry[];
+		for (let entry of missionIndex) {
+			let mission = Mission.fromIndexEntry(entry);
+			if (mission.modification === 'gold') mbgMissions.push(mission);
+			else if (mission.modification === 'ultra') mbuMissions.push(mission);
+			else mbpMissions.push(mission);
 		}
 
-		// Sort the missions by level index so they're in the right order
-		const sortFn = (a: Mission, b: Mission) => {
-			return MisParser.parseNumber(a.missionInfo.level) - MisParser.parseNumber(b.missionInfo.level);
-		};
-		mbgMissions.sort(sortFn);
-		mbpMissions.sort(sortFn);
-		mbuMissions.sort(sortFn);
-
 		// Read the custom level lists
 		let goldCustoms = await ResourceManager.readBlobAsJson(await goldCustomLevelListPromise) as CLAEntry[];
 		goldCustoms = goldCustoms.filter(x => x.modification === 'gold'); // Apparently some platinum levels snuck in
 		let platCustoms = await ResourceManager.readBlobAsJson(await platinumCustomLevelListPromise) as CLAEntry[];
-		platCustoms = platCustoms.filter(x => x.gameType === 'single' && (!x.gameMode || x.gameMode === 'null')); // Whoops, forgot to filter the JSON
+		platCustoms = platCustoms.filter(x => (x.gameType === 'single' && (!x.gameMode || x.gameMode === 'null')) || x.gameMode?.toLowerCase() === 'hunt'); // Whoops, forgot to filter the JSON. Hunt levels are mostly marked as multiplayer, but play just fine alone.
 		let ultraCustoms = await ResourceManager.readBlobAsJson(await ultraCustomLevelListPromise) as CLAEntry[];
-		ultraCustoms = ultraCustoms.filter(x => x.gameType === 'single');
+		ultraCustoms = ultraCustoms.filter(x => x.gameType === 'single' || x.gameMode?.toLowerCase() === 'hunt');
 
 		// Remove duplicate platinum levels
 		let platCustomNames = new Set<string>();
@@ -177,6 +126,25 @@ export abstract class MissionLibrary {
 		for (let i = 0; i < this.ultraCustom.length; i++) this.ultraCustom[i].initSearchString(i);
 	}
 
+	/** Adds a mission imported from the player's device to the custom levels. Importing the same level again replaces the earlier import. Returns the array the mission was added to. */
+	static addLocalMission(mission: Mission) {
+		let arr = (mission.modification === 'gold')? this.goldCustom : (mission.modification === 'ultra')? this.ultraCustom : this.platinumCustom;
+		let existing = this.allMissions.find(x => x.path === mission.path);
+		let index = arr.indexOf(existing);
+
+		if (index === -1) {
+			arr.push(mission);
+			this.allMissions.push(mission);
+			index = arr.length - 1;
+		} else {
+			arr[index] = mission;
+			this.allMissions[this.allMissions.indexOf(existing)] = mission;
+		}
+		mission.initSearchString(index);
+
+		return arr;
+	}
+
 	static getModification(arr: Mission[]) {
 		return arr[0]?.modification ?? null;
 	}
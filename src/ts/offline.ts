@@ -0,0 +1,426 @@
+import { Mission } from "./mission";
+import { MissionLibrary } from "./mission_library";
+import { MissionElementType } from "./parsing/mis_parser";
+import { DifFile } from "./parsing/dif_parser";
+import { DtsFile } from "./parsing/dts_parser";
+import { FileLoader } from "./parsing/file_loader";
+import { IflParser } from "./parsing/ifl_parser";
+import { DirectoryStructure, ResourceManager } from "./resources";
+import { shapeRegistry } from "./registry";
+import { Interior } from "./interior";
+import { getMaterialFileName, Shape } from "./shape";
+import { Gem, GEM_COLORS } from "./shapes/gem";
+import { RandomPowerUp } from "./shapes/random_power_up";
+import { state } from "./state";
+import { StorageManager } from "./storage";
+import { Util } from "./util";
+import "./datablocks";
+
+/** The Cache Storage cache the service worker serves downloaded resources from. Keep the name in sync with sw.js. */
+const OFFLINE_CACHE_NAME = 'offline-levels';
+
+/** A set of levels downloaded for offline play, being either a whole category of stock levels or a single custom level. */
+export interface OfflinePack {
+	/** Like "platinum:mbp/beginner" for a category or "gold:custom/1234" for a custom level. */
+	id: string,
+	name: string,
+	/** The menu the pack was downloaded in. It matters because the menus load the same level from different directories. */
+	modification: 'gold' | 'platinum',
+	missionPaths: string[],
+	/** Every resource the levels need, including the ones shared with other packs. */
+	urls: string[],
+	timestamp: number
+}
+
+interface OfflineIndex {
+	packs: OfflinePack[],
+	/** The size of every downloaded resource in bytes. */
+	sizes: Record<string, number>
+}
+
+/** The progress of a pack that is being downloaded. */
+export interface OfflineDownload {
+	packId: string,
+	/** How many of the levels have been looked through for the resources they need. */
+	missionsDone: number,
+	missionCount: number,
+	filesDone: number,
+	fileCount: number
+}
+
+/** Finds and downloads all resources needed to play a set of missions. The ones that need to be looked into to find further resources are downloaded right away. */
+class ResourceCollector {
+	cache: Cache;
+	progress: OfflineDownload;
+	urls = new Set<string>();
+	/** The resources that are in the cache by now, whether they were already in there or not. */
+	downloaded = new Set<string>();
+	/** The resources this collector put into the cache itself. */
+	cached = new Set<string>();
+	sizes: Record<string, number> = {};
+
+	constructor(cache: Cache, progress: OfflineDownload) {
+		this.cache = cache;
+		this.progress = progress;
+	}
+
+	/** Notes down that a resource is needed. The path is the one the game loads the resource from. */
+	add(path: string) {
+		let url = OfflineManager.toUrl(path);
+		if (this.urls.has(url)) return url;
+
+		this.urls.add(url);
+		this.progress.fileCount++;
+		return url;
+	}
+
+	/** Downloads a resource into the cache, unless it's in there already. Returns null if the resource doesn't exist. */
+	async download(url: string) {
+		if (this.downloaded.has(url)) return await this.cache.match(url);
+
+		let response = await this.cache.match(url);
+		if (!response) {
+			let fetched = await fetch(url);
+			if (!fetched.ok) {
+				this.urls.delete(url);
+				this.progress.fileCount--;
+				return null;
+			}
+
+			let blob = await fetched.blob();
+			this.sizes[url] = blob.size;
+			await this.cache.put(url, new Response(blob));
+			this.cached.add(url);
+			response = new Response(blob);
+		} else {
+			// Record the size here as well, as the index doesn't necessarily know it
+			this.sizes[url] = (await response.clone().blob()).size;
+		}
+
+		this.downloaded.add(url);
+		this.progress.filesDone++;
+		return response;
+	}
+
+	/** Notes down that a resource is needed and gets its contents. */
+	async read(path: string) {
+		let response = await this.download(this.add(path));
+		return response? await response.blob() : null;
+	}
+
+	/** Downloads all resources that haven't been downloaded yet. */
+	async downloadRemaining() {
+		let remaining = [...this.urls].filter(x => !this.downloaded.has(x));
+
+		// A few at a time is faster than one by one
+		const work = async () => {
+			while (remaining.length) await this.download(remaining.pop());
+		};
+		await Promise.all([work(), work(), work(), work()]);
+	}
+
+	/** Notes down all files in a directory of the current data directory, not including subdirectories. */
+	addDirectory(path: string) {
+		let directory = ((state.modification === 'gold')? ResourceManager.dataDirectoryStructure : ResourceManager.dataMbpDirectoryStructure) as DirectoryStructure;
+		for (let part of path.split('/')) directory = directory?.[part];
+
+		for (let name in directory ?? {}) {
+			if (directory[name] === null) this.add(ResourceManager.mainDataPath + path + '/' + name);
+		}
+	}
+
+	/** Collects what's needed no matter which level is played, like sounds and the marble. */
+	async collectEssentials() {
+		this.addDirectory('sound');
+		this.addDirectory('sound/music');
+		this.addDirectory('particles');
+		this.add(ResourceManager.mainDataPath + 'shapes/balls/base.marble.png');
+
+		for (let dtsPath of ['shapes/images/glow_bounce.dts', 'shapes/images/helicopter.dts']) {
+			await this.collectDts(null, dtsPath, {});
+		}
+	}
+
+	async collectMission(mission: Mission) {
+		if (mission.type === 'custom') {
+			await this.read(`./api/custom/${mission.id}.zip`);
+		} else {
+			await this.read(mission.getMisFilePath());
+		}
+		this.add(mission.getImagePath());
+
+		await mission.load();
+
+		for (let element of mission.allElements) {
+			switch (element._type) {
+				case MissionElementType.InteriorInstance:
+					await this.collectInterior(mission, element.interiorfile);
+					break;
+				case MissionElementType.PathedInterior:
+					await this.collectInterior(mission, element.interiorresource);
+					break;
+				case MissionElementType.StaticShape: case MissionElementType.Item: {
+					let shape = shapeRegistry.get(element.datablock)?.(element, null);
+					if (shape) await this.collectShape(mission, shape);
+					break;
+				}
+				case MissionElementType.TSStatic: {
+					let shapeName = element.shapename.toLowerCase();
+					let index = shapeName.indexOf('data/');
+					if (index !== -1) await this.collectDts(mission, shapeName.slice(index + 'data/'.length), {});
+					break;
+				}
+				case MissionElementType.Sky:
+					if (element.useskytextures === "1") await this.collectDml(mission, element.materiallist.slice(element.materiallist.indexOf('data/') + 'data/'.length));
+					break;
+			}
+		}
+
+		await this.collectDml(mission, 'skies/sky_day.dml'); // The environment map
+
+		if (mission.modification === 'ultra') {
+			this.addDirectory('shaders/tex');
+			await this.collectDts(mission, 'shapes/balls/pack1/pack1marble.dts', {});
+		}
+	}
+
+	async collectInterior(mission: Mission, rawElementPath: string) {
+		let path = mission.getDifPath(rawElementPath);
+		let dif: DifFile;
+
+		if (mission.zipDirectory?.files[path]) {
+			dif = await FileLoader.parseDif(await mission.zipDirectory.files[path].async('arraybuffer'));
+		} else {
+			let blob = await this.read('./assets/' + path);
+			if (!blob) return;
+			dif = await FileLoader.parseCached('./assets/' + path, await ResourceManager.readBlobAsArrayBuffer(blob), x => FileLoader.parseDif(x));
+		}
+
+		let base = (mission.modification === 'gold')? 'data/' : 'data_mbp/';
+
+		for (let detailLevel of [dif.detailLevels[0], ...dif.subObjects]) {
+			for (let material of detailLevel.materialList.materials) {
+				let fileName = material.toLowerCase().split('/').pop();
+				let texturePath = Interior.findTexturePath(mission, path, fileName)?.toLowerCase();
+				if (texturePath && !mission.zipDirectory?.files[base + texturePath]) this.add('assets/' + base + texturePath);
+			}
+		}
+	}
+
+	async collectShape(mission: Mission, shape: Shape) {
+		let dtsPaths = new Set([shape.dtsPath, shape.colliderDtsPath ?? shape.dtsPath]);
+		if (shape instanceof RandomPowerUp) for (let path of shape.getAllDtsPaths()) dtsPaths.add(path);
+
+		for (let dtsPath of dtsPaths) await this.collectDts(mission, dtsPath, shape.matNamesOverride);
+
+		if (shape instanceof Gem) {
+			// Gems without a color get a random one, and so do the gems in the HUD
+			for (let color of GEM_COLORS) await this.collectDts(mission, shape.dtsPath, { 'base.gem': color + '.gem' });
+		}
+	}
+
+	async collectDts(mission: Mission, dtsPath: string, matNamesOverride: Shape['matNamesOverride']) {
+		let path = ResourceManager.mainDataPath + dtsPath;
+		let dts: DtsFile;
+
+		if (mission?.zipDirectory?.files['data/' + dtsPath]) {
+			dts = await FileLoader.parseDts(await mission.zipDirectory.files['data/' + dtsPath].async('arraybuffer'));
+		} else {
+			let blob = await this.read(path);
+			if (!blob) return;
+			dts = await FileLoader.parseCached(path, await ResourceManager.readBlobAsArrayBuffer(blob), x => FileLoader.parseDts(x));
+		}
+
+		let directoryPath = dtsPath.slice(0, dtsPath.lastIndexOf('/'));
+
+		for (let matName of dts.matNames) {
+			let overridden = matNamesOverride[matName] || matName;
+			if (typeof overridden !== 'string') continue;
+
+			let fileName = getMaterialFileName(directoryPath, overridden);
+			if (!fileName) continue;
+
+			if (!fileName.endsWith('.ifl')) {
+				this.add(ResourceManager.mainDataPath + directoryPath + '/' + fileName);
+				continue;
+			}
+
+			// Animated materials need all their frames
+			let blob = await this.read(ResourceManager.mainDataPath + directoryPath + '/' + fileName);
+			if (!blob) continue;
+
+			let keyframes = new IflParser(await ResourceManager.readBlobAsText(blob)).parse();
+			for (let frame of new Set(keyframes)) {
+				this.add(ResourceManager.mainDataPath + directoryPath + '/' + (getMaterialFileName(directoryPath, frame) ?? frame));
+			}
+		}
+	}
+
+	/** Collects a skybox. */
+	async collectDml(mission: Mission, dmlPath: string) {
+		let base = (mission.modification === 'gold')? 'data/' : 'data_mbp/';
+		let dmlDirectoryPath = dmlPath.slice(0, dmlPath.lastIndexOf('/'));
+		let dmlFile = mission.zipDirectory?.files[base + dmlPath.toLowerCase()]?
+			await mission.getResource(dmlPath)
+			: await this.read('./assets/' + base + dmlPath.toLowerCase());
+		if (!dmlFile) return;
+
+		let lines = (await ResourceManager.readBlobAsText(dmlFile)).split('\n').map(x => x.trim().toLowerCase());
+		for (let i = 0; i < 6; i++) {
+			let filename = mission.getFullNamesOf(dmlDirectoryPath + '/' + lines[i])[0];
+			if (!filename) continue;
+
+			let path = (dmlDirectoryPath + '/' + filename).toLowerCase();
+			if (!mission.zipDirectory?.files[base + path]) this.add('./assets/' + base + path);
+		}
+	}
+}
+
+/** Manages downloading levels for offline play. Downloaded resources are put into a cache the service worker serves requests from, and the game is none the wiser. */
+export abstract class OfflineManager {
+	static index: Promise<OfflineIndex> = null;
+	static currentDownload: OfflineDownload = null;
+
+	/** Offline play needs a service worker to serve the downloaded resources. */
+	static get supported() {
+		return 'caches' in window && !!navigator.serviceWorker;
+	}
+
+	static get isOffline() {
+		return !navigator.onLine;
+	}
+
+	static getIndex() {
+		if (this.index) return this.index;
+
+		this.index = (async () => {
+			let index = await StorageManager.databaseGet('keyvalue', 'offlineIndex') as OfflineIndex;
+			return index ?? { packs: [], sizes: {} } as OfflineIndex;
+		})();
+		return this.index;
+	}
+
+	static async storeIndex() {
+		await StorageManager.databasePut('keyvalue', await this.getIndex(), 'offlineIndex');
+	}
+
+	/** Turns a path into the absolute URL that the cache uses as the key. */
+	static toUrl(path: string) {
+		return new URL(ResourceManager.redirectPath(path), location.href).href;
+	}
+
+	static getCategoryPackId(missions: Mission[]) {
+		return `${state.modification}:${missions[0]?.path.slice(0, missions[0].path.lastIndexOf('/'))}`;
+	}
+
+	static getCategoryName(missions: Mission[]) {
+		let modification = MissionLibrary.getModification(missions);
+		let difficulty = MissionLibrary.getDifficulty(missions);
+		if (!modification || !difficulty) return '';
+
+		return (state.modification === 'gold')? Util.uppercaseFirstLetter(difficulty) : `${Util.uppercaseFirstLetter(modification)} ${Util.uppercaseFirstLetter(difficulty)}`;
+	}
+
+	static getMissionPackId(mission: Mission) {
+		return `${state.modification}:${mission.path}`;
+	}
+
+	/** Gets the packs that were downloaded in the current menu. */
+	static async getPacks() {
+		let index = await this.getIndex();
+		return index.packs.filter(x => x.modification === state.modification);
+	}
+
+	static async getPack(id: string) {
+		let index = await this.getIndex();
+		return index.packs.find(x => x.id === id) ?? null;
+	}
+
+	/** Returns true iff the mission has been downloaded and can be played offline. */
+	static async isAvailable(mission: Mission) {
+		if (mission.isLocal) return true; // It's already on the device
+
+		let packs = await this.getPacks();
+		return packs.some(x => x.missionPaths.includes(mission.path));
+	}
+
+	/** Returns how many bytes the resources take up. Resources shared between packs are only counted once. */
+	static async getSize(urls?: string[]) {
+		let index = await this.getIndex();
+		urls ??= Object.keys(index.sizes);
+
+		let size = 0;
+		for (let url of urls) size += index.sizes[url] ?? 0;
+
+		return size;
+	}
+
+	/** Downloads everything needed to play the given missions offline. Only one pack can be downloaded at a time. */
+	static async downloadPack(id: string, name: string, missions: Mission[]) {
+		if (this.currentDownload) throw new Error("There's already a download in progress.");
+
+		let progress: OfflineDownload = {
+			packId: id,
+			missionsDone: 0,
+			missionCount: missions.length,
+			filesDone: 0,
+			fileCount: 0
+		};
+		this.currentDownload = progress;
+
+		let cache = await caches.open(OFFLINE_CACHE_NAME);
+		let collector = new ResourceCollector(cache, progress);
+		let index = await this.getIndex();
+
+		try {
+			await collector.collectEssentials();
+			for (let mission of missions) {
+				await collector.collectMission(mission);
+				progress.missionsDone++;
+			}
+			await collector.downloadRemaining();
+
+			Object.assign(index.sizes, collector.sizes);
+			Util.removeFromArray(index.packs, index.packs.find(x => x.id === id));
+			index.packs.push({
+				id,
+				name,
+				modification: state.modification,
+				missionPaths: missions.map(x => x.path),
+				urls: [...collector.urls],
+				timestamp: Date.now()
+			});
+			await this.storeIndex();
+		} catch (e) {
+			// Don't leave behind resources no pack knows about. The ones that were in the cache before might belong to a pack that's still being stored.
+			await this.deleteUnused(cache, [...collector.cached]);
+			throw e;
+		} finally {
+			this.currentDownload = null;
+		}
+	}
+
+	/** Removes a pack and all of its resources that aren't needed by other packs. */
+	static async removePack(id: string) {
+		let index = await this.getIndex();
+		let pack = index.packs.find(x => x.id === id);
+		if (!pack) return;
+
+		Util.removeFromArray(index.packs, pack);
+		await this.deleteUnused(await caches.open(OFFLINE_CACHE_NAME), pack.urls);
+		await this.storeIndex();
+	}
+
+	/** Deletes the resources that no pack needs anymore from the cache. */
+	static async deleteUnused(cache: Cache, urls: string[]) {
+		let index = await this.getIndex();
+		let used = new Set(index.packs.flatMap(x => x.urls));
+
+		for (let url of urls) {
+			if (used.has(url)) continue;
+
+			await cache.delete(url);
+			delete index.sizes[url];
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { StorageManager } from "../storage";
+
+/** Increase this whenever the parsers change their output, so that files parsed by an older version are thrown away. */
+const ASSET_CACHE_VERSION = 1;
+/** Once the cached files take up more than this many bytes, the least recently used ones are evicted. */
+export const ASSET_CACHE_MAX_SIZE = 256 * 1024 * 1024;
+
+interface AssetCacheIndex {
+	version: number,
+	/** For each cached path, the hash of the file contents it was parsed from, its estimated size in bytes and when it was last used. */
+	entries: Record<string, {
+		hash: string,
+		size: number,
+		lastUsed: number
+	}>
+}
+
+/** Roughly estimates how many bytes a parsed file takes up. */
+const estimateSize = (value: any): number => {
+	if (typeof value === 'string') return 2 * value.length;
+	if (!value || typeof value !== 'object') return 8;
+	if (ArrayBuffer.isView(value)) return value.byteLength;
+
+	let size = 0;
+	if (Array.isArray(value)) {
+		for (let element of value) size += estimateSize(element);
+	} else {
+		for (let key in value) size += 2 * key.length + estimateSize(value[key]);
+	}
+
+	return size;
+};
+
+/** Keeps parsed .dif and .dts files in IndexedDB so that they don't have to be parsed again on the next visit. Files are stored by path along with the hash of their contents, so a changed file gets parsed again. */
+export abstract class AssetCache {
+	/** The index is kept apart from the parsed files so that it can be updated without rewriting them. */
+	static index: Promise<AssetCacheIndex> = null;
+
+	/** The cache only works if there's an IndexedDB to put stuff in and a way to hash the files. The database is opened before any level loads, so this is settled by the time files get parsed. */
+	static get enabled() {
+		return StorageManager.idbOpened && !!globalThis.crypto?.subtle;
+	}
+
+	static getIndex() {
+		if (this.index) return this.index;
+
+		this.index = (async () => {
+			let index = await StorageManager.databaseGet('keyvalue', 'assetCacheIndex') as AssetCacheIndex;
+			if (index?.version === ASSET_CACHE_VERSION) return index;
+
+			// The cached files, if there are any, are from an older version of the parsers
+			await StorageManager.databaseClear('parsedAssets');
+			return { version: ASSET_CACHE_VERSION, entries: {} } as AssetCacheIndex;
+		})();
+		return this.index;
+	}
+
+	static async storeIndex() {
+		await StorageManager.databasePut('keyvalue', await this.getIndex(), 'assetCacheIndex');
+	}
+
+	/** Computes the hash a file is stored with. */
+	static async hash(arrayBuffer: ArrayBuffer) {
+		let digest = await crypto.subtle.digest('SHA-256', arrayBuffer);
+		return [...new Uint8Array(digest)].map(x => x.toString(16).padStart(2, '0')).join('');
+	}
+
+	/** Gets the file parsed from the given path, or null if it isn't cached or the cached version was parsed from different contents. */
+	static async get<T>(path: string, hash: string): Promise<T> {
+		let index = await this.getIndex();
+		if (index.entries[path]?.hash !== hash) return null;
+
+		let stored = await StorageManager.databaseGet('parsedAssets', path);
+		if (stored?.hash !== hash) {
+			// The index got out of sync with the store somehow
+			delete index.entries[path];
+			return null;
+		}
+
+		index.entries[path].lastUsed = Date.now();
+		this.storeIndex();
+
+		return stored.file;
+	}
+
+	/** Puts a parsed file into the cache, evicting the least recently used files if the cache gets too big. */
+	static async put(path: string, hash: string, file: any) {
+		let size = estimateSize(file);
+		if (size > ASSET_CACHE_MAX_SIZE) return;
+
+		let index = await this.getIndex();
+		index.entries[path] = { hash, size, lastUsed: Date.now() };
+
+		let paths = Object.keys(index.entries).sort((a, b) => index.entries[a].lastUsed - index.entries[b].lastUsed);
+		while (this.getSize(index) > ASSET_CACHE_MAX_SIZE) {
+			let evicted = paths.shift();
+			delete index.entries[evicted];
+			StorageManager.databaseDelete('parsedAssets', evicted);
+		}
+
+		await StorageManager.databasePut('parsedAssets', { hash, file }, path);
+		await this.storeIndex();
+	}
+
+	/** Returns how many bytes the cached files take up, roughly. */
+	static getSize(index: AssetCacheIndex) {
+		let size = 0;
+		for (let path in index.entries) size += index.entries[path].size;
+
+		return size;
+	}
+
+	/** Removes all cached files. */
+	static async clear() {
+		let index = await this.getIndex();
+		index.entries = {};
+
+		await StorageManager.databaseClear('parsedAssets');
+		await this.storeIndex();
+	}
+}
\ No newline at end of file
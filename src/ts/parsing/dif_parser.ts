@@ -1,6 +1,5 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { BinaryFileParser, Box3F, SphereF, Point3F, PlaneF } from "./binary_file_parser";
-import { ResourceManager } from "../resources";
 
 const NUM_COORD_BINS = 16;
 
@@ -663,28 +662,4 @@ export class DifParser extends BinaryFileParser {
 
 		return { red, green, blue, alpha };
 	}
-
-	static cachedFiles = new Map<string, Promise<DifFile>>();
-	
-	/** Loads and parses a .dif file. Returns a cached version if already loaded. */
-	static loadFile(path: string) {
-		if (this.cachedFiles.get(path)) return this.cachedFiles.get(path);
-
-		let promise = new Promise<DifFile>(async (resolve) => {
-			let blob = await ResourceManager.loadResource(path);
-			if (!blob) {
-				resolve(null);
-				return;
-			}
-
-			let arrayBuffer = await ResourceManager.readBlobAsArrayBuffer(blob);
-			let parser = new DifParser(arrayBuffer);
-	
-			let result = parser.parse();
-			resolve(result);
-		});
-		this.cachedFiles.set(path, promise);
-
-		return promise;
-	}
 }
\ No newline at end of file
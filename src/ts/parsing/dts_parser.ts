@@ -1,6 +1,5 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { BinaryFileParser, Point2F, Point3F, Box3F } from "./binary_file_parser";
-import { ResourceManager } from "../resources";
 
 export enum MeshType {
 	Standard = 0,
@@ -1107,28 +1106,4 @@ export class DtsParser extends BinaryFileParser {
 			oldAlloc.guard();
 		}
 	}
-
-	static cachedFiles = new Map<string, Promise<DtsFile>>();
-	
-	/** Loads and parses a .dts file. Returns a cached version if already loaded. */
-	static loadFile(path: string) {
-		if (this.cachedFiles.get(path)) return this.cachedFiles.get(path);
-
-		let promise = new Promise<DtsFile>(async (resolve, reject) => {
-			let blob = await ResourceManager.loadResource(path);
-			if (!blob) {
-				reject("Missing resource: " + path);
-				return;
-			}
-			
-			let arrayBuffer = await ResourceManager.readBlobAsArrayBuffer(blob);
-			let parser = new DtsParser(arrayBuffer);
-	
-			let result = parser.parse();
-			resolve(result);
-		});
-		this.cachedFiles.set(path, promise);
-
-		return promise;
-	}
 }
\ No newline at end of file
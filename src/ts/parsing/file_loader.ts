@@ -0,0 +1,109 @@
+import { ResourceManager } from "../resources";
+import { executeOnWorker } from "../worker";
+import { DifFile, DifParser } from "./dif_parser";
+import { DtsFile, DtsParser } from "./dts_parser";
+import { MisFile, MisParser } from "./mis_parser";
+import { AssetCache } from "./asset_cache";
+
+/** There's no worker when running headless, in which case files are parsed right away. */
+const canUseWorker = typeof Worker !== 'undefined';
+
+/** Loads and parses .dif, .dts and .mis files. Parsing big files takes a while, so it happens on the worker to keep the main thread responsive. */
+export abstract class FileLoader {
+	static cachedDifFiles = new Map<string, Promise<DifFile>>();
+	static cachedDtsFiles = new Map<string, Promise<DtsFile>>();
+	static cachedMisFiles = new Map<string, Promise<MisFile>>();
+
+	/** Parses the contents of a .dif file. The array buffer can't be used anymore afterwards. */
+	static parseDif(arrayBuffer: ArrayBuffer): Promise<DifFile> {
+		if (!canUseWorker) return Promise.resolve(new DifParser(arrayBuffer).parse());
+		return executeOnWorker('parseDif', arrayBuffer, [arrayBuffer]);
+	}
+
+	/** Parses the contents of a .dts file. The array buffer can't be used anymore afterwards. */
+	static parseDts(arrayBuffer: ArrayBuffer): Promise<DtsFile> {
+		if (!canUseWorker) return Promise.resolve(new DtsParser(arrayBuffer).parse());
+		return executeOnWorker('parseDts', arrayBuffer, [arrayBuffer]);
+	}
+
+	/** Parses the text of a .mis file. */
+	static parseMis(text: string): Promise<MisFile> {
+		if (!canUseWorker) return Promise.resolve(new MisParser(text).parse());
+		return executeOnWorker('parseMis', text);
+	}
+
+	/** Parses a binary file, unless it's in the asset cache already. */
+	static async parseCached<T>(path: string, arrayBuffer: ArrayBuffer, parse: (arrayBuffer: ArrayBuffer) => Promise<T>) {
+		if (!AssetCache.enabled) return parse(arrayBuffer);
+
+		let hash: string;
+		try {
+			hash = await AssetCache.hash(arrayBuffer);
+			let cached = await AssetCache.get<T>(path, hash);
+			if (cached) return cached;
+		} catch (e) {
+			// The cache is only there to speed things up, so just parse the file if it fails
+			console.error("Couldn't look up " + path + " in the cache", e);
+			return parse(arrayBuffer);
+		}
+
+		let result = await parse(arrayBuffer);
+		AssetCache.put(path, hash, result).catch(e => console.error("Couldn't cache " + path, e)); // Loading doesn't need to wait for this
+
+		return result;
+	}
+
+	/** Loads and parses a .dif file. Returns a cached version if already loaded. */
+	static loadDif(path: string) {
+		if (this.cachedDifFiles.get(path)) return this.cachedDifFiles.get(path);
+
+		let promise = (async () => {
+			let blob = await ResourceManager.loadResource(path);
+			if (!blob) return null;
+
+			let arrayBuffer = await ResourceManager.readBlobAsArrayBuffer(blob);
+			return await this.parseCached(path, arrayBuffer, x => this.parseDif(x));
+		})();
+
+		return this.cache(this.cachedDifFiles, path, promise);
+	}
+
+	/** Loads and parses a .dts file. Returns a cached version if already loaded. */
+	static loadDts(path: string) {
+		if (this.cachedDtsFiles.get(path)) return this.cachedDtsFiles.get(path);
+
+		let promise = (async () => {
+			let blob = await ResourceManager.loadResource(path);
+			if (!blob) throw new Error("Missing resource: " + path);
+
+			let arrayBuffer = await ResourceManager.readBlobAsArrayBuffer(blob);
+			return await this.parseCached(path, arrayBuffer, x => this.parseDts(x));
+		})();
+
+		return this.cache(this.cachedDtsFiles, path, promise);
+	}
+
+	/** Loads and parses a .mis file. Returns a cached version if already loaded. */
+	static loadMis(path: string) {
+		if (this.cachedMisFiles.get(path)) return this.cachedMisFiles.get(path);
+
+		let promise = (async () => {
+			let blob = await ResourceManager.loadResource(path);
+			let text = await ResourceManager.readBlobAsText(blob);
+
+			return await this.parseMis(text);
+		})();
+
+		return this.cache(this.cachedMisFiles, path, promise);
+	}
+
+	/** Stores the promise of a file that's being loaded, so that loading it again waits for the same result. If loading fails, the file is removed from the cache again so it can be retried. */
+	static cache<T>(map: Map<string, Promise<T>>, path: string, promise: Promise<T>) {
+		map.set(path, promise);
+		promise.catch(() => {
+			if (map.get(path) === promise) map.delete(path);
+		});
+
+		return promise;
+	}
+}
\ No newline at end of file
@@ -1,6 +1,4 @@
 import THREE from "three";
-import { ResourceManager } from "../resources";
-import { Util } from "../util";
 
 export interface MisFile {
 	root: MissionElementSimGroup,
@@ -85,6 +83,10 @@ export interface MissionElementScriptObject extends MissionElementBase {
 	awesomescore: any
 	awesomescore0: any
 	awesomescore1: any
+
+	radiusfromgem?: string,
+	maxgemsperspawn?: string,
+	spawnblock?: string
 }
 
 export interface MissionElementMissionArea extends MissionElementBase {
@@ -357,8 +359,8 @@ export class MisParser {
 			let lineMatch = lineCommentRegEx.exec(this.text);
 
 			// The detected "comment" might be inside a string literal, in which case we ignore it 'cause it ain't no comment.
-			if (blockMatch && Util.indexIsInStringLiteral(this.text, blockMatch.index)) blockMatch = null;
-			if (lineMatch && Util.indexIsInStringLiteral(this.text, lineMatch.index)) lineMatch = null;
+			if (blockMatch && MisParser.indexIsInStringLiteral(this.text, blockMatch.index)) blockMatch = null;
+			if (lineMatch && MisParser.indexIsInStringLiteral(this.text, lineMatch.index)) lineMatch = null;
 
 			if (!blockMatch && !lineMatch) break;
 			else if (!lineMatch || (blockMatch && lineMatch && blockMatch.index < lineMatch.index)) {
@@ -428,7 +430,7 @@ export class MisParser {
 			default: {
 				console.warn("Unknown element type! " + type);
 				// Still advance the index
-				let endingBraceIndex = Util.indexOfIgnoreStringLiterals(this.text, '};', this.index);
+				let endingBraceIndex = MisParser.indexOfIgnoreStringLiterals(this.text, '};', this.index);
 				if (endingBraceIndex === -1) endingBraceIndex = this.text.length;
 				this.index = endingBraceIndex + 2;
 			}
@@ -444,7 +446,7 @@ export class MisParser {
 		let head = elementHeadRegEx.exec(this.text);
 
 		if (!head) return false;
-		if (Util.indexOfIgnoreStringLiterals(this.text.slice(this.index, head.index), '}') !== -1) return false;
+		if (MisParser.indexOfIgnoreStringLiterals(this.text.slice(this.index, head.index), '}') !== -1) return false;
 		return true;
 	}
 
@@ -461,7 +463,7 @@ export class MisParser {
 
 			let index = Math.min(head?.index, keyValue?.index);
 			if (!isFinite(index)) break;
-			if (Util.indexOfIgnoreStringLiterals(this.text.slice(this.index, index), '}') !== -1) break;
+			if (MisParser.indexOfIgnoreStringLiterals(this.text.slice(this.index, index), '}') !== -1) break;
 
 			if (index === head?.index) {
 				let element = this.readElement();
@@ -473,7 +475,7 @@ export class MisParser {
 			}
 		}
 
-		let endingBraceIndex = Util.indexOfIgnoreStringLiterals(this.text, '};', this.index);
+		let endingBraceIndex = MisParser.indexOfIgnoreStringLiterals(this.text, '};', this.index);
 		if (endingBraceIndex === -1) endingBraceIndex = this.text.length;
 		this.index = endingBraceIndex + 2;
 
@@ -490,10 +492,10 @@ export class MisParser {
 	readValues() {
 		// Values are either strings or string arrays.
 		let obj: Record<string, string | string[]> = {};
-		let endingBraceIndex = Util.indexOfIgnoreStringLiterals(this.text, '};', this.index);
+		let endingBraceIndex = MisParser.indexOfIgnoreStringLiterals(this.text, '};', this.index);
 		if (endingBraceIndex === -1) endingBraceIndex = this.text.length;
 		let section = this.text.slice(this.index, endingBraceIndex).trim();
-		let statements = Util.splitIgnoreStringLiterals(section, ';').map(x => x.trim()); // Get a list of all statements
+		let statements = MisParser.splitIgnoreStringLiterals(section, ';').map(x => x.trim()); // Get a list of all statements
 
 		for (let statement of statements) {
 			if (!statement) continue;
@@ -523,14 +525,14 @@ export class MisParser {
 
 	/** Resolves a TorqueScript rvalue expression. Currently only supports the concatenation @ operator. */
 	resolveExpression(expr: string) {
-		let parts = Util.splitIgnoreStringLiterals(expr, '@').map(x => {
+		let parts = MisParser.splitIgnoreStringLiterals(expr, '@').map(x => {
 			x = x.trim();
 
 			if (x.startsWith('$') && this.variables[x] !== undefined) {
 				// Replace the variable with its value
 				x = this.resolveExpression(this.variables[x]);
 			} else if (x.startsWith('"') && x.endsWith('"')) {
-				x = Util.unescape(x.slice(1, -1)); // It's a string literal, so remove " "
+				x = MisParser.unescape(x.slice(1, -1)); // It's a string literal, so remove " "
 			}
 
 			return x;
@@ -646,22 +648,6 @@ export class MisParser {
 		}, this.readValues()) as unknown as MissionElementParticleEmitterNode;
 	}
 
-	static cachedFiles = new Map<string, MisFile>();
-	
-	/** Loads and parses a .mis file. Returns a cached version if already loaded. */
-	static async loadFile(path: string) {
-		if (this.cachedFiles.get(path)) return this.cachedFiles.get(path);
-
-		let blob = await ResourceManager.loadResource(path);
-		let text = await ResourceManager.readBlobAsText(blob);
-		let parser = new MisParser(text);
-		
-		let result = parser.parse();
-		this.cachedFiles.set(path, result);
-
-		return result;
-	}
-
 	/** Parses a 3-component vector from a string of three numbers. */
 	static parseVector3(string: string) {
 		if (!string) return new THREE.Vector3();
@@ -691,7 +677,7 @@ export class MisParser {
 
 		let quaternion = new THREE.Quaternion();
 		// The first 3 values represent the axis to rotate on, the last represents the negative angle in degrees.
-		quaternion.setFromAxisAngle(new THREE.Vector3(parts[0], parts[1], parts[2]), -Util.degToRad(parts[3]));
+		quaternion.setFromAxisAngle(new THREE.Vector3(parts[0], parts[1], parts[2]), -THREE.MathUtils.degToRad(parts[3]));
 
 		return quaternion;
 	}
@@ -742,6 +728,117 @@ export class MisParser {
 		if (string === "0") return false;
 		return true;
 	}
+
+	/** Splits a string like String.prototype.split, but ignores the splitter if it appears inside string literal tokens. */
+	static splitIgnoreStringLiterals(str: string, splitter: string, strLiteralToken = '"') {
+		let indices: number[] = [];
+
+		let inString = false;
+		for (let i = 0; i < str.length; i++) {
+			let c = str[i];
+
+			if (inString) {
+				if (c === strLiteralToken && str[i-1] !== '\\') inString = false;
+				continue;
+			}
+
+			if (c === strLiteralToken) inString = true;
+			else if (c === splitter) indices.push(i);
+		}
+
+		let parts: string[] = [];
+		let remaining = str;
+
+		for (let i = 0; i < indices.length; i++) {
+			let index = indices[i] - (str.length - remaining.length);
+			let part = remaining.slice(0, index);
+			remaining = remaining.slice(index + 1);
+			parts.push(part);
+		}
+		parts.push(remaining);
+
+		return parts;
+	}
+
+	/** Gets the index of a substring like String.prototype.indexOf, but only if that index lies outside of string literals. */
+	static indexOfIgnoreStringLiterals(str: string, searchString: string, position = 0, strLiteralToken = '"') {
+		let inString = false;
+		for (let i = position; i < str.length; i++) {
+			let c = str[i];
+
+			if (inString) {
+				if (c === strLiteralToken && str[i-1] !== '\\') inString = false;
+				continue;
+			}
+
+			if (c === strLiteralToken) inString = true;
+			else if (str.startsWith(searchString, i)) return i;
+		}
+
+		return -1;
+	}
+
+	/** Returns true iff the supplied index is part of a string literal. */
+	static indexIsInStringLiteral(str: string, index: number, strLiteralToken = '"') {
+		let inString = false;
+		for (let i = 0; i < str.length; i++) {
+			let c = str[i];
+
+			if (inString) {
+				if (i === index) return true;
+				if (c === strLiteralToken && str[i-1] !== '\\') inString = false;
+				continue;
+			}
+
+			if (c === strLiteralToken) inString = true;
+		}
+
+		return false;
+	}
+
+	/** Unescapes escaped (\) characters. */
+	static unescape(str: string) {
+		let cEscapeRegex = /(^|[^\\])\\x([0-9a-f]{2})/gi; // Matches \xhh
+		let match: RegExpExecArray = null;
+
+		while ((match = cEscapeRegex.exec(str)) !== null) {
+			let code = Number.parseInt(match[2], 16);
+			let char = this.macRomanToUtf8(code); // DUMB
+			str = str.slice(0, match.index) + match[1] + char + str.slice(match.index + match[0].length); // match[1] is "negative lookbehind"
+
+			cEscapeRegex.lastIndex -= 3;
+		}
+
+		let regex = /\\(.)/g;
+		let specialCases: Record<string, string> = {
+			'\\': '\\',
+			't': '\t',
+			'v': '\v',
+			'0': '\0',
+			'f': '\f',
+			'n': '\n',
+			'r': '\r'
+		};
+
+		while ((match = regex.exec(str)) !== null) {
+			let replaceWith: string;
+
+			if (specialCases[match[1]]) replaceWith = specialCases[match[1]];
+			else replaceWith = match[1];
+
+			str = str.slice(0, match.index) + replaceWith + str.slice(match.index + match[0].length);
+			regex.lastIndex--;
+		}
+
+		return str;
+	}
+
+	static macRomanToUtf8Map = ['Ä', 'Å', 'Ç', 'É', 'Ñ', 'Ö', 'Ü', 'á', 'à', 'â', 'ä', 'ã', 'å', 'ç', 'é', 'è', 'ê', 'ë', 'í', 'ì', 'î', 'ï', 'ñ', 'ó', 'ò', 'ô', 'ö', 'õ', 'ú', 'ù', 'û', 'ü', '†', '°', '¢', '£', '§', '•', '¶', 'ß', '®', '©', '™', '´', '¨', '≠', 'Æ', 'Ø', '∞', '±', '≤', '≥', '¥', 'µ', '∂', '∑', '∏', 'π', '∫', 'ª', 'º', 'Ω', 'æ', 'ø', '¿', '¡', '¬', '√', 'ƒ', '≈', '∆', '«', '»', '…', ' ', 'À', 'Ã', 'Õ', 'Œ', 'œ', '–', '—', '“', '”', '‘', '’', '÷', '◊', 'ÿ', 'Ÿ', '⁄', '€', '‹', '›', 'ﬁ', 'ﬂ', '‡', '·', '‚', '„', '‰', 'Â', 'Ê', 'Á', 'Ë', 'È', 'Í', 'Î', 'Ï', 'Ì', 'Ó', 'Ô', '🍎', 'Ò', 'Ú', 'Û', 'Ù', 'ı', 'ˆ', '˜', '¯', '˘', '˙', '˚', '¸', '˝', '˛', 'ˇ'];
+	/** Some fonts were apparently compiled on Mac and use this encoding instead of something sensible. Stupid. */
+	static macRomanToUtf8(char: number) {
+		if (char < 128) return String.fromCharCode(char);
+		else return this.macRomanToUtf8Map[char - 128];
+	}
 }
 
 /** The source string, taken from PQ, where all default frictions and materials are defined. */
@@ -0,0 +1,9 @@
+import { DifParser } from "./parsing/dif_parser";
+import { DtsParser } from "./parsing/dts_parser";
+import { MisParser } from "./parsing/mis_parser";
+
+// This is the entry point of the bundle the worker loads in order to parse files off the main thread. Keep its imports free of anything touching the DOM.
+
+export const parseDif = (arrayBuffer: ArrayBuffer) => new DifParser(arrayBuffer).parse();
+export const parseDts = (arrayBuffer: ArrayBuffer) => new DtsParser(arrayBuffer).parse();
+export const parseMis = (text: string) => new MisParser(text).parse();
\ No newline at end of file
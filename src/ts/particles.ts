@@ -391,6 +391,8 @@ export class ParticleEmitter {
 
 	/** Emit a single particle. */
 	emit(time: number) {
+		if (this.manager.level.headless) return; // Particles are purely visual
+
 		this.lastEmitTime = time;
 		this.currentWaitPeriod = this.o.ejectionPeriod;
 
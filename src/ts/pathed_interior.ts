@@ -100,7 +100,7 @@ export class PathedInterior extends Interior {
 		}
 
 		// Create a sound effect if so specified
-		if (this.element.datablock?.toLowerCase() === 'pathedmovingblock') {
+		if (this.element.datablock?.toLowerCase() === 'pathedmovingblock' && !this.level.headless) {
 			this.soundPosition = new THREE.Vector3(); // This position will be modified
 			this.soundSource = AudioManager.createAudioSource('movingblockloop.wav', AudioManager.soundGain, this.soundPosition);
 			this.soundSource.setLoop(true);
@@ -407,7 +407,28 @@ export class PhysicsHelper {
 		}
 	}
 
+	/** Adds all bodies to the physics worlds again, in the order of the mission file. The order affects the simulation ever so slightly, but the objects of a level load asynchronously and get added in a different order every time. Adding them again also gets rid of everything the worlds remember from before, like contacts and the layout of the broadphase. Together, this makes every attempt come out exactly the same given the same input, which replays rely on. */
+	rebuildWorlds() {
+		let order = new Map<OIMO.RigidBody, number>();
+		for (let interior of this.level.interiors) order.set(interior.body, interior.id);
+		for (let shape of this.level.shapes) {
+			for (let body of shape.bodies) order.set(body, shape.id);
+			for (let collider of shape.colliders) order.set(collider.body, shape.id);
+		}
+		for (let trigger of this.level.triggers) order.set(trigger.body, trigger.id);
+
+		for (let world of [this.world, this.auxWorld]) {
+			let bodies: OIMO.RigidBody[] = [];
+			for (let body = world.getRigidBodyList(); body; body = body.getNext()) bodies.push(body);
+			bodies.sort((a, b) => (order.get(a) ?? -1) - (order.get(b) ?? -1)); // The marble isn't in there, so it stays first
+
+			for (let body of bodies) world.removeRigidBody(body);
+			for (let body of bodies) world.addRigidBody(body);
+		}
+	}
+
 	reset() {
+		this.rebuildWorlds();
 		this.objectImmunity.clear();
 		this.shapeOrTriggerInside.clear();
 	}
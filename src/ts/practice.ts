@@ -0,0 +1,270 @@
+import * as THREE from "three";
+import OIMO from "./declarations/oimo";
+import { Level, TimeState } from "./level";
+import { Shape } from "./shape";
+import { Interior } from "./interior";
+import { PathedInterior } from "./pathed_interior";
+import { Trigger } from "./triggers/trigger";
+import { CheckpointTrigger } from "./triggers/checkpoint_trigger";
+import { TeleportTrigger } from "./triggers/teleport_trigger";
+import { Gem } from "./shapes/gem";
+import { PowerUp } from "./shapes/power_up";
+import { RandomPowerUp } from "./shapes/random_power_up";
+import { TrapDoor } from "./shapes/trap_door";
+import { LandMine } from "./shapes/land_mine";
+import { PushButton } from "./shapes/push_button";
+import { Nuke } from "./shapes/nuke";
+import { Split } from "./storage";
+import { Util } from "./util";
+
+/** A snapshot of everything that changes while playing a level, so that the player can jump back to it at will in practice mode. */
+export class PracticeState {
+	timeState: TimeState;
+	currentTimeTravelBonus: number;
+	yaw: number;
+	pitch: number;
+	currentUp: OIMO.Vec3;
+	orientationChangeTime: number;
+	oldOrientationQuat: THREE.Quaternion;
+	newOrientationQuat: THREE.Quaternion;
+	gravity: OIMO.Vec3;
+	heldPowerUp: PowerUp;
+	gemCount: number;
+	huntScore: number;
+	huntSpawnCenter: Gem;
+	huntSpawnCount: number;
+	blastAmount: number;
+	splits: Split[];
+
+	currentCheckpoint: Shape;
+	currentCheckpointTrigger: CheckpointTrigger;
+	checkpointCollectedGems: Set<Gem>;
+	checkpointHeldPowerUp: PowerUp;
+	checkpointUp: OIMO.Vec3;
+	checkpointBlast: number;
+	checkpointSplitCount: number;
+
+	marble: {
+		position: OIMO.Vec3,
+		orientation: OIMO.Quat,
+		linearVelocity: OIMO.Vec3,
+		angularVelocity: OIMO.Vec3,
+		radius: number,
+		superBounceEnableTime: number,
+		shockAbsorberEnableTime: number,
+		helicopterEnableTime: number,
+		megaMarbleEnableTime: number,
+		teleportEnableTime: number,
+		teleportDisableTime: number,
+		lastContactNormal: OIMO.Vec3,
+		lastVel: OIMO.Vec3,
+		lastAngVel: OIMO.Vec3,
+		collisionTimeout: number,
+		slidingTimeout: number
+	};
+	objectImmunity: Set<Shape | Interior>;
+	shapeOrTriggerInside: Set<Shape | Trigger>;
+
+	/** For each shape, the values that make up its state. Times relative to timeSinceLoad are stored as-is and shifted when loading. */
+	shapeStates = new Map<Shape, Record<string, any>>();
+	interiorStates = new Map<PathedInterior, {
+		currentTime: number,
+		targetTime: number,
+		changeTime: number,
+		prevPosition: THREE.Vector3,
+		currentPosition: THREE.Vector3
+	}>();
+	teleportTriggerStates = new Map<TeleportTrigger, {
+		entryTime: number,
+		exitTime: number
+	}>();
+
+	/** Takes a snapshot of the level as it is right now. */
+	static save(level: Level) {
+		let state = new PracticeState();
+		let marble = level.marble;
+
+		state.timeState = Util.jsonClone(level.timeState);
+		state.currentTimeTravelBonus = level.currentTimeTravelBonus;
+		state.yaw = level.yaw;
+		state.pitch = level.pitch;
+		state.currentUp = level.currentUp.clone();
+		state.orientationChangeTime = level.orientationChangeTime;
+		state.oldOrientationQuat = level.oldOrientationQuat.clone();
+		state.newOrientationQuat = level.newOrientationQuat.clone();
+		state.gravity = level.physics.world.getGravity().clone();
+		state.heldPowerUp = level.heldPowerUp;
+		state.gemCount = level.gemCount;
+		state.huntScore = level.huntScore;
+		state.huntSpawnCenter = level.huntSpawnCenter;
+		state.huntSpawnCount = level.huntSpawnCount;
+		state.blastAmount = level.blastAmount;
+		state.splits = level.splits.slice();
+
+		state.currentCheckpoint = level.currentCheckpoint;
+		state.currentCheckpointTrigger = level.currentCheckpointTrigger;
+		state.checkpointCollectedGems = new Set(level.checkpointCollectedGems);
+		state.checkpointHeldPowerUp = level.checkpointHeldPowerUp;
+		state.checkpointUp = level.checkpointUp?.clone() ?? null;
+		state.checkpointBlast = level.checkpointBlast;
+		state.checkpointSplitCount = level.checkpointSplitCount;
+
+		state.marble = {
+			position: marble.body.getPosition(),
+			orientation: marble.body.getOrientation(),
+			linearVelocity: marble.body.getLinearVelocity(),
+			angularVelocity: marble.body.getAngularVelocity(),
+			radius: marble.radius,
+			superBounceEnableTime: marble.superBounceEnableTime,
+			shockAbsorberEnableTime: marble.shockAbsorberEnableTime,
+			helicopterEnableTime: marble.helicopterEnableTime,
+			megaMarbleEnableTime: marble.megaMarbleEnableTime,
+			teleportEnableTime: marble.teleportEnableTime,
+			teleportDisableTime: marble.teleportDisableTime,
+			lastContactNormal: marble.lastContactNormal.clone(),
+			lastVel: marble.lastVel.clone(),
+			lastAngVel: marble.lastAngVel.clone(),
+			collisionTimeout: marble.collisionTimeout,
+			slidingTimeout: marble.slidingTimeout
+		};
+		state.objectImmunity = new Set(level.physics.objectImmunity);
+		state.shapeOrTriggerInside = new Set(level.physics.shapeOrTriggerInside);
+
+		for (let shape of level.shapes) {
+			if (shape instanceof Gem) {
+				state.shapeStates.set(shape, { pickedUp: shape.pickedUp });
+			} else if (shape instanceof PowerUp) {
+				let values: Record<string, any> = { lastPickUpTime: shape.lastPickUpTime };
+				if (shape instanceof RandomPowerUp) {
+					values.pickedUpCount = shape.pickedUpCount;
+					values.lastInstance = shape.lastInstance;
+				}
+				state.shapeStates.set(shape, values);
+			} else if (shape instanceof TrapDoor) {
+				state.shapeStates.set(shape, {
+					lastContactTime: shape.lastContactTime,
+					lastDirection: shape.lastDirection,
+					lastCompletion: shape.lastCompletion
+				});
+			} else if (shape instanceof LandMine || shape instanceof Nuke) {
+				state.shapeStates.set(shape, { disappearTime: shape.disappearTime });
+			} else if (shape instanceof PushButton) {
+				state.shapeStates.set(shape, { lastContactTime: shape.lastContactTime });
+			}
+		}
+
+		for (let interior of level.interiors) {
+			if (!(interior instanceof PathedInterior)) continue;
+
+			state.interiorStates.set(interior, {
+				currentTime: interior.currentTime,
+				targetTime: interior.targetTime,
+				changeTime: interior.changeTime,
+				prevPosition: interior.prevPosition.clone(),
+				currentPosition: interior.currentPosition.clone()
+			});
+		}
+
+		for (let trigger of level.triggers) {
+			if (!(trigger instanceof TeleportTrigger)) continue;
+
+			state.teleportTriggerStates.set(trigger, {
+				entryTime: trigger.entryTime,
+				exitTime: trigger.exitTime
+			});
+		}
+
+		return state;
+	}
+
+	/** Puts the level back into the state of this snapshot. */
+	load(level: Level) {
+		let marble = level.marble;
+		// The time since load can't go backwards (the rendering relies on it), so everything based on it needs to be shifted instead
+		let timeSinceLoadShift = level.timeState.timeSinceLoad - this.timeState.timeSinceLoad;
+
+		level.timeState.currentAttemptTime = this.timeState.currentAttemptTime;
+		level.timeState.gameplayClock = this.timeState.gameplayClock;
+		level.maxDisplayedTime = this.timeState.gameplayClock;
+		level.currentTimeTravelBonus = this.currentTimeTravelBonus;
+		level.yaw = this.yaw;
+		level.pitch = this.pitch;
+		level.currentUp = this.currentUp.clone();
+		level.orientationChangeTime = this.orientationChangeTime;
+		level.oldOrientationQuat = this.oldOrientationQuat.clone();
+		level.newOrientationQuat = this.newOrientationQuat.clone();
+		level.physics.world.setGravity(this.gravity.clone());
+		level.gemCount = this.gemCount;
+		level.huntScore = this.huntScore;
+		level.huntSpawnCenter = this.huntSpawnCenter;
+		level.huntSpawnCount = this.huntSpawnCount;
+		level.blastAmount = this.blastAmount;
+		level.splits = this.splits.slice();
+
+		level.currentCheckpoint = this.currentCheckpoint;
+		level.currentCheckpointTrigger = this.currentCheckpointTrigger;
+		level.checkpointCollectedGems = new Set(this.checkpointCollectedGems);
+		level.checkpointHeldPowerUp = this.checkpointHeldPowerUp;
+		level.checkpointUp = this.checkpointUp?.clone() ?? null;
+		level.checkpointBlast = this.checkpointBlast;
+		level.checkpointSplitCount = this.checkpointSplitCount;
+
+		marble.setRadius(this.marble.radius);
+		marble.body.setPosition(this.marble.position.clone());
+		marble.body.setOrientation(this.marble.orientation.clone());
+		marble.body.setLinearVelocity(this.marble.linearVelocity.clone());
+		marble.body.setAngularVelocity(this.marble.angularVelocity.clone());
+		marble.superBounceEnableTime = this.marble.superBounceEnableTime;
+		marble.shockAbsorberEnableTime = this.marble.shockAbsorberEnableTime;
+		marble.helicopterEnableTime = this.marble.helicopterEnableTime;
+		marble.megaMarbleEnableTime = this.marble.megaMarbleEnableTime;
+		marble.teleportEnableTime = this.marble.teleportEnableTime;
+		marble.teleportDisableTime = this.marble.teleportDisableTime;
+		marble.lastContactNormal = this.marble.lastContactNormal.clone();
+		marble.lastVel = this.marble.lastVel.clone();
+		marble.lastAngVel = this.marble.lastAngVel.clone();
+		marble.collisionTimeout = this.marble.collisionTimeout;
+		marble.slidingTimeout = this.marble.slidingTimeout;
+		marble.calculatePredictiveTransforms();
+		level.physics.objectImmunity = new Set(this.objectImmunity);
+		level.physics.shapeOrTriggerInside = new Set(this.shapeOrTriggerInside);
+
+		for (let [shape, values] of this.shapeStates) {
+			if (shape instanceof Gem) {
+				shape.pickedUp = values.pickedUp;
+				shape.setOpacity(Number(!values.pickedUp));
+			} else if (shape instanceof PowerUp) {
+				shape.lastPickUpTime = values.lastPickUpTime;
+				if (shape instanceof RandomPowerUp) {
+					shape.pickedUpCount = values.pickedUpCount;
+					shape.lastInstance = values.lastInstance;
+				}
+			} else if (shape instanceof TrapDoor) {
+				shape.lastContactTime = values.lastContactTime + timeSinceLoadShift;
+				shape.lastDirection = values.lastDirection;
+				shape.lastCompletion = values.lastCompletion;
+			} else if (shape instanceof LandMine || shape instanceof Nuke) {
+				shape.disappearTime = values.disappearTime + timeSinceLoadShift;
+			} else if (shape instanceof PushButton) {
+				shape.lastContactTime = values.lastContactTime + timeSinceLoadShift;
+			}
+		}
+
+		for (let [interior, values] of this.interiorStates) {
+			interior.currentTime = values.currentTime;
+			interior.targetTime = values.targetTime;
+			interior.changeTime = values.changeTime;
+			interior.prevPosition.copy(values.prevPosition);
+			interior.currentPosition = values.currentPosition.clone();
+			interior.updatePosition();
+		}
+
+		for (let [trigger, values] of this.teleportTriggerStates) {
+			trigger.entryTime = values.entryTime;
+			trigger.exitTime = values.exitTime;
+		}
+
+		level.deselectPowerUp();
+		if (this.heldPowerUp) level.pickUpPowerUp(this.heldPowerUp, false);
+	}
+}
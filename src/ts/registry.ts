@@ -0,0 +1,54 @@
+import { Level } from "./level";
+import { Shape } from "./shape";
+import { Trigger } from "./triggers/trigger";
+import { MissionElementItem, MissionElementStaticShape, MissionElementTrigger } from "./parsing/mis_parser";
+
+export type ShapeFactory = (element: MissionElementStaticShape | MissionElementItem, level: Level) => Shape;
+export type TriggerFactory = (element: MissionElementTrigger, level: Level) => Trigger;
+
+/** Describes which datablocks something handles. All names are lowercase. */
+export interface DatablockMatcher {
+	/** Datablock names that match exactly. */
+	names?: string[],
+	/** Datablocks starting with any of these match. */
+	prefixes?: string[],
+	pattern?: RegExp
+}
+
+/** Maps datablock names to factories creating the objects that handle them. Exact names take precedence over prefixes, of which the longest one wins, which in turn take precedence over patterns. Registering a datablock again overrides what was there before. */
+export class DatablockRegistry<F> {
+	exact = new Map<string, F>();
+	prefixes = new Map<string, F>();
+	patterns: { pattern: RegExp, factory: F }[] = [];
+
+	register(matcher: DatablockMatcher, factory: F) {
+		for (let name of matcher.names ?? []) this.exact.set(name.toLowerCase(), factory);
+		for (let prefix of matcher.prefixes ?? []) this.prefixes.set(prefix.toLowerCase(), factory);
+		if (matcher.pattern) this.patterns.unshift({ pattern: matcher.pattern, factory });
+	}
+
+	/** Gets the factory for a datablock, or null if nothing handles it. */
+	get(datablock: string) {
+		if (!datablock) return null;
+		let lowerCase = datablock.toLowerCase();
+
+		let factory = this.exact.get(lowerCase);
+		if (factory) return factory;
+
+		let longestPrefix = '';
+		for (let [prefix, prefixFactory] of this.prefixes) {
+			if (lowerCase.startsWith(prefix) && prefix.length > longestPrefix.length) {
+				longestPrefix = prefix;
+				factory = prefixFactory;
+			}
+		}
+		if (factory) return factory;
+
+		return this.patterns.find(x => x.pattern.test(lowerCase))?.factory ?? null;
+	}
+}
+
+/** The shapes that can be created from StaticShape and Item elements. */
+export const shapeRegistry = new DatablockRegistry<ShapeFactory>();
+/** The triggers that can be created from Trigger elements. */
+export const triggerRegistry = new DatablockRegistry<TriggerFactory>();
\ No newline at end of file
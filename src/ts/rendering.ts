@@ -2,7 +2,7 @@ import * as THREE from "three";
 import { StorageManager } from "./storage";
 import { Util } from "./util";
 
-export const mainCanvas = document.querySelector('#main-canvas') as HTMLCanvasElement;
+export let mainCanvas: HTMLCanvasElement;
 
 const MIN_WIDTH = 640;
 const MIN_HEIGHT = 600;
@@ -34,17 +34,15 @@ export const resize = async (wait = true) => {
 	orthographicCamera.bottom = window.innerHeight;
 	orthographicCamera.updateProjectionMatrix();
 };
-window.addEventListener('resize', resize as any);
 
-export const renderer = new THREE.WebGLRenderer({ canvas: mainCanvas, antialias: false, logarithmicDepthBuffer: !Util.isIOS() }); // Just so much better with logarithmic. Doesn't seem to work on iOS so disable it there
-renderer.shadowMap.enabled = true;
+export let renderer: THREE.WebGLRenderer;
 
 /** Main camera. */
-export const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.01);
+export const camera = new THREE.PerspectiveCamera(60, 1, 0.01); // Aspect will be set on resize
 camera.up.set(0, 0, 1);
 
 /** Used for rendering the HUD overlay. */
-export const orthographicCamera = new THREE.OrthographicCamera(-window.innerWidth/2, window.innerWidth/2, -window.innerHeight/2, window.innerHeight/2, 0.1, 100000);
+export const orthographicCamera = new THREE.OrthographicCamera(0, 1, 0, 1, 0.1, 100000); // Bounds will be set on resize
 orthographicCamera.up.set(0, 0, -1);
 orthographicCamera.lookAt(new THREE.Vector3(1, 0, 0));
 
@@ -58,4 +56,12 @@ export const marbleReflectionRenderTarget = new THREE.WebGLRenderTarget(dim, dim
 });
 export const marbleReflectionCamera = new THREE.PerspectiveCamera(150, 1, 0.05, 1000); // Far will be updated on le fly
 
-resize();
\ No newline at end of file
+/** Creates the renderer on the main canvas. Needs to be called once before anything can be rendered. */
+export const initRendering = () => {
+	mainCanvas = document.querySelector('#main-canvas') as HTMLCanvasElement;
+	renderer = new THREE.WebGLRenderer({ canvas: mainCanvas, antialias: false, logarithmicDepthBuffer: !Util.isIOS() }); // Just so much better with logarithmic. Doesn't seem to work on iOS so disable it there
+	renderer.shadowMap.enabled = true;
+
+	window.addEventListener('resize', resize as any);
+	resize();
+};
\ No newline at end of file
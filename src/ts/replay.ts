@@ -1,4 +1,4 @@
-import { Level, TimeState, PHYSICS_TICK_RATE } from "./level";
+import { Level, TimeState, PHYSICS_TICK_RATE, TickInput, SIMULATION_CHUNK_DURATION } from "./level";
 import OIMO from "./declarations/oimo";
 import { PowerUp } from "./shapes/power_up";
 import { Shape } from "./shape";
@@ -11,16 +11,31 @@ import { PushButton } from "./shapes/push_button";
 import { Mission } from "./mission";
 import { Interior } from "./interior";
 import { Nuke } from "./shapes/nuke";
+import { AudioManager } from "./audio";
+
+/** Replays starting from this version store the player's inputs instead of the marble's state. */
+const FIRST_INPUT_BASED_VERSION = 5;
+/** Starting with this version, leaving the mission area sends the marble out of bounds. Older replays are played back without that so they stay in sync. */
+const FIRST_MISSION_AREA_VERSION = 6;
+/** Starting with this version, triggers have the exact shape of their polyhedron instead of its bounding box. */
+const FIRST_EXACT_TRIGGER_VERSION = 7;
+
+/** The bits used to store which buttons were pressed in a tick. */
+enum ReplayButton {
+	Jump = 1 << 0,
+	Use = 1 << 1,
+	Blast = 1 << 2
+}
 
-/** Stores everything necessary for a correct replay of a playthrough. Instead of relying on replaying player inputs, the replay simply stores all necessary state. */
+/** Stores everything necessary for a correct replay of a playthrough. Older versions simply store all necessary state, while newer ones store the player's inputs and re-simulate the playthrough on playback. */
 export class Replay {
 	level: Level;
 	missionPath: string;
-	version = 4;
+	version = FIRST_EXACT_TRIGGER_VERSION;
 	mode: 'record' | 'playback' = 'record';
 	/** If writing to the replay is still permitted. */
 	canStore = true;
-	/** Replays get invalidated if they don't end in a successful finish. */
+	/** Replays get invalidated if they don't end in a successful finish or if they were played in practice mode. */
 	isInvalid = false;
 	/** The timestamp at the moment of saving (serializing) the replay. */
 	timestamp: number;
@@ -62,7 +77,14 @@ export class Replay {
 	blasts: {
 		tickIndex: number
 	}[] = [];
-	/** Camera orientation for each physics tick. */
+	/** The movement input for each physics tick. Only used by input-based replays. */
+	movements: {
+		x: number,
+		y: number
+	}[] = [];
+	/** The pressed buttons for each physics tick as a bit field of ReplayButton. Only used by input-based replays. */
+	buttons: number[] = [];
+	/** Camera orientation for each physics tick. For input-based replays, this is the orientation at the start of the tick. */
 	cameraOrientations: {
 		yaw: number,
 		pitch: number
@@ -72,6 +94,8 @@ export class Replay {
 	/** When the finish area was hit. */
 	touchFinishTickIndices: number[] = [];
 	finishTime: TimeState = null;
+	/** The score reached in hunt mode. */
+	huntScore: number = null;
 	/** In order to replay trapdoors correctly, their completion state upon attempt start must be reconstructed properly. */
 	trapdoorStartValues: {
 		id: number,
@@ -112,7 +136,13 @@ export class Replay {
 	}[] = [];
 	/** Which powerups were selected at random. */
 	randomPowerUpChoices = new Map<number, number[]>();
+	/** The IDs of the gems each group of gems was spawned around in hunt mode. */
+	gemSpawnChoices: number[] = [];
 	checkpointRespawns: number[] = [];
+	/** The ticks before which the player chose to respawn at the last checkpoint. Every other respawn follows from the inputs, so input-based replays only need these. */
+	manualRespawns: number[] = [];
+	/** The ticks before which the player chose to respawn at the start pad while out of bounds in hunt mode. */
+	startRespawns: number[] = [];
 
 	/** The current tick index to write to / read from. */
 	currentTickIndex = 0;
@@ -126,6 +156,26 @@ export class Replay {
 		}
 	}
 
+	/** Whether this replay stores the player's inputs and is re-simulated on playback. */
+	get isInputBased() {
+		return this.version >= FIRST_INPUT_BASED_VERSION;
+	}
+
+	/** Whether the marble was sent out of bounds upon leaving the mission area when this replay was recorded. */
+	get enforcesMissionArea() {
+		return this.version >= FIRST_MISSION_AREA_VERSION;
+	}
+
+	/** Whether triggers had the exact shape of their polyhedron when this replay was recorded. */
+	get hasExactTriggers() {
+		return this.version >= FIRST_EXACT_TRIGGER_VERSION;
+	}
+
+	/** Whether the replay is being played back by applying its stored state instead of simulating the level. */
+	get isPlayingBackState() {
+		return this.mode === 'playback' && !this.isInputBased;
+	}
+
 	/** Inits the replay's values. */
 	init() {
 		this.currentTickIndex = 0;
@@ -134,11 +184,13 @@ export class Replay {
 			// Reset all values
 
 			this.canStore = true;
-			this.isInvalid = false;
+			this.isInvalid = this.level.practice; // Loading practice states breaks the continuity of the run
 			this.marblePositions.length = 0;
 			this.marbleOrientations.length = 0;
 			this.marbleLinearVelocities.length = 0;
 			this.marbleAngularVelocities.length = 0;
+			this.movements.length = 0;
+			this.buttons.length = 0;
 			this.marbleInside.length = 0;
 			this.marbleEnter.length = 0;
 			this.marbleLeave.length = 0;
@@ -149,6 +201,7 @@ export class Replay {
 			this.timeTravelTimeToRevert.clear();
 			this.touchFinishTickIndices.length = 0;
 			this.finishTime = null;
+			this.huntScore = null;
 			this.trapdoorStartValues.length = 0;
 			this.landmineStartValues.length = 0;
 			this.pushButtonStartValues.length = 0;
@@ -159,7 +212,10 @@ export class Replay {
 			this.jumpSoundTimes.length = 0;
 			this.bounceTimes.length = 0;
 			this.randomPowerUpChoices.clear();
+			this.gemSpawnChoices.length = 0;
 			this.checkpointRespawns.length = 0;
+			this.manualRespawns.length = 0;
+			this.startRespawns.length = 0;
 
 			// Remember trapdoor, mine and push button states
 			for (let shape of this.level.shapes) {
@@ -190,6 +246,17 @@ export class Replay {
 
 			this.timeSinceLoad = this.level.timeState.timeSinceLoad;
 		} else {
+			if (this.isInputBased) {
+				// Input-based replays are re-simulated, so the simulation needs to see the same absolute time it saw during recording
+				this.level.timeState.timeSinceLoad = this.timeSinceLoad;
+
+				// These events aren't stored in input-based replays, so they're noted down again while the simulation plays out
+				this.marbleEnter.length = 0;
+				this.marbleLeave.length = 0;
+				this.uses.length = 0;
+				this.blasts.length = 0;
+			}
+
 			// Reconstruct trapdoor, mine and push button states
 			for (let shape of this.level.shapes) {
 				if (shape instanceof TrapDoor) {
@@ -228,20 +295,30 @@ export class Replay {
 	record() {
 		if (this.mode === 'playback' || !this.canStore) return;
 
-		this.marblePositions.push(this.level.marble.body.getPosition());
-		this.marbleOrientations.push(this.level.marble.body.getOrientation());
-		this.marbleLinearVelocities.push(this.level.marble.body.getLinearVelocity());
-		this.marbleAngularVelocities.push(this.level.marble.body.getAngularVelocity());
-		this.cameraOrientations.push({ yaw: this.level.yaw, pitch: this.level.pitch });
+		if (this.isInputBased) {
+			let input = this.level.input;
+			this.movements.push({ x: input.movement.x, y: input.movement.y });
+			this.buttons.push((input.jump? ReplayButton.Jump : 0) | (input.use? ReplayButton.Use : 0) | (input.blast? ReplayButton.Blast : 0));
+			this.cameraOrientations.push({ yaw: input.yaw, pitch: input.pitch });
+		} else {
+			this.marblePositions.push(this.level.marble.body.getPosition());
+			this.marbleOrientations.push(this.level.marble.body.getOrientation());
+			this.marbleLinearVelocities.push(this.level.marble.body.getLinearVelocity());
+			this.marbleAngularVelocities.push(this.level.marble.body.getAngularVelocity());
+			this.cameraOrientations.push({ yaw: this.level.yaw, pitch: this.level.pitch });
+		}
 
-		if (this.level.finishTime && this.finishTime === null) this.finishTime = Util.jsonClone(this.level.finishTime);
+		if (this.level.finishTime && this.finishTime === null) {
+			this.finishTime = Util.jsonClone(this.level.finishTime);
+			if (this.level.mission.isHunt) this.huntScore = this.level.huntScore;
+		}
 
 		this.currentTickIndex++;
 
 		// Check if the replay is excessively long. If it is, stop it to prevent a memory error.
-		if (this.marblePositions.length >= PHYSICS_TICK_RATE * 60 * 30) {
+		if (this.cameraOrientations.length >= PHYSICS_TICK_RATE * 60 * 30) {
 			this.canStore = false;
-			this.isInvalid = this.level.finishTime === null; // If the playthrough was finished, we don't consider the replay invalid.
+			this.isInvalid = this.isInvalid || this.level.finishTime === null; // If the playthrough was finished, we don't consider the replay invalid.
 		}
 	}
 
@@ -255,7 +332,7 @@ export class Replay {
 	}
 
 	recordMarbleEnter(object: Shape | Trigger) {
-		if (this.mode === 'playback' || !this.canStore) return;
+		if (this.isPlayingBackState || !this.canStore) return;
 
 		this.marbleEnter.push({
 			tickIndex: this.currentTickIndex,
@@ -264,7 +341,7 @@ export class Replay {
 	}
 
 	recordMarbleLeave(object: Shape | Trigger) {
-		if (this.mode === 'playback' || !this.canStore) return;
+		if (this.isPlayingBackState || !this.canStore) return;
 
 		this.marbleLeave.push({
 			tickIndex: this.currentTickIndex,
@@ -282,7 +359,7 @@ export class Replay {
 	}
 
 	recordUsePowerUp(powerUp: PowerUp) {
-		if (this.mode === 'playback' || !this.canStore) return;
+		if (this.isPlayingBackState || !this.canStore) return;
 
 		this.uses.push({
 			tickIndex: this.currentTickIndex,
@@ -291,7 +368,7 @@ export class Replay {
 	}
 
 	recordUseBlast() {
-		if (this.mode === 'playback' || !this.canStore) return;
+		if (this.isPlayingBackState || !this.canStore) return;
 
 		this.blasts.push({
 			tickIndex: this.currentTickIndex
@@ -308,8 +385,42 @@ export class Replay {
 		this.checkpointRespawns.push(this.currentTickIndex);
 	}
 
+	recordManualRespawn() {
+		if (this.mode === 'playback' || !this.canStore) return;
+		this.manualRespawns.push(this.currentTickIndex);
+	}
+
+	recordStartRespawn() {
+		if (this.mode === 'playback' || !this.canStore) return;
+		this.startRespawns.push(this.currentTickIndex);
+	}
+
+	/** Feeds the recorded input for the current tick to the level, after doing the respawns the player chose to do before it. Only used by input-based replays. */
+	playBackInput() {
+		let i = this.currentTickIndex;
+
+		for (let tickIndex of this.manualRespawns) if (tickIndex === i) this.level.loadCheckpointState();
+		for (let tickIndex of this.startRespawns) if (tickIndex === i) this.level.respawnAtStart();
+
+		let input: TickInput = {
+			movement: { x: this.movements[i].x, y: this.movements[i].y },
+			jump: (this.buttons[i] & ReplayButton.Jump) !== 0,
+			use: (this.buttons[i] & ReplayButton.Use) !== 0,
+			blast: (this.buttons[i] & ReplayButton.Blast) !== 0,
+			yaw: this.cameraOrientations[i].yaw,
+			pitch: this.cameraOrientations[i].pitch
+		};
+		this.level.input = input;
+	}
+
 	/** Apply the replay's stored state to the world. */
 	playBack() {
+		if (this.isInputBased) {
+			// The simulation already did all the work
+			this.currentTickIndex++;
+			return;
+		}
+
 		let i = this.currentTickIndex;
 
 		for (let obj of this.marbleInside) {
@@ -374,20 +485,61 @@ export class Replay {
 				if (this.bounceTimes[i].showParticles) this.level.marble.showBounceParticles();
 			}
 		}
-		this.level.marble.rollingSound.gain.gain.value = this.rollingSoundGain[i];
-		this.level.marble.rollingSound.setPlaybackRate(this.rollingSoundPlaybackRate[i]);
-		this.level.marble.slidingSound.gain.gain.value = this.slidingSoundGain[i];
+		if (!this.level.headless) {
+			this.level.marble.rollingSound.gain.gain.value = this.rollingSoundGain[i];
+			this.level.marble.rollingSound.setPlaybackRate(this.rollingSoundPlaybackRate[i]);
+			this.level.marble.slidingSound.gain.gain.value = this.slidingSoundGain[i];
+		}
 
 		this.currentTickIndex = Math.min(this.marblePositions.length - 1, this.currentTickIndex + 1); // Make sure to stop at the last tick
 	}
 
+	/** The amount of ticks this replay spans when played back. */
+	get tickCount() {
+		return this.isInputBased? this.movements.length : this.marblePositions.length - 1;
+	}
+
 	isPlaybackComplete() {
-		return this.currentTickIndex === this.marblePositions.length - 1;
+		return this.currentTickIndex === this.tickCount;
+	}
+
+	/** Plays the replay back in a headless copy of its level, calling the callback after every tick. Used to find out things about a replay that it doesn't store itself. Runs in chunks so that the page stays responsive. */
+	async simulate(mission: Mission, onTick: (level: Level) => void) {
+		await mission.load();
+		let level = new Level(mission, true);
+		await level.init();
+		level.replay = this;
+		this.level = level;
+		this.mode = 'playback';
+
+		level.paused = false;
+		let restarted = false;
+
+		while (!level.stopped) {
+			// Only the chunks themselves are silenced, so that everything else can still be heard in between
+			AudioManager.silent = true; // The simulation happens in the background and mustn't be heard
+			try {
+				if (!restarted) level.restart(true);
+				restarted = true;
+
+				let chunkEnd = performance.now() + SIMULATION_CHUNK_DURATION;
+				while (!level.stopped && performance.now() < chunkEnd) {
+					// The replay overrides this with its stored input or state
+					level.stepHeadless({ movement: { x: 0, y: 0 }, jump: false, use: false, blast: false, yaw: level.yaw, pitch: level.pitch });
+					onTick(level);
+				}
+			} finally {
+				AudioManager.silent = false;
+			}
+
+			if (!level.stopped) await Util.wait(0);
+		}
 	}
 
 	/** Converts the replay's data into a compressed array buffer. */
 	async serialize() {
-		let cameraOrientations = new Float32Array(this.cameraOrientations.length * 2);
+		// Input-based replays need the exact camera orientation for the simulation to come out the same, so don't lose precision there
+		let cameraOrientations = this.isInputBased? new Float64Array(this.cameraOrientations.length * 2) : new Float32Array(this.cameraOrientations.length * 2);
 		for (let i = 0; i < this.cameraOrientations.length; i++) {
 			cameraOrientations[i * 2 + 0] = this.cameraOrientations[i].yaw;
 			cameraOrientations[i * 2 + 1] = this.cameraOrientations[i].pitch;
@@ -398,34 +550,50 @@ export class Replay {
 			version: this.version,
 			timestamp: Date.now(),
 			missionPath: this.missionPath,
-			marblePositions: Util.arrayBufferToString(Replay.vec3sToBuffer(this.marblePositions).buffer),
-			marbleOrientations: Util.arrayBufferToString(Replay.quatsToBuffer(this.marbleOrientations).buffer),
-			marbleLinearVelocities: Util.arrayBufferToString(Replay.vec3sToBuffer(this.marbleLinearVelocities).buffer),
-			marbleAngularVelocities: Util.arrayBufferToString(Replay.vec3sToBuffer(this.marbleAngularVelocities).buffer),
-			marbleInside: this.marbleInside,
-			marbleEnter: this.marbleEnter,
-			marbleLeave: this.marbleLeave,
-			marbleContact: this.marbleContact,
-			uses: this.uses,
-			blasts: this.blasts,
 			cameraOrientations: Util.arrayBufferToString(cameraOrientations.buffer),
 			timeTravelTimeToRevert: [...this.timeTravelTimeToRevert.entries()],
 			touchFinishTickIndices: this.touchFinishTickIndices,
 			finishTime: this.finishTime,
+			huntScore: this.huntScore,
 			trapdoorStartValues: this.trapdoorStartValues,
 			landmineStartValues: this.landmineStartValues,
 			pushButtonStartValues: this.pushButtonStartValues,
 			nukeStartValues: this.nukeStartValues,
 			timeSinceLoad: this.timeSinceLoad,
-			rollingSoundGain: Util.arrayBufferToString(new Float32Array(this.rollingSoundGain).buffer),
-			rollingSoundPlaybackRate: Util.arrayBufferToString(new Float32Array(this.rollingSoundPlaybackRate).buffer),
-			slidingSoundGain: Util.arrayBufferToString(new Float32Array(this.slidingSoundGain).buffer),
-			jumpSoundTimes: this.jumpSoundTimes,
-			bounceTimes: this.bounceTimes,
 			randomPowerUpChoices: [...this.randomPowerUpChoices.entries()],
+			gemSpawnChoices: this.gemSpawnChoices,
 			checkpointRespawns: this.checkpointRespawns
 		};
 
+		if (this.isInputBased) {
+			let movements = new Float64Array(this.movements.length * 2);
+			for (let i = 0; i < this.movements.length; i++) {
+				movements[i * 2 + 0] = this.movements[i].x;
+				movements[i * 2 + 1] = this.movements[i].y;
+			}
+
+			serialized.movements = Util.arrayBufferToString(movements.buffer);
+			serialized.buttons = Util.arrayBufferToString(new Uint8Array(this.buttons).buffer);
+			serialized.manualRespawns = this.manualRespawns;
+			serialized.startRespawns = this.startRespawns;
+		} else {
+			serialized.marblePositions = Util.arrayBufferToString(Replay.vec3sToBuffer(this.marblePositions).buffer);
+			serialized.marbleOrientations = Util.arrayBufferToString(Replay.quatsToBuffer(this.marbleOrientations).buffer);
+			serialized.marbleLinearVelocities = Util.arrayBufferToString(Replay.vec3sToBuffer(this.marbleLinearVelocities).buffer);
+			serialized.marbleAngularVelocities = Util.arrayBufferToString(Replay.vec3sToBuffer(this.marbleAngularVelocities).buffer);
+			serialized.marbleInside = this.marbleInside;
+			serialized.marbleEnter = this.marbleEnter;
+			serialized.marbleLeave = this.marbleLeave;
+			serialized.marbleContact = this.marbleContact;
+			serialized.uses = this.uses;
+			serialized.blasts = this.blasts;
+			serialized.rollingSoundGain = Util.arrayBufferToString(new Float32Array(this.rollingSoundGain).buffer);
+			serialized.rollingSoundPlaybackRate = Util.arrayBufferToString(new Float32Array(this.rollingSoundPlaybackRate).buffer);
+			serialized.slidingSoundGain = Util.arrayBufferToString(new Float32Array(this.slidingSoundGain).buffer);
+			serialized.jumpSoundTimes = this.jumpSoundTimes;
+			serialized.bounceTimes = this.bounceTimes;
+		}
+
 		// Then compress the whole th ing. As this step is the most expensive, run it in another thread.
 		let compressed = await executeOnWorker('compress', JSON.stringify(serialized)) as ArrayBuffer;
 		return compressed;
@@ -442,22 +610,41 @@ export class Replay {
 		replay.missionPath = (version >= 1)? serialized.missionPath : null;
 		replay.timestamp = (version >= 1)? serialized.timestamp : 0;
 
-		replay.marblePositions = Replay.bufferToVec3s(new Float32Array(Util.stringToArrayBuffer(serialized.marblePositions)));
-		replay.marbleOrientations = Replay.bufferToQuats(new Float32Array(Util.stringToArrayBuffer(serialized.marbleOrientations)));
-		replay.marbleLinearVelocities = Replay.bufferToVec3s(new Float32Array(Util.stringToArrayBuffer(serialized.marbleLinearVelocities)));
-		replay.marbleAngularVelocities = Replay.bufferToVec3s(new Float32Array(Util.stringToArrayBuffer(serialized.marbleAngularVelocities)));
-		replay.marbleInside = serialized.marbleInside;
-		replay.marbleEnter = serialized.marbleEnter;
-		replay.marbleLeave = serialized.marbleLeave ?? []; // Might not be there in older versions
-		replay.marbleContact = serialized.marbleContact;
-		replay.uses = serialized.uses;
-		replay.blasts = serialized.blasts ?? [];
+		if (replay.isInputBased) {
+			let movementsBuffer = new Float64Array(Util.stringToArrayBuffer(serialized.movements));
+			for (let i = 0; i < movementsBuffer.length/2; i++) {
+				replay.movements.push({
+					x: movementsBuffer[i * 2 + 0],
+					y: movementsBuffer[i * 2 + 1]
+				});
+			}
+			replay.buttons = [...new Uint8Array(Util.stringToArrayBuffer(serialized.buttons))];
+			replay.manualRespawns = serialized.manualRespawns;
+			replay.startRespawns = serialized.startRespawns ?? [];
+		} else {
+			replay.marblePositions = Replay.bufferToVec3s(new Float32Array(Util.stringToArrayBuffer(serialized.marblePositions)));
+			replay.marbleOrientations = Replay.bufferToQuats(new Float32Array(Util.stringToArrayBuffer(serialized.marbleOrientations)));
+			replay.marbleLinearVelocities = Replay.bufferToVec3s(new Float32Array(Util.stringToArrayBuffer(serialized.marbleLinearVelocities)));
+			replay.marbleAngularVelocities = Replay.bufferToVec3s(new Float32Array(Util.stringToArrayBuffer(serialized.marbleAngularVelocities)));
+			replay.marbleInside = serialized.marbleInside;
+			replay.marbleEnter = serialized.marbleEnter;
+			replay.marbleLeave = serialized.marbleLeave ?? []; // Might not be there in older versions
+			replay.marbleContact = serialized.marbleContact;
+			replay.uses = serialized.uses;
+			replay.blasts = serialized.blasts ?? [];
+			replay.rollingSoundGain = [...new Float32Array(Util.stringToArrayBuffer(serialized.rollingSoundGain))];
+			replay.rollingSoundPlaybackRate = [...new Float32Array(Util.stringToArrayBuffer(serialized.rollingSoundPlaybackRate))];
+			replay.slidingSoundGain = [...new Float32Array(Util.stringToArrayBuffer(serialized.slidingSoundGain))];
+			replay.jumpSoundTimes = serialized.jumpSoundTimes;
+			replay.bounceTimes = serialized.bounceTimes;
+		}
 		
 		let cameraOrientations: {
 			yaw: number,
 			pitch: number
 		}[] = [];
-		let cameraOrientationsBuffer = new Float32Array(Util.stringToArrayBuffer(serialized.cameraOrientations));
+		let cameraOrientationsData = Util.stringToArrayBuffer(serialized.cameraOrientations);
+		let cameraOrientationsBuffer = replay.isInputBased? new Float64Array(cameraOrientationsData) : new Float32Array(cameraOrientationsData);
 		for (let i = 0; i < cameraOrientationsBuffer.length/2; i++) {
 			cameraOrientations.push({
 				yaw: cameraOrientationsBuffer[i * 2 + 0],
@@ -469,17 +656,14 @@ export class Replay {
 		replay.timeTravelTimeToRevert = serialized.timeTravelTimeToRevert.reduce((prev, next) => (prev.set(next[0], next[1]), prev), new Map<number, number>());
 		replay.touchFinishTickIndices = serialized.touchFinishTickIndices;
 		replay.finishTime = serialized.finishTime;
+		replay.huntScore = serialized.huntScore ?? null;
 		replay.trapdoorStartValues = serialized.trapdoorStartValues;
 		replay.landmineStartValues = serialized.landmineStartValues;
 		replay.pushButtonStartValues = serialized.pushButtonStartValues ?? []; // Might not be there in older versions
 		replay.nukeStartValues = serialized.nukeStartValues ?? [];
 		replay.timeSinceLoad = serialized.timeSinceLoad;
-		replay.rollingSoundGain = [...new Float32Array(Util.stringToArrayBuffer(serialized.rollingSoundGain))];
-		replay.rollingSoundPlaybackRate = [...new Float32Array(Util.stringToArrayBuffer(serialized.rollingSoundPlaybackRate))];
-		replay.slidingSoundGain = [...new Float32Array(Util.stringToArrayBuffer(serialized.slidingSoundGain))];
-		replay.jumpSoundTimes = serialized.jumpSoundTimes;
-		replay.bounceTimes = serialized.bounceTimes;
 		replay.randomPowerUpChoices = (serialized.randomPowerUpChoices ?? []).reduce((prev, next) => (prev.set(next[0], next[1]), prev), new Map<number, number[]>());
+		replay.gemSpawnChoices = serialized.gemSpawnChoices ?? [];
 		replay.checkpointRespawns = serialized.checkpointRespawns ?? [];
 
 		return replay;
@@ -539,14 +723,21 @@ export class Replay {
 			type: 'application/octet-stream'
 		});
 		let url = URL.createObjectURL(blob);
-		let filename = Util.removeSpecialChars(mission.title.toLowerCase().split(' ').map(x => Util.uppercaseFirstLetter(x)).join(''));
-		for (let i = 0; i < 6; i++) filename += Math.floor(Math.random() * 10); // Add a random string of numbers to the end
+		let filename = this.createFileName(mission);
 		if (unfinished) filename += 'u'; // Clearly mark the replay as being unfinished
 		filename += '.wrec';
 		Util.download(url, filename);
 		URL.revokeObjectURL(url);
 	}
 
+	/** Creates the name, without extension, of a file downloaded for a replay of the given mission. */
+	static createFileName(mission: Mission) {
+		let filename = Util.removeSpecialChars(mission.title.toLowerCase().split(' ').map(x => Util.uppercaseFirstLetter(x)).join(''));
+		for (let i = 0; i < 6; i++) filename += Math.floor(Math.random() * 10); // Add a random string of numbers to the end
+
+		return filename;
+	}
+
 	/** Makes sure a replay fits some requirements. */
 	static async maybeUpdateReplay(replayData: ArrayBuffer, missionPath: string) {
 		let uncompressed = pako.inflate(new Uint8Array(replayData), { to: 'string' });
@@ -573,37 +764,55 @@ export interface SerializedReplay {
 	missionPath: string,
 	timestamp: number,
 
-	marblePositions: string;
-	marbleOrientations: string;
-	marbleLinearVelocities: string;
-	marbleAngularVelocities: string;
-	marbleInside: {
+	// Only present in state-based replays:
+	marblePositions?: string;
+	marbleOrientations?: string;
+	marbleLinearVelocities?: string;
+	marbleAngularVelocities?: string;
+	marbleInside?: {
 		tickIndex: number,
 		id: number
 	}[];
-	marbleEnter: {
+	marbleEnter?: {
 		tickIndex: number,
 		id: number
 	}[];
-	marbleLeave: {
+	marbleLeave?: {
 		tickIndex: number,
 		id: number
 	}[];
-	marbleContact: {
+	marbleContact?: {
 		tickIndex: number,
 		id: number
 	}[];
-	uses: {
+	uses?: {
 		tickIndex: number,
 		id: number
 	}[];
-	blasts: {
+	blasts?: {
 		tickIndex: number
 	}[];
+	rollingSoundGain?: string;
+	rollingSoundPlaybackRate?: string;
+	slidingSoundGain?: string;
+	jumpSoundTimes?: number[];
+	bounceTimes?: {
+		tickIndex: number,
+		volume: number,
+		showParticles: boolean
+	}[];
+
+	// Only present in input-based replays:
+	movements?: string;
+	buttons?: string;
+	manualRespawns?: number[];
+	startRespawns?: number[];
+
 	cameraOrientations: string;
 	timeTravelTimeToRevert: [number, number][]
 	touchFinishTickIndices: number[];
 	finishTime: TimeState;
+	huntScore?: number;
 	trapdoorStartValues: {
 		id: number,
 		lastContactTime: number,
@@ -623,15 +832,7 @@ export interface SerializedReplay {
 		disappearTime: number
 	}[];
 	timeSinceLoad: number;
-	rollingSoundGain: string;
-	rollingSoundPlaybackRate: string;
-	slidingSoundGain: string;
-	jumpSoundTimes: number[];
-	bounceTimes: {
-		tickIndex: number,
-		volume: number,
-		showParticles: boolean
-	}[];
 	randomPowerUpChoices: [number, number[]][],
+	gemSpawnChoices?: number[],
 	checkpointRespawns: number[]
 }
\ No newline at end of file
@@ -2,8 +2,6 @@ import * as THREE from "three";
 import { state } from "./state";
 import { Util } from "./util";
 
-const imageCacheElement = document.querySelector('#image-cache');
-
 /** Holds a directory structure. If the value is null, then the key is a file, otherwise the key is a directory and the value is another directory structure. */
 export type DirectoryStructure = {[name: string]: null | DirectoryStructure};
 
@@ -26,6 +24,8 @@ export abstract class ResourceManager {
 	static loadImagePromises = new Map<string, Promise<HTMLImageElement>>();
 	static loadedImages = new Map<string, HTMLImageElement>();
 	static urlCache = new Map<Blob, string>();
+	/** If set, resources are read using this function instead of being fetched. Used when running headless. */
+	static readFile: (path: string) => Promise<Blob> = null;
 
 	static get mainDataPath() {
 		return (state.modification === 'gold')? './assets/data/' : './assets/data_mbp/';
@@ -120,6 +120,14 @@ export abstract class ResourceManager {
 		if (this.loadResourcePromises.get(path)) return this.loadResourcePromises.get(path);
 
 		let promise = new Promise<Blob>((resolve) => {
+			if (this.readFile) {
+				this.readFile(path).then(blob => {
+					this.cachedResources.set(path, blob);
+					resolve(blob);
+				});
+				return;
+			}
+
 			const attempt = async () => {
 				try {
 					let response = await fetch(path);
@@ -156,7 +164,7 @@ export abstract class ResourceManager {
 			image.src = path;
 			
 			image.onload = () => {
-				imageCacheElement.appendChild(image);
+				document.querySelector('#image-cache').appendChild(image);
 				this.loadedImages.set(path, image);
 				resolve(image);
 			};
@@ -1,4 +1,5 @@
-import { DtsFile, MeshType, DtsParser } from "./parsing/dts_parser";
+import { DtsFile, MeshType } from "./parsing/dts_parser";
+import { FileLoader } from "./parsing/file_loader";
 import OIMO from "./declarations/oimo";
 import * as THREE from "three";
 import { ResourceManager } from "./resources";
@@ -126,6 +127,12 @@ export interface GraphNode {
 	parent?: GraphNode
 }
 
+/** Gets the name of the file (a texture or an .ifl) that a material of a shape in the given directory uses. */
+export const getMaterialFileName = (directoryPath: string, matName: string) => {
+	let fullNames = ResourceManager.getFullNamesOf(directoryPath + '/' + matName).filter((x) => !x.endsWith('.dts'));
+	return fullNames.find(x => x.endsWith('.ifl')) || fullNames[0]; // Prefer .ifls
+};
+
 /** Represents an object created from a DTS file. This is either a static object like the start pad or a sign, or an item like gems or powerups. */
 export class Shape {
 	/** The unique id of this shape. */
@@ -211,14 +218,14 @@ export class Shape {
 	sounds: string[] = [];
 
 	async init(level?: Level, srcElement: MissionElement = null) {
-		if (!Util.supportsInstancing(renderer)) this.useInstancing = false;
+		if (level?.headless || !Util.supportsInstancing(renderer)) this.useInstancing = false;
 
 		this.id = srcElement?._id ?? 0;
 		this.level = level;
 		this.srcElement = srcElement;
 		this.colliderDtsPath ??= this.dtsPath;
-		this.dts = await ((this.level)? this.level.mission.getDts(this.dtsPath) : DtsParser.loadFile(ResourceManager.mainDataPath + this.dtsPath));
-		this.colliderDts = (this.dtsPath === this.colliderDtsPath)? this.dts : await ((this.level)? this.level.mission.getDts(this.colliderDtsPath) : DtsParser.loadFile(ResourceManager.mainDataPath + this.colliderDtsPath));
+		this.dts = await ((this.level)? this.level.mission.getDts(this.dtsPath) : FileLoader.loadDts(ResourceManager.mainDataPath + this.dtsPath));
+		this.colliderDts = (this.dtsPath === this.colliderDtsPath)? this.dts : await ((this.level)? this.level.mission.getDts(this.colliderDtsPath) : FileLoader.loadDts(ResourceManager.mainDataPath + this.colliderDtsPath));
 		this.directoryPath = this.dtsPath.slice(0, this.dtsPath.lastIndexOf('/'));
 
 		this.group = new THREE.Group();
@@ -494,10 +501,15 @@ export class Shape {
 		let environmentMaterial: THREE.MeshBasicMaterial = null;
 
 		for (let i = 0; i < this.dts.matNames.length; i++) {
+			if (this.level?.headless) {
+				// Nothing is ever drawn, so skip loading the textures. The materials still need to exist for the geometry to be split up correctly.
+				this.materials.push(new THREE.MeshBasicMaterial());
+				continue;
+			}
+
 			let matName = this.matNamesOverride[this.dts.matNames[i]] || this.dts.matNames[i]; // Check the override
 			let flags = this.dts.matFlags[i];
-			let fullNames = ResourceManager.getFullNamesOf(this.directoryPath + '/' + matName).filter((x) => !x.endsWith('.dts'));
-			let fullName = fullNames.find(x => x.endsWith('.ifl')) || fullNames[0]; // Prefer .ifls
+			let fullName = getMaterialFileName(this.directoryPath, matName as string);
 
 			if (this.isTSStatic && environmentMaterial && DROP_TEXTURE_FOR_ENV_MAP.has(this.dtsPath)) {
 				// Simply use the env material again
@@ -5,6 +5,7 @@ import { TimeState } from "../level";
 import { AudioManager } from "../audio";
 import { state } from "../state";
 import { MissionElementItem } from "../parsing/mis_parser";
+import { shapeRegistry } from "../registry";
 
 /** Changes the gravity on pickup. */
 export class AntiGravity extends PowerUp {
@@ -33,4 +34,7 @@ export class AntiGravity extends PowerUp {
 		this.level.setUp(Util.vecThreeToOimo(direction), time);
 		AudioManager.play(this.sounds[0]);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['antigravityitem'] }, (element) => new AntiGravity(element as MissionElementItem));
+shapeRegistry.register({ names: ['norespawnantigravityitem'] }, (element) => new AntiGravity(element as MissionElementItem, true));
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { AudioManager } from "../audio";
 import { PowerUp } from "./power_up";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 export class Blast extends PowerUp {
 	dtsPath = 'shapes/items/blast.dts';
@@ -15,4 +17,6 @@ export class Blast extends PowerUp {
 	use() {
 		this.level.blastAmount = 1.03;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['blastitem'] }, (element) => new Blast(element as MissionElementItem));
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 /** On contact, sets a new checkpoint with itself as the respawn shape. */
 export class Checkpoint extends Shape {
@@ -10,4 +11,6 @@ export class Checkpoint extends Shape {
 		this.level.saveCheckpointState(this);
 		this.level.replay.recordMarbleContact(this);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['checkpoint'] }, () => new Checkpoint());
\ No newline at end of file
@@ -2,6 +2,8 @@ import { AudioManager } from "../audio";
 import { state } from "../state";
 import { StorageManager } from "../storage";
 import { PowerUp } from "./power_up";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 /** Easter eggs are hidden collectibles that the player can search for. */
 export class EasterEgg extends PowerUp {
@@ -12,7 +14,7 @@ export class EasterEgg extends PowerUp {
 	pickUpName = '';
 
 	pickUp() {
-		let alreadyFound = StorageManager.data.collectedEggs.includes(this.level.mission.path);
+		let alreadyFound = this.level.headless || StorageManager.data.collectedEggs.includes(this.level.mission.path); // Headless runs don't touch the player's collection
 		if (!alreadyFound) {
 			StorageManager.data.collectedEggs.push(this.level.mission.path);
 			StorageManager.store();
@@ -26,4 +28,6 @@ export class EasterEgg extends PowerUp {
 	}
 
 	use() {}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['easteregg'] }, (element) => new EasterEgg(element as MissionElementItem));
\ No newline at end of file
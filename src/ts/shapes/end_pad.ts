@@ -5,6 +5,7 @@ import { ParticleEmitter } from "../particles";
 import { Level, TimeState } from "../level";
 import { AudioManager } from "../audio";
 import OIMO from "../declarations/oimo";
+import { shapeRegistry } from "../registry";
 
 /** The finish pad. */
 export class EndPad extends Shape {
@@ -275,4 +276,6 @@ class Firework extends Scheduler {
 		};
 		this.trails.push(trail);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['endpad'] }, (element, level) => new EndPad(element === level?.endPadElement));
\ No newline at end of file
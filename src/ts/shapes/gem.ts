@@ -1,9 +1,17 @@
 import { Shape } from "../shape";
 import { MissionElementItem } from "../parsing/mis_parser";
 import { Util } from "../util";
+import { shapeRegistry } from "../registry";
 
 // List all of gem colors for randomly choosing one
-const GEM_COLORS = ["blue", "red", "yellow", "purple", "green", "turquoise", "orange", "black"]; // "Platinum" is also a color, but it can't appear by chance
+export const GEM_COLORS = ["blue", "red", "yellow", "purple", "green", "turquoise", "orange", "black"]; // "Platinum" is also a color, but it can't appear by chance
+/** How many points a gem of a given color is worth in hunt mode. Colors not listed are worth 1. */
+const GEM_POINTS: Record<string, number> = {
+	red: 1,
+	yellow: 2,
+	blue: 5,
+	platinum: 10
+};
 
 /** Gems need to be collected before being able to finish. */
 export class Gem extends Shape {
@@ -14,12 +22,15 @@ export class Gem extends Shape {
 	shareMaterials = false;
 	showSequences = false; // Gems actually have an animation for the little shiny thing, but the actual game ignores that. I get it, it was annoying as hell.
 	sounds = ['gotgem.wav', 'gotallgems.wav', 'missinggems.wav'];
+	/** How many points this gem is worth in hunt mode. */
+	points = 1;
 
 	constructor(element: MissionElementItem) {
 		super();
 
 		// Determine the color of the gem:
 		let color = element.datablock.slice("GemItem".length);
+		this.points = GEM_POINTS[color.toLowerCase()] ?? 1; // Randomly colored gems are worth the default, so that the points stay the same on replay
 		if (color.length === 0) color = Gem.pickRandomColor(); // Random if no color specified
 
 		this.matNamesOverride["base.gem"] = color.toLowerCase() + ".gem";
@@ -27,6 +38,7 @@ export class Gem extends Shape {
 
 	onMarbleInside() {
 		if (this.pickedUp) return;
+		if (this.level.mission.isHunt && this.level.finishTime) return; // The round is over
 
 		this.pickedUp = true;
 		this.setOpacity(0); // Hide the gem
@@ -42,4 +54,6 @@ export class Gem extends Shape {
 	static pickRandomColor() {
 		return Util.randomFromArray(GEM_COLORS);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ prefixes: ['gemitem'] }, (element) => new Gem(element as MissionElementItem));
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 export class Glass extends Shape {
 	useInstancing = true;
@@ -10,4 +11,6 @@ export class Glass extends Shape {
 		this.dtsPath = `shapes/glass/${dim}x3.dts`;
 		this.colliderDtsPath = `shapes/glass/col/${dim}x3.dts`;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ pattern: /glass_\d+shape/ }, (element) => new Glass(element.datablock.toLowerCase()));
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { PowerUp } from "./power_up";
 import { TimeState } from "../level";
 import { state } from "../state";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 /** Reduces gravity temporarily. */
 export class Helicopter extends PowerUp {
@@ -18,4 +20,6 @@ export class Helicopter extends PowerUp {
 		this.level.marble.enableHelicopter(time);
 		this.level.deselectPowerUp();
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['helicopteritem'] }, (element) => new Helicopter(element as MissionElementItem));
\ No newline at end of file
@@ -3,6 +3,7 @@ import { Util } from "../util";
 import { TimeState } from "../level";
 import { AudioManager } from "../audio";
 import * as THREE from "three";
+import { shapeRegistry } from "../registry";
 
 /** Land mines explode on contact and knock the marble away. */
 export class LandMine extends Shape {
@@ -127,4 +128,6 @@ export const landMineSparksParticle = {
 		sizes: [0.5, 0.25, 0.25],
 		times: [0, 0.5, 1]
 	}
-};
\ No newline at end of file
+};
+
+shapeRegistry.register({ names: ['landmine'] }, () => new LandMine());
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { AudioManager, AudioSource } from "../audio";
 import { ForceShape } from "./force_shape";
+import { shapeRegistry } from "../registry";
 
 /** Magnets pull the marble towards itself. */
 export class Magnet extends ForceShape {
@@ -21,4 +22,6 @@ export class Magnet extends ForceShape {
 		this.soundSource.play();
 		await this.soundSource.promise;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['magnet'] }, () => new Magnet());
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { AudioManager } from "../audio";
 import { TimeState } from "../level";
 import { PowerUp } from "./power_up";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 export class MegaMarble extends PowerUp {
 	dtsPath = 'shapes/items/megamarble.dts';
@@ -16,4 +18,6 @@ export class MegaMarble extends PowerUp {
 		this.level.deselectPowerUp();
 		AudioManager.play(this.sounds[1]);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['megamarbleitem'] }, (element) => new MegaMarble(element as MissionElementItem));
\ No newline at end of file
@@ -4,6 +4,7 @@ import OIMO from "../declarations/oimo";
 import { TimeState } from "../level";
 import { Shape } from "../shape";
 import { Util } from "../util";
+import { shapeRegistry } from "../registry";
 
 /** Nukes explode on contact and knock the marble away even more than mines do. */
 export class Nuke extends Shape {
@@ -128,4 +129,6 @@ export const nukeSparksParticle = {
 		sizes: [0.5, 0.4, 0.2],
 		times: [0, 0.5, 1]
 	}
-};
\ No newline at end of file
+};
+
+shapeRegistry.register({ names: ['nuke'] }, () => new Nuke());
\ No newline at end of file
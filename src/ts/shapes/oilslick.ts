@@ -1,8 +1,11 @@
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 /** Oilslicks are slippery. */
 export class Oilslick extends Shape {
 	dtsPath = "shapes/hazards/oilslick.dts";
 	friction = 0.001;
 	useInstancing = true;
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['oilslick'] }, () => new Oilslick());
\ No newline at end of file
@@ -2,7 +2,6 @@ import { Util } from "../util";
 import { Shape } from "../shape";
 import { TimeState } from "../level";
 import { MissionElementItem } from "../parsing/mis_parser";
-import { state } from "../state";
 
 export const DEFAULT_COOLDOWN_DURATION = 7000;
 
@@ -39,8 +38,8 @@ export abstract class PowerUp extends Shape {
 			this.lastPickUpTime = time.currentAttemptTime;
 			if (this.autoUse) this.use(time);
 
-			state.menu.hud.displayAlert(this.customPickUpAlert ?? `You picked up ${this.an? 'an' : 'a'} ${this.pickUpName}!`);
-			if (this.element.showhelponpickup === "1" && !this.autoUse) state.menu.hud.displayHelp(`Press <func:bind mousefire> to use the ${this.pickUpName}!`);
+			this.level.hud?.displayAlert(this.customPickUpAlert ?? `You picked up ${this.an? 'an' : 'a'} ${this.pickUpName}!`);
+			if (this.element.showhelponpickup === "1" && !this.autoUse) this.level.hud?.displayHelp(`Press <func:bind mousefire> to use the ${this.pickUpName}!`);
 		}
 	}
 
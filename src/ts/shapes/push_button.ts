@@ -1,6 +1,7 @@
 import { Shape } from "../shape";
 import { TimeState } from "../level";
 import { Util } from "../util";
+import { shapeRegistry } from "../registry";
 
 const ANIMATION_DURATION = 233.33433270454407;
 const RESET_TIME = 5000;
@@ -36,4 +37,6 @@ export class PushButton extends Shape {
 
 		this.level.replay.recordMarbleContact(this);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['pushbutton'] }, () => new PushButton());
\ No newline at end of file
@@ -6,6 +6,8 @@ import { SuperBounce } from "./super_bounce";
 import { SuperJump } from "./super_jump";
 import { SuperSpeed } from "./super_speed";
 import { TimeTravel } from "./time_travel";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 // https://stackoverflow.com/questions/39392853/is-there-a-type-for-class-in-typescript-and-does-any-include-it
 interface Type<T> extends Function {
@@ -71,4 +73,6 @@ export class RandomPowerUp extends PowerUp {
 		super.reset();
 		this.pickedUpCount = 0;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['randompowerupitem'] }, (element) => new RandomPowerUp(element as MissionElementItem));
\ No newline at end of file
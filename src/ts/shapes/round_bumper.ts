@@ -1,7 +1,10 @@
 import { AbstractBumper } from "./abstract_bumper";
+import { shapeRegistry } from "../registry";
 
 /** A round bumper. */
 export class RoundBumper extends AbstractBumper {
 	dtsPath = "shapes/bumpers/pball_round.dts";
 	sounds = ["bumperding1.wav"];
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['roundbumper'] }, () => new RoundBumper());
\ No newline at end of file
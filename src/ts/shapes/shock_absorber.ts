@@ -1,6 +1,8 @@
 import { PowerUp } from "./power_up";
 import { TimeState } from "../level";
 import { state } from "../state";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 /** Temporarily reduces marble restitution. */
 export class ShockAbsorber extends PowerUp {
@@ -17,4 +19,6 @@ export class ShockAbsorber extends PowerUp {
 		this.level.marble.enableShockAbsorber(time);
 		this.level.deselectPowerUp();
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['shockabsorberitem'] }, (element) => new ShockAbsorber(element as MissionElementItem));
\ No newline at end of file
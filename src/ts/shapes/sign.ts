@@ -1,5 +1,6 @@
 import { MissionElementStaticShape } from "../parsing/mis_parser";
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 /** Sign used in MBP to show a direction. */
 export class Sign extends Shape {
@@ -22,4 +23,6 @@ export class Sign extends Shape {
 			}
 		}
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['arrow'], prefixes: ['sign'] }, (element) => new Sign(element as MissionElementStaticShape));
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Shape } from "../shape";
 import { MissionElementStaticShape } from "../parsing/mis_parser";
+import { shapeRegistry } from "../registry";
 
 /** A caution/danger sign. */
 export class SignCaution extends Shape {
@@ -16,4 +17,6 @@ export class SignCaution extends Shape {
 			case "danger": this.matNamesOverride["base.cautionsign"] = "danger.cautionsign"; break;
 		}
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ prefixes: ['signcaution'] }, (element) => new SignCaution(element as MissionElementStaticShape));
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 /** The flickering finish sign, usually above the finish pad. */
 export class SignFinish extends Shape {
 	dtsPath = "shapes/signs/finishlinesign.dts";
 	useInstancing = true;
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['signfinish'] }, () => new SignFinish());
\ No newline at end of file
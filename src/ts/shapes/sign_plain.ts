@@ -1,5 +1,6 @@
 import { Shape } from "../shape";
 import { MissionElementStaticShape } from "../parsing/mis_parser";
+import { shapeRegistry } from "../registry";
 
 /** A plain sign showing a direction. */
 export class SignPlain extends Shape {
@@ -18,4 +19,6 @@ export class SignPlain extends Shape {
 			case "down": this.matNamesOverride["base.plainsign"] = "down.plainsign"; break;
 		}
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ prefixes: ['signplain'] }, (element) => new SignPlain(element as MissionElementStaticShape));
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 export class Sky extends Shape {
 	collideable = false;
@@ -8,4 +9,6 @@ export class Sky extends Shape {
 
 		this.dtsPath = `shapes/skies/${type}/${type}.dts`;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['clear', 'cloudy', 'dusk', 'wintry'] }, (element) => new Sky(element.datablock.toLowerCase()));
\ No newline at end of file
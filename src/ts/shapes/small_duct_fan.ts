@@ -1,5 +1,6 @@
 import { ForceShape } from "./force_shape";
 import { AudioSource, AudioManager } from "../audio";
+import { shapeRegistry } from "../registry";
 
 /** Blows the marble away, but not much. */
 export class SmallDuctFan extends ForceShape {
@@ -20,4 +21,6 @@ export class SmallDuctFan extends ForceShape {
 		this.soundSource.play();
 		await this.soundSource.promise;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['smallductfan'] }, () => new SmallDuctFan());
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { Shape } from "../shape";
+import { shapeRegistry } from "../registry";
 
 /** The starting location of the level. */
 export class StartPad extends Shape {
 	dtsPath = "shapes/pads/startarea.dts";
 	useInstancing = true;
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['startpad'] }, () => new StartPad());
\ No newline at end of file
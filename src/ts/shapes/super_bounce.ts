@@ -1,6 +1,8 @@
 import { PowerUp } from "./power_up";
 import { TimeState } from "../level";
 import { state } from "../state";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 /** Temporarily increase marble restitution. */
 export class SuperBounce extends PowerUp {
@@ -16,4 +18,6 @@ export class SuperBounce extends PowerUp {
 		this.level.marble.enableSuperBounce(time);
 		this.level.deselectPowerUp();
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['superbounceitem'] }, (element) => new SuperBounce(element as MissionElementItem));
\ No newline at end of file
@@ -3,6 +3,8 @@ import { AudioManager } from "../audio";
 import * as THREE from "three";
 import { Util } from "../util";
 import { state } from "../state";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 /** Gives the marble an upwards boost. */
 export class SuperJump extends PowerUp {
@@ -46,4 +48,6 @@ export const superJumpParticleOptions = {
 		sizes: [0.25, 0.25, 0.5],
 		times: [0, 0.75, 1]
 	}
-};
\ No newline at end of file
+};
+
+shapeRegistry.register({ names: ['superjumpitem'] }, (element) => new SuperJump(element as MissionElementItem));
\ No newline at end of file
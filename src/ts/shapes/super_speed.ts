@@ -4,6 +4,8 @@ import { Util } from "../util";
 import OIMO from "../declarations/oimo";
 import { AudioManager } from "../audio";
 import { state } from "../state";
+import { shapeRegistry } from "../registry";
+import { MissionElementItem } from "../parsing/mis_parser";
 
 /** Accelerates the marble. */
 export class SuperSpeed extends PowerUp {
@@ -60,4 +62,6 @@ export const superSpeedParticleOptions = {
 		sizes: [0.25, 0.25, 1],
 		times: [0, 0.25, 1]
 	}
-};
\ No newline at end of file
+};
+
+shapeRegistry.register({ names: ['superspeeditem'] }, (element) => new SuperSpeed(element as MissionElementItem));
\ No newline at end of file
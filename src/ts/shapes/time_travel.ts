@@ -4,6 +4,7 @@ import { AudioManager } from "../audio";
 import { PHYSICS_TICK_RATE, TimeState } from "../level";
 import { state } from "../state";
 import OIMO from "../declarations/oimo";
+import { shapeRegistry } from "../registry";
 
 /** Temporarily pauses the game clock. */
 export class TimeTravel extends PowerUp {
@@ -41,9 +42,11 @@ export class TimeTravel extends PowerUp {
 		let completionOfImpact = this.level.physics.computeCompletionOfImpactWithBody(bodyOverride ?? this.bodies[0], 2);
 		let timeToRevert = (1 - completionOfImpact) * 1000 / PHYSICS_TICK_RATE;
 
-		if (this.level.replay.mode === 'playback') timeToRevert = this.level.replay.timeTravelTimeToRevert.get(this.id);
+		if (this.level.replay.isPlayingBackState) timeToRevert = this.level.replay.timeTravelTimeToRevert.get(this.id);
 		else this.level.replay.timeTravelTimeToRevert.set(this.id, timeToRevert);
 
 		this.level.addTimeTravelBonus(this.timeBonus, timeToRevert);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['timetravelitem', 'timepenaltyitem'] }, (element) => new TimeTravel(element as MissionElementItem));
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { ForceShape } from "./force_shape";
 import OIMO from "../declarations/oimo";
 import { AudioSource, AudioManager } from "../audio";
+import { shapeRegistry } from "../registry";
 
 /** Sucks the marble in and then slings it upwards. */
 export class Tornado extends ForceShape {
@@ -24,4 +25,6 @@ export class Tornado extends ForceShape {
 		this.soundSource.play();
 		await this.soundSource.promise;
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['tornado'] }, () => new Tornado());
\ No newline at end of file
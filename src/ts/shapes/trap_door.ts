@@ -3,6 +3,7 @@ import { Util } from "../util";
 import { TimeState } from "../level";
 import { MissionElementStaticShape, MisParser } from "../parsing/mis_parser";
 import { AudioManager } from "../audio";
+import { shapeRegistry } from "../registry";
 
 const ANIMATION_DURATION = 1666.6676998138428;
 const RESET_TIME = 5000;
@@ -62,4 +63,6 @@ export class TrapDoor extends Shape {
 
 		this.level.replay.recordMarbleContact(this);
 	}
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['trapdoor'] }, (element) => new TrapDoor(element as MissionElementStaticShape));
\ No newline at end of file
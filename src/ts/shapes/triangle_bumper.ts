@@ -1,7 +1,10 @@
 import { AbstractBumper } from "./abstract_bumper";
+import { shapeRegistry } from "../registry";
 
 /** A triangle-shaped bumper. */
 export class TriangleBumper extends AbstractBumper {
 	dtsPath = "shapes/bumpers/pball_tri.dts";
 	sounds = ["bumper1.wav"];
-}
\ No newline at end of file
+}
+
+shapeRegistry.register({ names: ['trianglebumper'] }, () => new TriangleBumper());
\ No newline at end of file
@@ -4,6 +4,12 @@ import { executeOnWorker } from "./worker";
 /** name, time, scoreId, timestamp */
 export type BestTimes = [string, number, string, number][];
 
+/** A point in a run at which the time is taken, and the gameplay clock at that point. */
+export interface Split {
+	type: 'gem' | 'checkpoint' | 'finish',
+	time: number
+}
+
 const MAX_SCORE_TIME = (99 * 60 + 59) * 1000 + 999.99; // The 99:59.999 thing
 
 export interface StorageData {
@@ -28,7 +34,9 @@ export interface StorageData {
 			"cameraRight": string,
 			"freeLook": string,
 			"restart": string,
-			"blast": string
+			"blast": string,
+			"saveState": string,
+			"loadState": string
 		},
 		mouseSensitivity: number,
 		keyboardSensitivity: number,
@@ -43,6 +51,12 @@ export interface StorageData {
 		pixelRatio: number,
 		inputType: number,
 		frameRateCap: number,
+		/** 0: Disabled, 1: Personal best, 2: World record */
+		ghost: number,
+		/** Lets the player save and load the level state at will. Runs played like this don't count. */
+		practiceMode: boolean,
+		/** Draws debugging aids, like the boundary of the mission area, into the level. */
+		debugOverlay: boolean,
 
 		joystickPosition: number,
 		joystickSize: number,
@@ -55,16 +69,28 @@ export interface StorageData {
 		actionButtonAsJoystickMultiplier: number
 	},
 	bestTimes: Record<string, BestTimes>,
+	/** For each mission path, the splits of the personal best. */
+	bestSplits: Record<string, Split[]>,
 	/** Used for the name entry in the post-game screen. */
 	lastUsedName: string,
 	/** A random ID to somewhat uniquely identify this user, even if they change their username. */
 	randomId: string,
+	/** The player account that's logged in, or null if playing anonymously. */
+	account: {
+		name: string,
+		/** Proves to the server that we're logged in. */
+		token: string
+	},
 	/** The queue of scores that are still to be sent to the server. */
 	bestTimeSubmissionQueue: Record<string, BestTimes[number]>,
+	/** Set when the account session ran out. The queued scores are held back until the player has logged in again, as they'd be rejected without the account. */
+	sessionExpired: boolean,
 	/** The last-seen version of the game. */
 	lastSeenVersion: string,
 	/** Mission paths whose eggs have been collected. */
 	collectedEggs: string[],
+	/** Paths of the missions the player marked as favorites in the level browser. */
+	favoriteMissions: string[],
 	/** Which modification was last used. */
 	modification: 'gold' | 'platinum'
 }
@@ -91,7 +117,9 @@ const DEFAULT_STORAGE_DATA: StorageData = {
 			"cameraRight": "ArrowRight",
 			"freeLook": "RMB",
 			"restart": "KeyR",
-			"blast": "KeyE"
+			"blast": "KeyE",
+			"saveState": "KeyF",
+			"loadState": "KeyG"
 		},
 		mouseSensitivity: 0.2,
 		keyboardSensitivity: 0.1,
@@ -105,6 +133,9 @@ const DEFAULT_STORAGE_DATA: StorageData = {
 		pixelRatio: 2,
 		inputType: 0,
 		frameRateCap: 7,
+		ghost: 0,
+		practiceMode: false,
+		debugOverlay: false,
 
 		joystickPosition: 0,
 		joystickSize: 250,
@@ -117,11 +148,15 @@ const DEFAULT_STORAGE_DATA: StorageData = {
 		actionButtonAsJoystickMultiplier: 1.5
 	},
 	bestTimes: {},
+	bestSplits: {},
 	lastUsedName: '',
 	randomId: Util.getRandomId(),
+	account: null,
 	bestTimeSubmissionQueue: {},
+	sessionExpired: false,
 	lastSeenVersion: null,
 	collectedEggs: [],
+	favoriteMissions: [],
 	modification: 'platinum'
 };
 
@@ -137,12 +172,15 @@ const VERSION_UPGRADE_PROCEDURES: Record<string, () => Promise<any>> = {
 export abstract class StorageManager {
 	static data: StorageData;
 	static idbDatabase: Promise<IDBDatabase>;
+	/** Whether the IndexedDB has been opened successfully. */
+	static idbOpened = false;
 
 	static async init() {
 		// Setup the IndexedDB
 		this.idbDatabase = new Promise((resolve) => {
-			let request = indexedDB.open("mb-database", 3);
+			let request = indexedDB.open("mb-database", 4);
 			request.onsuccess = (e) => {
+				this.idbOpened = true;
 				resolve((e.target as any).result);
 			};
 
@@ -163,6 +201,13 @@ export abstract class StorageManager {
 				} catch (error) {
 					transaction.objectStore('keyvalue');
 				}
+
+				// For caching parsed .dif and .dts files across visits
+				try {
+					db.createObjectStore('parsedAssets', {});
+				} catch (error) {
+					transaction.objectStore('parsedAssets');
+				}
 			};
 		});
 
@@ -214,6 +259,11 @@ export abstract class StorageManager {
 		if (changed) await this.storeBestTimes();
 	}
 
+	/** Sets up the default storage data without touching any browser storage. Used when running headless. */
+	static initHeadless() {
+		this.data = Util.jsonClone(DEFAULT_STORAGE_DATA);
+	}
+
 	/** Migrates from localStorage to IndexedDB. */
 	static async migrate() {
 		let stored = JSON.parse(localStorage.getItem('mb-storage')) as StorageData;
@@ -246,18 +296,19 @@ export abstract class StorageManager {
 	}
 
 	/** Get the three best times for a mission path. */
-	static getBestTimesForMission(path: string, count: number, placeholderName: string) {
+	/** Gets the best scores for a mission. If `descending` is set, higher values are better, as is the case for hunt scores. */
+	static getBestTimesForMission(path: string, count: number, placeholderName: string, descending = false) {
 		let result: BestTimes = [];
 		let stored = this.data.bestTimes[path];
 		if (stored) {
 			result.push(...stored);
 		}
-		result.sort((a, b) => a[1] - b[1]); // Make sure they're in ascending order
+		result.sort((a, b) => descending? b[1] - a[1] : a[1] - b[1]); // Make sure they're in order
 
 		let remaining = count - result.length;
 		for (let i = 0; i < remaining; i++) {
 			// Fill the remaining slots with Nardo Polo scores
-			result.push([placeholderName, MAX_SCORE_TIME, "", 0]);
+			result.push([placeholderName, descending? 0 : MAX_SCORE_TIME, "", 0]);
 		}
 
 		return result;
@@ -267,7 +318,7 @@ export abstract class StorageManager {
 	/** Register a new time for a mission.
 	 * @returns The inserted score and the index at which at was inserted. Returns null, if the score wasn't inserted (so, not in the top maxScoresPerLevel best times).
 	 */
-	static insertNewTime(path: string, name: string, time: number) {
+	static insertNewTime(path: string, name: string, time: number, descending = false) {
 		let stored = this.data.bestTimes[path] ?? [];
 		let scoreId = Util.getRandomId();
 		let toInsert: BestTimes[number] = [name, time, scoreId, Date.now()];
@@ -275,7 +326,7 @@ export abstract class StorageManager {
 		// Determine the correct index to insert the time at
 		let index: number;
 		for (index = 0; index < stored.length; index++) {
-			if (stored[index][1] > time) break;
+			if (descending? stored[index][1] < time : stored[index][1] > time) break;
 		}
 		stored.splice(index, 0, toInsert);
 
@@ -333,6 +384,16 @@ export abstract class StorageManager {
 		await new Promise(resolve => transaction.addEventListener('complete', resolve));
 	}
 
+	/** Deletes all entries from an IndexedDB store. */
+	static async databaseClear(storeName: string) {
+		let db = await this.idbDatabase;
+		let transaction = db.transaction(storeName, 'readwrite');
+		let store = transaction.objectStore(storeName);
+		store.clear();
+
+		await new Promise(resolve => transaction.addEventListener('complete', resolve));
+	}
+
 	/** Counts all entries in an IndexedDB store with a specific key. */
 	static async databaseCount(storeName: string, key: string): Promise<number> {
 		let db = await this.idbDatabase;
@@ -0,0 +1,130 @@
+import { Level, PHYSICS_TICK_RATE } from "./level";
+import { Replay } from "./replay";
+import { Mission } from "./mission";
+import { Util } from "./util";
+
+export type TelemetryFormat = 'json' | 'csv';
+
+type Vector = { x: number, y: number, z: number };
+
+/** The state of the marble after a single tick of a replay, along with everything that happened during that tick. */
+export interface TelemetryTick {
+	tickIndex: number,
+	/** The time shown on the clock, in milliseconds. */
+	gameplayClock: number,
+	position: Vector,
+	linearVelocity: Vector,
+	angularVelocity: Vector,
+	yaw: number,
+	pitch: number,
+	/** The shapes and triggers the marble entered, each described like "GemItem#12". */
+	marbleEnter: string[],
+	/** The shapes and triggers the marble left. */
+	marbleLeave: string[],
+	/** The power-ups that were used. */
+	uses: string[],
+	blast: boolean,
+	touchFinish: boolean
+}
+
+export interface Telemetry {
+	missionPath: string,
+	replayVersion: number,
+	timestamp: number,
+	tickRate: number,
+	ticks: TelemetryTick[]
+}
+
+const CSV_COLUMNS = ['tick', 'gameplay_clock', 'position_x', 'position_y', 'position_z', 'linear_velocity_x', 'linear_velocity_y', 'linear_velocity_z', 'angular_velocity_x', 'angular_velocity_y', 'angular_velocity_z', 'yaw', 'pitch', 'marble_enter', 'marble_leave', 'use', 'blast', 'touch_finish'];
+
+/** Describes a shape or trigger of a level in a human-readable way. */
+const describeObject = (level: Level, id: number) => {
+	let shape = level.shapes.find(x => x.id === id);
+	if (shape) {
+		let element = shape.srcElement;
+		let datablock = (element && 'datablock' in element)? element.datablock : null;
+		return `${datablock ?? shape.dtsPath}#${id}`;
+	}
+
+	let trigger = level.triggers.find(x => x.id === id);
+	if (trigger) return `${trigger.element.datablock}#${id}`;
+
+	return '#' + id;
+};
+
+/** Plays back a replay to create a table of what the marble did on every tick. */
+export const createTelemetry = async (replayData: ArrayBuffer, mission: Mission) => {
+	replayData = await Replay.maybeUpdateReplay(replayData, mission.path);
+	let replay = Replay.fromSerialized(replayData);
+	let ticks: TelemetryTick[] = [];
+	let level: Level;
+
+	await replay.simulate(mission, simulated => {
+		level = simulated;
+		let body = level.marble.body;
+
+		ticks.push({
+			tickIndex: ticks.length,
+			gameplayClock: level.timeState.gameplayClock,
+			position: Util.jsonClone(body.getPosition()),
+			linearVelocity: Util.jsonClone(body.getLinearVelocity()),
+			angularVelocity: Util.jsonClone(body.getAngularVelocity()),
+			yaw: level.yaw,
+			pitch: level.pitch,
+			marbleEnter: [],
+			marbleLeave: [],
+			uses: [],
+			blast: false,
+			touchFinish: false
+		});
+	});
+
+	// Input-based replays have noted their events down during the simulation, state-based ones have them stored already
+	for (let event of replay.marbleEnter) ticks[event.tickIndex]?.marbleEnter.push(describeObject(level, event.id));
+	for (let event of replay.marbleLeave) ticks[event.tickIndex]?.marbleLeave.push(describeObject(level, event.id));
+	for (let event of replay.uses) ticks[event.tickIndex]?.uses.push(describeObject(level, event.id));
+	for (let event of replay.blasts) if (ticks[event.tickIndex]) ticks[event.tickIndex].blast = true;
+	for (let tickIndex of replay.touchFinishTickIndices) if (ticks[tickIndex]) ticks[tickIndex].touchFinish = true;
+
+	let telemetry: Telemetry = {
+		missionPath: replay.missionPath,
+		replayVersion: replay.version,
+		timestamp: replay.timestamp,
+		tickRate: PHYSICS_TICK_RATE,
+		ticks
+	};
+	return telemetry;
+};
+
+/** Turns telemetry into CSV, with one row per tick. */
+export const telemetryToCsv = (telemetry: Telemetry) => {
+	const escape = (value: string) => /[",\n]/.test(value)? '"' + value.replace(/"/g, '""') + '"' : value;
+	let lines = [CSV_COLUMNS.join(',')];
+
+	for (let tick of telemetry.ticks) {
+		let values = [
+			tick.tickIndex, tick.gameplayClock,
+			tick.position.x, tick.position.y, tick.position.z,
+			tick.linearVelocity.x, tick.linearVelocity.y, tick.linearVelocity.z,
+			tick.angularVelocity.x, tick.angularVelocity.y, tick.angularVelocity.z,
+			tick.yaw, tick.pitch,
+			tick.marbleEnter.join(' '), tick.marbleLeave.join(' '), tick.uses.join(' '),
+			tick.blast? 1 : 0, tick.touchFinish? 1 : 0
+		];
+		lines.push(values.map(x => escape(x.toString())).join(','));
+	}
+
+	return lines.join('\n') + '\n';
+};
+
+/** Exports the telemetry of a replay as a .json or .csv file. */
+export const downloadTelemetry = async (replayData: ArrayBuffer, mission: Mission, format: TelemetryFormat) => {
+	let telemetry = await createTelemetry(replayData, mission);
+	let blob = (format === 'json')?
+		new Blob([JSON.stringify(telemetry)], { type: 'application/json' }) :
+		new Blob([telemetryToCsv(telemetry)], { type: 'text/csv' });
+
+	let url = URL.createObjectURL(blob);
+	Util.download(url, Replay.createFileName(mission) + '_telemetry.' + format);
+	URL.revokeObjectURL(url);
+};
@@ -1,5 +1,6 @@
 import { Shape } from "../shape";
 import { Trigger } from "./trigger";
+import { triggerRegistry } from "../registry";
 
 /** A checkpoint trigger sets the current checkpoint to an arbitrary shape in the level. */
 export class CheckpointTrigger extends Trigger {
@@ -13,4 +14,6 @@ export class CheckpointTrigger extends Trigger {
 		this.level.saveCheckpointState(respawnShape, this);
 		this.level.replay.recordMarbleEnter(this);
 	}
-}
\ No newline at end of file
+}
+
+triggerRegistry.register({ names: ['checkpointtrigger'] }, (element, level) => new CheckpointTrigger(element, level));
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { Trigger } from "./trigger";
+import { triggerRegistry } from "../registry";
 
 /** Specifies the destination of a teleport. */
 export class DestinationTrigger extends Trigger {
 	// No special functionality here, it just needs to exist
-}
\ No newline at end of file
+}
+
+triggerRegistry.register({ names: ['destinationtrigger'] }, (element, level) => new DestinationTrigger(element, level));
\ No newline at end of file
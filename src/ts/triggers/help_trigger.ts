@@ -1,12 +1,14 @@
 import { Trigger } from "./trigger";
-import { state } from "../state";
+import { triggerRegistry } from "../registry";
 
 /** A help trigger displays an info message when the player touches one. */
 export class HelpTrigger extends Trigger {
 	sounds = ['infotutorial.wav'];
 
 	onMarbleEnter() {
-		state.menu.hud.displayHelp(this.element.text, true);
+		this.level.hud?.displayHelp(this.element.text, true);
 		this.level.replay.recordMarbleEnter(this);
 	}
-}
\ No newline at end of file
+}
+
+triggerRegistry.register({ names: ['helptrigger'] }, (element, level) => new HelpTrigger(element, level));
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Trigger } from "./trigger";
+import { triggerRegistry } from "../registry";
 
 /** An in-bounds trigger causes OOB on marble exit. */
 export class InBoundsTrigger extends Trigger {
@@ -6,4 +7,6 @@ export class InBoundsTrigger extends Trigger {
 		this.level.goOutOfBounds();
 		this.level.replay.recordMarbleLeave(this);
 	}
-}
\ No newline at end of file
+}
+
+triggerRegistry.register({ names: ['inboundstrigger'] }, (element, level) => new InBoundsTrigger(element, level));
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Trigger } from "./trigger";
+import { triggerRegistry } from "../registry";
 
 /** An out-of-bounds trigger causes OOB if the marble enters it. */
 export class OutOfBoundsTrigger extends Trigger {
@@ -6,4 +7,6 @@ export class OutOfBoundsTrigger extends Trigger {
 		this.level.goOutOfBounds();
 		this.level.replay.recordMarbleInside(this);
 	}
-}
\ No newline at end of file
+}
+
+triggerRegistry.register({ names: ['outofboundstrigger'] }, (element, level) => new OutOfBoundsTrigger(element, level));
\ No newline at end of file
@@ -2,10 +2,10 @@ import { AudioManager, AudioSource } from "../audio";
 import OIMO from "../declarations/oimo";
 import { DEFAULT_PITCH, Level, TimeState } from "../level";
 import { MisParser, MissionElementTrigger } from "../parsing/mis_parser";
-import { state } from "../state";
 import { Util } from "../util";
 import { DestinationTrigger } from "./destination_trigger";
 import { Trigger } from "./trigger";
+import { triggerRegistry } from "../registry";
 
 /** A teleport trigger teleports the marble to a specified destination after some time of being inside it. */
 export class TeleportTrigger extends Trigger {
@@ -29,7 +29,9 @@ export class TeleportTrigger extends Trigger {
 		if (this.entryTime !== null) return;
 
 		this.entryTime = time.currentAttemptTime;
-		state.menu.hud.displayAlert("Teleporter has been activated, please wait.");
+		this.level.hud?.displayAlert("Teleporter has been activated, please wait.");
+		if (this.level.headless) return;
+
 		this.teleportingSound = AudioManager.createAudioSource('teleport.wav');
 		this.teleportingSound.play();
 	}
@@ -98,4 +100,6 @@ export class TeleportTrigger extends Trigger {
 		this.entryTime = null;
 		this.exitTime = null;
 	}
-}
\ No newline at end of file
+}
+
+triggerRegistry.register({ names: ['teleporttrigger'] }, (element, level) => new TeleportTrigger(element, level));
\ No newline at end of file
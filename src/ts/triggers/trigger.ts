@@ -5,11 +5,15 @@ import { Util } from "../util";
 import * as THREE from "three";
 import { AudioManager } from "../audio";
 
-/** A trigger is a cuboid-shaped area whose overlap with the marble causes certain events to happen. */
+/** A trigger is a parallelepiped-shaped area whose overlap with the marble causes certain events to happen. */
 export class Trigger {
 	id: number;
 	vertices: THREE.Vector3[];
+	/** The center of the parallelepiped. */
+	center: OIMO.Vec3;
 	body: OIMO.RigidBody;
+	exactGeometry: OIMO.ConvexHullGeometry;
+	aabbGeometry: OIMO.BoxGeometry;
 	level: Level;
 	element: MissionElementTrigger;
 	sounds: string[] = [];
@@ -44,24 +48,32 @@ export class Trigger {
 			.map((vert) => Util.vecOimoToThree(vert).applyMatrix4(mat));
 		this.vertices = vertices;
 
-		// Triggers ignore the actual shape of the polyhedron and simply use its AABB.
+		// The collision geometry is positioned at the center of the parallelepiped, which is also the center of its AABB
 		let aabb = Util.createAabbFromVectors(vertices);
+		this.center = new OIMO.Vec3(Util.avg(aabb.max.x, aabb.min.x), Util.avg(aabb.max.y, aabb.min.y), Util.avg(aabb.max.z, aabb.min.z));
+		this.aabbGeometry = new OIMO.BoxGeometry(new OIMO.Vec3((aabb.max.x - aabb.min.x) / 2, (aabb.max.y - aabb.min.y) / 2, (aabb.max.z - aabb.min.z) / 2));
+		this.exactGeometry = new OIMO.ConvexHullGeometry(vertices.map(vert => Util.vecThreeToOimo(vert).subEq(this.center)));
 
 		// Create the collision geometry
-		let geometry = new OIMO.BoxGeometry(new OIMO.Vec3((aabb.max.x - aabb.min.x) / 2, (aabb.max.y - aabb.min.y) / 2, (aabb.max.z - aabb.min.z) / 2));
 		let shapeConfig = new OIMO.ShapeConfig();
-		shapeConfig.geometry = geometry;
+		shapeConfig.geometry = this.exactGeometry;
 		let shape = new OIMO.Shape(shapeConfig);
 		shape.userData = this.id;
 		let bodyConfig = new OIMO.RigidBodyConfig();
 		bodyConfig.type = OIMO.RigidBodyType.STATIC;
 		let body = new OIMO.RigidBody(bodyConfig);
 		body.addShape(shape);
-		body.setPosition(new OIMO.Vec3(Util.avg(aabb.max.x, aabb.min.x), Util.avg(aabb.max.y, aabb.min.y), Util.avg(aabb.max.z, aabb.min.z)));
+		body.setPosition(this.center);
 
 		this.body = body;
 	}
 
+	/** Switches between the exact shape of the polyhedron and its AABB, which is what triggers used to be. Replays recorded back then need the latter to play back correctly. */
+	setExactShape(exact: boolean) {
+		this.body.getShapeList()._geom = exact? this.exactGeometry : this.aabbGeometry;
+		this.body.setPosition(this.center); // Makes the body recompute its bounds
+	}
+
 	async init() {
 		// Preload all sounds
 		for (let sound of this.sounds) {
@@ -1,4 +1,5 @@
 import { AudioManager } from "../audio";
+import { ChallengeManager } from "../challenge";
 import { isPressedByGamepad, getPressedFlag, resetPressedFlag } from "../input";
 import { Leaderboard } from "../leaderboard";
 import { GO_TIME } from "../level";
@@ -13,9 +14,11 @@ export abstract class FinishScreen {
 	time: HTMLParagraphElement;
 	message: HTMLParagraphElement;
 	bestTimeContainer: HTMLDivElement;
+	splitsContainer: HTMLDivElement;
 	replayButton: HTMLImageElement;
 	continueButton: HTMLImageElement;
 	viewReplayButton: HTMLImageElement;
+	exportReplayButton: HTMLImageElement;
 
 	nameEntryScreenDiv: HTMLDivElement;
 	nameEntryText: HTMLParagraphElement;
@@ -60,7 +63,13 @@ export abstract class FinishScreen {
 		
 			// Store the time and close the dialog.
 			let level = state.level;
-			let inserted = StorageManager.insertNewTime(level.mission.path, trimmed, level.finishTime.gameplayClock);
+			let inserted = StorageManager.insertNewTime(level.mission.path, trimmed, this.getResult(), level.mission.isHunt);
+			if (inserted?.index === 0) {
+				// This is the new personal best, so its splits are the ones to beat from now on
+				StorageManager.data.bestSplits[level.mission.path] = level.splits;
+				StorageManager.store();
+				level.bestSplits = level.splits;
+			}
 		
 			this.nameEntryScreenDiv.classList.add('hidden');
 			this.div.style.pointerEvents = '';
@@ -68,15 +77,19 @@ export abstract class FinishScreen {
 		
 			if (inserted) {
 				// Store the replay
+				let replayStored = false;
 				if (level.replay.mode === 'record' && !level.replay.isInvalid) {
 					level.replay.canStore = false;
 					let serialized = await level.replay.serialize();
 					await StorageManager.databasePut('replays', serialized, inserted.score[2]);
+					replayStored = true;
 				}
 		
-				// Submit the score to the leaderboard but only if it's the local top time and qualified
-				if (inserted.index === 0 && level.finishTime.gameplayClock <= level.mission.qualifyTime) Leaderboard.submitBestTime(level.mission.path, inserted.score);
+				// Submit the score to the leaderboard but only if it's the local top time and qualified. Scores on imported levels stay local, and scores without a replay can't be verified by the server.
+				if (replayStored && inserted.index === 0 && level.mission.rateResult(this.getResult()) !== 'failed' && !level.practice && !level.mission.isLocal) Leaderboard.submitBestTime(level.mission.path, inserted.score);
 			}
+
+			this.submitChallengeScore(trimmed);
 		}, undefined, undefined, state.modification === 'gold');
 
 		window.addEventListener('keydown', (e) => {
@@ -125,37 +138,32 @@ export abstract class FinishScreen {
 	
 		let elapsedTime = Math.max(level.finishTime.currentAttemptTime - GO_TIME, 0);
 		let bonusTime = Util.roundToMultiple(Math.max(0, elapsedTime - level.finishTime.gameplayClock), 1e-8); // Fix 4999 bullshit
-		let failedToQualify = false;
+		let result = this.getResult();
 	
 		// Change the message based on having achieve gold time, qualified time or not having qualified.
-		if (level.finishTime.gameplayClock > level.mission.qualifyTime) {
-			this.showMessage('failed');
-			failedToQualify = true;
-		} else if (level.finishTime.gameplayClock <= level.mission.ultimateTime) {
-			this.showMessage('ultimate');
-		} else if (level.finishTime.gameplayClock <= level.mission.goldTime) {
-			this.showMessage('gold');
-		} else {
-			this.showMessage('qualified');
-		}
+		let rating = level.mission.rateResult(result);
+		let failedToQualify = rating === 'failed';
+		this.showMessage(rating);
 
 		this.updateTimeElements(elapsedTime, bonusTime, failedToQualify);
 	
 		this.drawBestTimes();
+		this.drawSplits();
 	
-		let bestTimes = StorageManager.getBestTimesForMission(level.mission.path, this.bestTimeCount, this.scorePlaceholderName);
-		let place = bestTimes.filter((time) => time[1] <= level.finishTime.gameplayClock).length; // The place is determined by seeing how many scores there currently are faster than the achieved time.
+		let bestTimes = StorageManager.getBestTimesForMission(level.mission.path, this.bestTimeCount, this.scorePlaceholderName, level.mission.isHunt);
+		let place = bestTimes.filter((time) => level.mission.compareResults(time[1], result) <= 0).length; // The place is determined by seeing how many scores there currently are better than the achieved one.
 	
-		if (place < this.bestTimeCount && (!failedToQualify || this.storeNotQualified)) {
+		if (place < this.bestTimeCount && (!failedToQualify || this.storeNotQualified) && !level.practice) { // Practice runs don't get any scores
 			// Prompt the user to enter their name
 			this.nameEntryScreenDiv.classList.remove('hidden');
 			this.nameEntryText.textContent = this.generateNameEntryText(place);
-			this.nameEntryInput.value = StorageManager.data.lastUsedName;
+			this.nameEntryInput.value = StorageManager.data.account?.name ?? StorageManager.data.lastUsedName; // The server uses the account's name anyway
 			this.div.style.pointerEvents = 'none';
 			//nameEntryInput.select(); // Don't select, since we want to avoid renames for leaderboard consistency
 		} else {
 			this.nameEntryScreenDiv.classList.add('hidden');
 			this.div.style.pointerEvents = '';
+			this.submitChallengeScore(StorageManager.data.account?.name ?? StorageManager.data.lastUsedName);
 		}
 	
 		if (!failedToQualify && level.mission.type !== 'custom') {
@@ -163,17 +171,67 @@ export abstract class FinishScreen {
 			if (levelSelect.currentMission === level.mission) levelSelect.cycleMission(1); // Cycle to that next level, but only if it isn't already selected
 		}
 	
-		// Hide the replay button if the replay's invalid
+		// Hide the replay buttons if the replay's invalid
 		this.viewReplayButton.style.display = level.replay.isInvalid? 'none' : '';
+		this.exportReplayButton.style.display = level.replay.isInvalid? 'none' : '';
 	}
 
 	hide() {
 		this.div.classList.add('hidden');
 	}
 
+	/** Submits the run to the challenge the level is played for, as long as it qualified. The name only matters when not logged into an account. */
+	async submitChallengeScore(name: string) {
+		let level = state.level;
+		let result = this.getResult();
+		if (!level.challengeId || level.practice || level.mission.rateResult(result) === 'failed') return;
+		if (level.replay.mode !== 'record' || level.replay.isInvalid) return; // The server needs the replay to verify the score
+
+		let replayData = await level.replay.serialize();
+		let error = await ChallengeManager.submitScore(level.challengeId, name, result, replayData);
+		if (error) state.menu.showAlertPopup('Challenge', error);
+	}
+
+	/** Gets the result of the run that's stored in the scores: The time, or the score in hunt mode. */
+	getResult() {
+		let level = state.level;
+		return level.mission.isHunt? level.huntScore : level.finishTime.gameplayClock;
+	}
+
+	/** Lists the splits of the run, compared to the personal best. */
+	drawSplits() {
+		let level = state.level;
+		let counts = { gem: 0, checkpoint: 0, finish: 0 };
+		this.splitsContainer.innerHTML = '';
+		this.splitsContainer.classList.toggle('hidden', level.splits.length === 0);
+
+		for (let [i, split] of level.splits.entries()) {
+			counts[split.type]++;
+			let label = { gem: (state.modification === 'gold')? 'Gem' : 'Diamond', checkpoint: 'Checkpoint', finish: 'Finish' }[split.type];
+			if (split.type !== 'finish') label += ' ' + counts[split.type];
+
+			let row = document.createElement('div');
+			let labelElement = document.createElement('span');
+			labelElement.textContent = label;
+			let timeElement = document.createElement('span');
+			timeElement.textContent = Util.secondsToTimeString(split.time / 1000);
+			let deltaElement = document.createElement('span');
+			row.append(labelElement, timeElement, deltaElement);
+
+			let bestSplit = level.bestSplits?.[i];
+			if (bestSplit?.type === split.type) {
+				let delta = split.time - bestSplit.time;
+				deltaElement.textContent = Util.timeDeltaToString(delta);
+				deltaElement.classList.add((delta <= 0)? 'ahead' : 'behind');
+			}
+
+			this.splitsContainer.appendChild(row);
+		}
+	}
+
 	/** Updates the best times. */
 	drawBestTimes() {
-		let bestTimes = StorageManager.getBestTimesForMission(state.level.mission.path, this.bestTimeCount, this.scorePlaceholderName);
+		let bestTimes = StorageManager.getBestTimesForMission(state.level.mission.path, this.bestTimeCount, this.scorePlaceholderName, state.level.mission.isHunt);
 		for (let i = 0; i < this.bestTimeCount; i++) {
 			this.updateBestTimeElement(this.bestTimeContainer.children[i] as HTMLDivElement, bestTimes[i], i+1);
 		}
@@ -195,6 +253,12 @@ export abstract class FinishScreen {
 		}
 	}
 
+	async onExportReplayButtonClick() {
+		let level = state.level;
+		let serialized = await level.replay.serialize();
+		state.menu.showReplayExportPopup(serialized, level.mission, false);
+	}
+
 	handleGamepadInput() {
 		// If the finish screen is up, handle those buttons ...
 		if (!this.nameEntryScreenDiv.classList.contains('hidden')) {
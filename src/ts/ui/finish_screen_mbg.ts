@@ -7,6 +7,7 @@ import { Menu } from "./menu";
 
 export class MbgFinishScreen extends FinishScreen {
 	viewReplayButton = document.querySelector('#finish-view-replay') as HTMLImageElement;
+	exportReplayButton = document.querySelector('#finish-export-replay') as HTMLImageElement;
 	qualifyTimeElement: HTMLElement;
 	goldTimeElement: HTMLElement;
 	elapsedTimeElement: HTMLElement;
@@ -27,6 +28,7 @@ export class MbgFinishScreen extends FinishScreen {
 		this.replayButton = document.querySelector('#finish-replay');
 		this.continueButton = document.querySelector('#finish-continue');
 		this.bestTimeContainer = document.querySelector('#finish-best-times');
+		this.splitsContainer = document.querySelector('#finish-splits');
 
 		this.nameEntryScreenDiv = document.querySelector('#name-entry-screen');
 		this.nameEntryText = document.querySelector('#name-entry-screen > p:nth-child(3)');
@@ -43,8 +45,14 @@ export class MbgFinishScreen extends FinishScreen {
 			this.onViewReplayButtonClick(e.altKey);
 		});
 		Util.onLongTouch(this.viewReplayButton, () => this.onViewReplayButtonClick(true));
-		this.viewReplayButton.addEventListener('mouseenter', () => AudioManager.play('buttonover.wav'));
-		this.viewReplayButton.addEventListener('mousedown', () => AudioManager.play('buttonpress.wav'));
+		this.exportReplayButton.addEventListener('click', (e) => {
+			if (e.button !== 0) return;
+			this.onExportReplayButtonClick();
+		});
+		for (let button of [this.viewReplayButton, this.exportReplayButton]) {
+			button.addEventListener('mouseenter', () => AudioManager.play('buttonover.wav'));
+			button.addEventListener('mousedown', () => AudioManager.play('buttonpress.wav'));
+		}
 	}
 
 	showMessage(type: 'failed' | 'qualified' | 'gold' | 'ultimate') {
@@ -1,3 +1,4 @@
+import { AudioManager } from "../audio";
 import { MissionLibrary } from "../mission_library";
 import { state } from "../state";
 import { BestTimes } from "../storage";
@@ -11,6 +12,7 @@ export const MBP_ULTIMATE_COLOR = 'rgb(255, 221, 34)';
 
 export class MbpFinishScreen extends FinishScreen {
 	viewReplayButton = document.querySelector('#mbp-finish-view-replay') as HTMLImageElement;
+	exportReplayButton = document.querySelector('#mbp-finish-export-replay') as HTMLImageElement;
 	timeRows = document.querySelector('#mbp-finish-time-rows') as HTMLDivElement;
 	qualifyTimeElement: HTMLElement;
 	goldTimeElement: HTMLElement;
@@ -32,6 +34,7 @@ export class MbpFinishScreen extends FinishScreen {
 		this.replayButton = document.querySelector('#mbp-finish-replay');
 		this.continueButton = document.querySelector('#mbp-finish-continue');
 		this.bestTimeContainer = document.querySelector('#mbp-finish-screen-top-times');
+		this.splitsContainer = document.querySelector('#mbp-finish-splits');
 
 		this.nameEntryScreenDiv = document.querySelector('#mbp-name-entry-screen');
 		this.nameEntryText = document.querySelector('#mbp-name-entry-screen > p:nth-child(3)');
@@ -45,6 +48,12 @@ export class MbpFinishScreen extends FinishScreen {
 
 		menu.setupButton(this.viewReplayButton, 'play/replay', (e) => this.onViewReplayButtonClick(e.altKey));
 		Util.onLongTouch(this.viewReplayButton, () => this.onViewReplayButtonClick(true));
+		this.exportReplayButton.addEventListener('click', (e) => {
+			if (e.button !== 0) return;
+			this.onExportReplayButtonClick();
+		});
+		this.exportReplayButton.addEventListener('mouseenter', () => AudioManager.play('buttonover.wav'));
+		this.exportReplayButton.addEventListener('mousedown', () => AudioManager.play('buttonpress.wav'));
 
 		this.qualifyTimeElement = this.createTimeRow('Par Time').children[0] as HTMLSpanElement;
 		this.goldTimeElement = this.createTimeRow('Gold Time').children[0] as HTMLSpanElement;
@@ -90,6 +99,11 @@ export class MbpFinishScreen extends FinishScreen {
 	showMessage(type: 'failed' | 'qualified' | 'gold' | 'ultimate') {
 		this.message.style.color = '';
 
+		if (state.level.mission.isHunt) {
+			this.showHuntMessage(type);
+			return;
+		}
+
 		if (type === 'ultimate') {
 			this.message.innerHTML = `You beat the <span style="color: ${MBP_ULTIMATE_COLOR};">Ultimate</span> Time!`;
 		} else if (type === 'gold') {
@@ -103,9 +117,36 @@ export class MbpFinishScreen extends FinishScreen {
 		}
 	}
 
+	showHuntMessage(type: 'failed' | 'qualified' | 'gold' | 'ultimate') {
+		if (type === 'ultimate') {
+			this.message.innerHTML = `You reached the <span style="color: ${MBP_ULTIMATE_COLOR};">Ultimate</span> Score!`;
+		} else if (type === 'gold') {
+			this.message.innerHTML = `You reached the <span style="color: ${MBP_PLATINUM_COLOR};">Platinum</span> Score!`;
+		} else if (type === 'qualified') {
+			this.message.innerHTML = (state.level.mission.qualifyScore > 0)? "You reached the Par Score!" : "Time's up!";
+		} else {
+			this.message.innerHTML = "You didn't reach the Par Score!";
+			this.message.style.color = 'rgb(245, 85, 85)';
+		}
+	}
+
+	/** Changes the label of a time row, keeping its value. */
+	setTimeRowLabel(element: HTMLSpanElement, label: string) {
+		element.parentElement.firstChild.textContent = label + ':';
+	}
+
 	updateTimeElements(elapsedTime: number, bonusTime: number) {
 		let level = state.level;
 
+		this.setTimeRowLabel(this.qualifyTimeElement, level.mission.isHunt? 'Par Score' : 'Par Time');
+		this.setTimeRowLabel(this.platinumTimeElement, level.mission.isHunt? 'Platinum Score' : 'Platinum Time');
+		this.setTimeRowLabel(this.ultimateTimeElement, level.mission.isHunt? 'Ultimate Score' : 'Ultimate Time');
+
+		if (level.mission.isHunt) {
+			this.updateScoreElements(elapsedTime, bonusTime);
+			return;
+		}
+
 		this.time.textContent = Util.secondsToTimeString(level.finishTime.gameplayClock / 1000);
 		this.qualifyTimeElement.textContent = isFinite(level.mission.qualifyTime)? Util.secondsToTimeString(level.mission.qualifyTime / 1000) : Util.secondsToTimeString(5999.999);
 		Util.monospaceNumbers(this.qualifyTimeElement);
@@ -141,27 +182,46 @@ export class MbpFinishScreen extends FinishScreen {
 		Util.monospaceNumbers(this.bonusTimeElement);
 	}
 
+	/** Shows the score and the scores to reach instead of the times in hunt mode. */
+	updateScoreElements(elapsedTime: number, bonusTime: number) {
+		let level = state.level;
+		let mission = level.mission;
+
+		this.time.textContent = mission.formatResult(level.huntScore);
+		this.qualifyTimeElement.textContent = mission.qualifyScore.toString();
+		this.goldTimeElement.parentElement.style.display = 'none';
+		this.platinumTimeElement.parentElement.style.display = isFinite(mission.goldScore)? '' : 'none';
+		this.platinumTimeElement.textContent = mission.goldScore.toString();
+		this.ultimateTimeElement.parentElement.style.display = isFinite(mission.ultimateScore)? '' : 'none';
+		this.ultimateTimeElement.textContent = mission.ultimateScore.toString();
+
+		this.elapsedTimeElement.textContent = Util.secondsToTimeString(elapsedTime / 1000);
+		this.bonusTimeElement.textContent = Util.secondsToTimeString(bonusTime / 1000);
+		Util.monospaceNumbers(this.elapsedTimeElement);
+		Util.monospaceNumbers(this.bonusTimeElement);
+	}
+
 	createBestTimeElement() {
 		let div = document.createElement('div');
 		return div;
 	}
 
 	updateBestTimeElement(element: HTMLDivElement, score: BestTimes[number], rank: number) {
-		let goldTime = state.level.mission.goldTime;
-		let ultimateTime = state.level.mission.ultimateTime;
+		let mission = state.level.mission;
 
 		let tmp = document.createElement('div');
-		tmp.textContent = Util.secondsToTimeString(score[1] / 1000);
+		tmp.textContent = mission.formatResult(score[1]);
 		Util.monospaceNumbers(tmp);
 		element.innerHTML = `<div><span>${rank}. </span>${Util.htmlEscape(score[0])}</div><div>${tmp.innerHTML}</div>`;
 
 		element.style.color = '';
-		if (score[1] <= goldTime) element.style.color = (state.level.mission.modification === 'gold')? MBP_GOLD_COLOR : MBP_PLATINUM_COLOR;
-		if (score[1] <= ultimateTime) element.style.color = MBP_ULTIMATE_COLOR;
+		let rating = mission.rateResult(score[1]);
+		if (rating === 'gold') element.style.color = (mission.modification === 'gold')? MBP_GOLD_COLOR : MBP_PLATINUM_COLOR;
+		if (rating === 'ultimate') element.style.color = MBP_ULTIMATE_COLOR;
 	}
 
 	generateNameEntryText(place: number) {
-		return `You have the ${['top', 'second top', 'third top', 'fourth top', 'fifth top'][place]} time!`;
+		return `You have the ${['top', 'second top', 'third top', 'fourth top', 'fifth top'][place]} ${state.level.mission.isHunt? 'score' : 'time'}!`;
 	}
 
 	/** Figures out what the next level after this one should be. */
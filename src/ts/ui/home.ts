@@ -4,7 +4,12 @@ import { state } from "../state";
 import { StorageManager } from "../storage";
 import { Util } from "../util";
 import { Menu } from "./menu";
+import { OfflineManager } from "../offline";
 import { setMenu } from "./menu_setter";
+import { AccountManager } from "../account";
+import { AudioManager } from "../audio";
+import { Challenge, ChallengeManager } from "../challenge";
+import { MissionLibrary } from "../mission_library";
 
 export abstract class HomeScreen {
 	div: HTMLDivElement;
@@ -18,6 +23,9 @@ export abstract class HomeScreen {
 	changelogBackButton: HTMLImageElement;
 	changelogContent: HTMLDivElement;
 	version: HTMLParagraphElement;
+	offlineIndicator: HTMLParagraphElement;
+	accountButton: HTMLParagraphElement;
+	challengeButton: HTMLParagraphElement;
 
 	playSrc: string;
 	optionsSrc: string;
@@ -60,18 +68,149 @@ export abstract class HomeScreen {
 		this.div.querySelector('.modification-switcher').addEventListener('click', () => {
 			setMenu((state.modification === 'gold')? 'platinum' : 'gold');
 		});
+
+		this.offlineIndicator = this.div.querySelector('.offline-indicator');
+		this.updateOfflineIndicator();
+		window.addEventListener('online', () => this.updateOfflineIndicator());
+		window.addEventListener('offline', () => this.updateOfflineIndicator());
+
+		this.accountButton = this.div.querySelector('.account-button');
+		this.accountButton.addEventListener('click', () => {
+			AudioManager.play('buttonpress.wav');
+			this.showAccountPopup();
+		});
+		this.updateAccountButton();
+
+		this.challengeButton = this.div.querySelector('.challenge-button');
+		this.challengeButton.addEventListener('click', () => {
+			AudioManager.play('buttonpress.wav');
+			this.showChallengePopup();
+		});
 	}
 
 	abstract initProperties(): void;
 
 	show() {
 		this.div.classList.remove('hidden');
+		this.updateAccountButton(); // The session might have expired in the meantime
 	}
 
 	hide() {
 		this.div.classList.add('hidden');
 	}
 
+	updateOfflineIndicator() {
+		if (OfflineManager.isOffline) this.offlineIndicator.classList.remove('hidden');
+		else this.offlineIndicator.classList.add('hidden');
+	}
+
+	updateAccountButton() {
+		this.accountButton.textContent = AccountManager.account?.name ?? 'Log in';
+	}
+
+	showAccountPopup() {
+		let div = document.createElement('div');
+		div.classList.add('account-popup');
+
+		const createLink = (text: string, onClick: () => void) => {
+			let link = document.createElement('a');
+			link.textContent = text;
+			link.addEventListener('click', onClick);
+			return link;
+		};
+
+		const update = () => {
+			div.innerHTML = '';
+			this.updateAccountButton();
+
+			if (AccountManager.account) {
+				let text = document.createElement('p');
+				let name = document.createElement('b');
+				name.textContent = AccountManager.account.name;
+				text.append('Logged in as ', name, '. ', createLink('Log out', () => {
+					AccountManager.logOut();
+					update();
+				}));
+				div.append(text);
+
+				return;
+			}
+
+			let nameInput = document.createElement('input');
+			nameInput.placeholder = 'Name';
+			nameInput.maxLength = 16;
+			nameInput.value = StorageManager.data.lastUsedName;
+			let passwordInput = document.createElement('input');
+			passwordInput.type = 'password';
+			passwordInput.placeholder = 'Password';
+			let status = document.createElement('p');
+			status.classList.add('_status');
+			if (StorageManager.data.sessionExpired) status.textContent = "Your session has expired. Log in again to submit your queued scores.";
+
+			const submit = async (register: boolean) => {
+				status.textContent = register? 'Registering...' : 'Logging in...';
+				let error = await AccountManager.logIn(nameInput.value.trim(), passwordInput.value, register);
+				if (error) status.textContent = error;
+				else update();
+			};
+
+			passwordInput.addEventListener('keydown', (e) => {
+				if (e.key === 'Enter') submit(false);
+			});
+
+			let links = document.createElement('p');
+			links.append(createLink('Log in', () => submit(false)), ' · ', createLink('Register', () => submit(true)));
+
+			div.append(nameInput, passwordInput, links, status);
+		};
+		update();
+
+		state.menu.showAlertPopup('Account', "An account protects your name on the online leaderboard. The scores you've set on this device are moved over to it.", div);
+	}
+
+	/** Shows the current daily and weekly challenge, how they're going and lets the player jump right into them. */
+	showChallengePopup() {
+		let div = document.createElement('div');
+		div.classList.add('challenge-popup');
+		div.textContent = 'Loading...';
+
+		const describeChallenge = (challenge: Challenge) => {
+			let mission = MissionLibrary.allMissions.find(x => x.path === challenge.mission);
+			let formatResult = (result: number) => mission?.isHunt? `${result} ${(result === 1)? 'point' : 'points'}` : Util.secondsToTimeString(result / 1000);
+			let minutesLeft = Math.max(0, Math.ceil((challenge.endsAt - Date.now()) / 60000));
+
+			let heading = document.createElement('p');
+			let type = document.createElement('b');
+			type.textContent = (challenge.type === 'daily')? 'Daily:' : 'Weekly:';
+			let play = document.createElement('a');
+			play.textContent = 'Play';
+			play.addEventListener('click', () => {
+				div.closest('.popup')?.querySelector<HTMLImageElement>('._okay')?.click(); // Close the popup
+				ChallengeManager.play(challenge);
+			});
+			heading.append(type, ' ', mission?.title ?? challenge.missionName ?? challenge.mission, ' · ', play);
+
+			let status = document.createElement('p');
+			status.classList.add('_status');
+			status.textContent = `Ends in ${Math.floor(minutesLeft / 60)}h ${minutesLeft % 60}m. `;
+			status.textContent += challenge.scores.length? `Best: ${challenge.scores[0][0]} (${formatResult(challenge.scores[0][1])}), ${challenge.scores.length} ${(challenge.scores.length === 1)? 'player' : 'players'}` : 'No scores yet.';
+
+			return [heading, status];
+		};
+
+		ChallengeManager.getChallenges().then(challenges => {
+			if (!challenges) {
+				div.textContent = "The challenges couldn't be loaded. Check your internet connection and try again.";
+				return;
+			}
+
+			div.textContent = '';
+			div.append(...describeChallenge(challenges.daily), ...describeChallenge(challenges.weekly));
+		});
+
+		state.menu.showAlertPopup('Challenges', "Everyone gets the same level, and every qualified finish before the challenge ends counts.", div);
+	}
+
 	async init() {
 		// Fetch and display the version history
 		let blob = await ResourceManager.loadResource('/api/version_history');
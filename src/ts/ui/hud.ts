@@ -32,6 +32,7 @@ export abstract class Hud {
 	clockCtx: CanvasRenderingContext2D;
 	helpElement: HTMLDivElement;
 	alertElement: HTMLDivElement;
+	splitDeltaElement: HTMLDivElement;
 	centerElement: HTMLImageElement;
 	powerUpBorder: HTMLImageElement;
 	clockBackground: HTMLImageElement;
@@ -54,6 +55,7 @@ export abstract class Hud {
 		this.clockCtx = this.clockCanvas.getContext('2d');
 		this.helpElement = document.querySelector('#help-text');
 		this.alertElement = document.querySelector('#alert-text');
+		this.splitDeltaElement = document.querySelector('#split-delta');
 		this.centerElement = document.querySelector('#center-text');
 		this.powerUpBorder = document.querySelector('#powerup-border');
 		this.clockBackground = document.querySelector('#clock-background');
@@ -183,7 +185,15 @@ export abstract class Hud {
 		if (total === 0) return;
 
 		let string = Util.leftPadZeroes(count.toString(), this.gemCountMinDigits) + '/' + Util.leftPadZeroes(total.toString(), this.gemCountMinDigits);
+		this.displayGemCountString(string);
+	}
+
+	/** Displays the score in hunt mode, in place of the gem count. */
+	displayScore(score: number) {
+		this.displayGemCountString(Util.leftPadZeroes(score.toString(), this.gemCountMinDigits));
+	}
 
+	displayGemCountString(string: string) {
 		// Generate the appropriate number of image elements
 		while (string.length > this.gemCountElement.children.length) {
 			let newChild = document.createElement('img');
@@ -253,6 +263,14 @@ export abstract class Hud {
 		state.level.alertTextTimeState = Util.jsonClone(state.level.timeState);
 	}
 
+	/** Shows how far ahead of or behind the personal best the player is, in milliseconds. */
+	displaySplitDelta(delta: number) {
+		this.splitDeltaElement.textContent = Util.timeDeltaToString(delta);
+		this.splitDeltaElement.classList.toggle('ahead', delta <= 0);
+		this.splitDeltaElement.classList.toggle('behind', delta > 0);
+		state.level.splitDeltaTimeState = Util.jsonClone(state.level.timeState);
+	}
+
 	setCenterText(type: 'none' | 'ready' | 'set' | 'go' | 'outofbounds') {
 		if (type === 'none') this.centerElement.style.display = 'none';
 		else this.centerElement.style.display = '';
@@ -0,0 +1,249 @@
+import { AudioManager } from "../audio";
+import { Mission } from "../mission";
+import { MissionLibrary } from "../mission_library";
+import { state } from "../state";
+import { StorageManager } from "../storage";
+import { Util } from "../util";
+import { LevelSelect } from "./level_select";
+
+const LEVELS_PER_PAGE = 10;
+
+/** A paginated list of the custom levels that can be filtered and sorted, since cycling through thousands of them one by one isn't much fun. */
+export class LevelBrowser {
+	levelSelect: LevelSelect;
+	div: HTMLDivElement;
+	modificationSelect: HTMLSelectElement;
+	artistInput: HTMLInputElement;
+	minGemsInput: HTMLInputElement;
+	maxGemsInput: HTMLInputElement;
+	easterEggSelect: HTMLSelectElement;
+	addedAfterInput: HTMLInputElement;
+	addedBeforeInput: HTMLInputElement;
+	completionSelect: HTMLSelectElement;
+	favoritesCheckbox: HTMLInputElement;
+	sortSelect: HTMLSelectElement;
+	listElement: HTMLDivElement;
+	pageElement: HTMLParagraphElement;
+
+	/** The levels matching the current filters, in order. */
+	results: Mission[] = [];
+	currentPage = 0;
+
+	constructor(levelSelect: LevelSelect) {
+		this.levelSelect = levelSelect;
+
+		this.div = document.createElement('div');
+		this.div.classList.add('level-browser', (state.modification === 'gold')? 'mbg' : 'mbp', 'hidden');
+
+		let filters = document.createElement('div');
+		filters.classList.add('_filters');
+
+		this.modificationSelect = this.createSelect([['', 'All games'], ['gold', 'Gold'], ['platinum', 'Platinum'], ['ultra', 'Ultra']]);
+		if (state.modification === 'gold') this.modificationSelect.classList.add('hidden'); // There are only gold levels here anyway
+		this.artistInput = this.createInput('text', 'Artist');
+		this.minGemsInput = this.createInput('number', 'Min gems');
+		this.maxGemsInput = this.createInput('number', 'Max gems');
+		this.easterEggSelect = this.createSelect([['', 'Any egg'], ['yes', 'With egg'], ['no', 'Without egg']]);
+		this.addedAfterInput = this.createInput('date', 'Added after');
+		this.addedAfterInput.title = 'Added after';
+		this.addedBeforeInput = this.createInput('date', 'Added before');
+		this.addedBeforeInput.title = 'Added before';
+		this.completionSelect = this.createSelect([['', 'Any progress'], ['completed', 'Completed'], ['uncompleted', 'Not completed'], ['qualified', 'Qualified'], ['unqualified', 'Not qualified']]);
+		this.sortSelect = this.createSelect([['name', 'Sort by name'], ['newest', 'Newest first'], ['oldest', 'Oldest first'], ['parTime', 'Sort by par time']]);
+
+		let favoritesLabel = document.createElement('label');
+		this.favoritesCheckbox = document.createElement('input');
+		this.favoritesCheckbox.type = 'checkbox';
+		this.favoritesCheckbox.addEventListener('change', () => this.update());
+		favoritesLabel.append(this.favoritesCheckbox, 'Favorites');
+
+		filters.append(
+			this.modificationSelect, this.artistInput, this.minGemsInput, this.maxGemsInput, this.easterEggSelect,
+			this.addedAfterInput, this.addedBeforeInput, this.completionSelect, favoritesLabel, this.sortSelect
+		);
+
+		this.listElement = document.createElement('div');
+		this.listElement.classList.add('_list');
+
+		let footer = document.createElement('div');
+		footer.classList.add('_footer');
+		this.pageElement = document.createElement('p');
+		footer.append(
+			this.createLink('< Prev', () => this.goToPage(this.currentPage - 1)),
+			this.pageElement,
+			this.createLink('Next >', () => this.goToPage(this.currentPage + 1)),
+			this.createLink('Close', () => this.hide())
+		);
+
+		this.div.append(filters, this.listElement, footer);
+		levelSelect.div.append(this.div);
+	}
+
+	get isOpen() {
+		return !this.div.classList.contains('hidden');
+	}
+
+	show() {
+		this.div.classList.remove('hidden');
+		this.update();
+	}
+
+	hide() {
+		this.div.classList.add('hidden');
+	}
+
+	createSelect(options: [string, string][]) {
+		let select = document.createElement('select');
+		for (let [value, text] of options) {
+			let option = document.createElement('option');
+			option.value = value;
+			option.textContent = text;
+			select.append(option);
+		}
+		select.addEventListener('change', () => this.update());
+
+		return select;
+	}
+
+	createInput(type: string, placeholder: string) {
+		let input = document.createElement('input');
+		input.type = type;
+		input.placeholder = placeholder;
+		input.addEventListener('input', () => this.update());
+
+		return input;
+	}
+
+	createLink(text: string, onClick: () => void) {
+		let link = document.createElement('a');
+		link.textContent = text;
+		link.addEventListener('click', () => {
+			AudioManager.play('buttonpress.wav');
+			onClick();
+		});
+
+		return link;
+	}
+
+	/** The levels that can be browsed in the current menu. */
+	getMissions() {
+		if (state.modification === 'gold') return MissionLibrary.goldCustom;
+		return [...MissionLibrary.goldCustom, ...MissionLibrary.platinumCustom, ...MissionLibrary.ultraCustom];
+	}
+
+	matchesFilters(mission: Mission) {
+		if (this.modificationSelect.value && mission.modification !== this.modificationSelect.value) return false;
+
+		let artist = Util.normalizeString(this.artistInput.value).toLowerCase().trim();
+		if (artist && !Util.normalizeString(mission.artist).toLowerCase().includes(artist)) return false;
+
+		if (this.minGemsInput.value && mission.gemCount < Number(this.minGemsInput.value)) return false;
+		if (this.maxGemsInput.value && mission.gemCount > Number(this.maxGemsInput.value)) return false;
+
+		if (this.easterEggSelect.value && mission.hasEasterEgg !== (this.easterEggSelect.value === 'yes')) return false;
+
+		// The date inputs give midnight UTC, so include the whole day for the upper bound
+		if (this.addedAfterInput.valueAsNumber && mission.addedAt < this.addedAfterInput.valueAsNumber) return false;
+		if (this.addedBeforeInput.valueAsNumber && mission.addedAt >= this.addedBeforeInput.valueAsNumber + 24 * 60 * 60 * 1000) return false;
+
+		if (this.completionSelect.value) {
+			let scores = StorageManager.data.bestTimes[mission.path] ?? [];
+			let completed = scores.length > 0;
+			let qualified = scores.some(x => mission.rateResult(x[1]) !== 'failed');
+
+			if (this.completionSelect.value === 'completed' && !completed) return false;
+			if (this.completionSelect.value === 'uncompleted' && completed) return false;
+			if (this.completionSelect.value === 'qualified' && !qualified) return false;
+			if (this.completionSelect.value === 'unqualified' && qualified) return false;
+		}
+
+		if (this.favoritesCheckbox.checked && !StorageManager.data.favoriteMissions.includes(mission.path)) return false;
+
+		return true;
+	}
+
+	/** Applies the filters and sorting and shows the first page of the result. */
+	update() {
+		this.results = this.getMissions().filter(x => this.matchesFilters(x));
+
+		const compareNames = (a: Mission, b: Mission) => Util.normalizeString(a.title).localeCompare(Util.normalizeString(b.title), undefined, { numeric: true, sensitivity: 'base' });
+		let sort = this.sortSelect.value;
+		if (sort === 'name') this.results.sort(compareNames);
+		else if (sort === 'newest') this.results.sort((a, b) => (b.addedAt - a.addedAt) || compareNames(a, b));
+		else if (sort === 'oldest') this.results.sort((a, b) => (a.addedAt - b.addedAt) || compareNames(a, b));
+		else if (sort === 'parTime') this.results.sort((a, b) => {
+			// Levels without a par time go last
+			if (a.qualifyTime === b.qualifyTime) return compareNames(a, b);
+			if (!isFinite(a.qualifyTime)) return 1;
+			if (!isFinite(b.qualifyTime)) return -1;
+			return a.qualifyTime - b.qualifyTime;
+		});
+
+		this.goToPage(0);
+	}
+
+	goToPage(page: number) {
+		let pageCount = Math.max(1, Math.ceil(this.results.length / LEVELS_PER_PAGE));
+		this.currentPage = Util.clamp(page, 0, pageCount - 1);
+		this.pageElement.textContent = `Page ${this.currentPage + 1} of ${pageCount} (${this.results.length} level${(this.results.length === 1)? '' : 's'})`;
+
+		this.listElement.innerHTML = '';
+		for (let mission of this.results.slice(this.currentPage * LEVELS_PER_PAGE, (this.currentPage + 1) * LEVELS_PER_PAGE)) {
+			this.listElement.append(this.createRow(mission));
+		}
+		this.listElement.scrollTop = 0;
+	}
+
+	createRow(mission: Mission) {
+		let row = document.createElement('div');
+		row.classList.add('_row');
+
+		let favorite = document.createElement('span');
+		favorite.classList.add('_favorite');
+		favorite.title = 'Toggle favorite';
+		const updateFavorite = () => favorite.textContent = StorageManager.data.favoriteMissions.includes(mission.path)? '★' : '☆';
+		updateFavorite();
+		favorite.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.toggleFavorite(mission);
+			updateFavorite();
+		});
+
+		let title = document.createElement('span');
+		title.classList.add('_title');
+		title.textContent = mission.title;
+
+		let artist = document.createElement('span');
+		artist.classList.add('_artist');
+		artist.textContent = mission.artist.trim();
+
+		let details = document.createElement('span');
+		details.classList.add('_details');
+		let parTime = isFinite(mission.qualifyTime)? Util.secondsToTimeString(mission.qualifyTime / 1000) : '-';
+		let added = mission.addedAt? new Date(mission.addedAt).toLocaleDateString() : '';
+		details.textContent = `${mission.gemCount} gem${(mission.gemCount === 1)? '' : 's'} · ${parTime} · ${added}`;
+
+		row.append(favorite, title, artist, details);
+		row.addEventListener('click', () => {
+			AudioManager.play('buttonpress.wav');
+			this.select(mission);
+		});
+
+		return row;
+	}
+
+	toggleFavorite(mission: Mission) {
+		let favorites = StorageManager.data.favoriteMissions;
+		if (favorites.includes(mission.path)) Util.removeFromArray(favorites, mission.path);
+		else favorites.push(mission.path);
+
+		StorageManager.store();
+	}
+
+	/** Closes the browser and shows the mission in the level select. */
+	select(mission: Mission) {
+		let arr = [MissionLibrary.goldCustom, MissionLibrary.platinumCustom, MissionLibrary.ultraCustom].find(x => x.includes(mission));
+		this.hide();
+		this.levelSelect.selectMission(arr, mission);
+	}
+}
\ No newline at end of file
@@ -9,6 +9,8 @@ import { Leaderboard } from "../leaderboard";
 import { Menu } from "./menu";
 import { MissionLibrary } from "../mission_library";
 import { state } from "../state";
+import { OfflineManager } from "../offline";
+import { LevelBrowser } from "./level_browser";
 
 export abstract class LevelSelect {
 	menu: Menu;
@@ -28,6 +30,7 @@ export abstract class LevelSelect {
 	playButton: HTMLImageElement;
 	nextButton: HTMLImageElement;
 	searchInput: HTMLInputElement;
+	browser: LevelBrowser;
 
 	setImagesTimeout: number = null;
 	clearImageTimeout: number = null;
@@ -67,14 +70,16 @@ export abstract class LevelSelect {
 
 		// Create the elements for the online leaderboard (will be reused)
 		for (let i = 0; i < 18; i++) {
-			let element = this.createScoreElement(false);
+			let element = this.createScoreElement(true, true);
 			this.leaderboardScores.appendChild(element);
 		}
 
 		this.scrollWindow.addEventListener('scroll', () => this.updateOnlineLeaderboard());
+		this.browser = new LevelBrowser(this);
 
 		window.addEventListener('keydown', (e) => {
 			if (this.div.classList.contains('hidden')) return;
+			if (this.browser.isOpen) return;
 		
 			if (e.code === 'ArrowLeft' && (!this.searchInput.value || document.activeElement === document.body)) {
 				this.cycleMission(-1);
@@ -89,6 +94,10 @@ export abstract class LevelSelect {
 		
 		window.addEventListener('keyup', (e) => {
 			if (this.div.classList.contains('hidden')) return;
+			if (this.browser.isOpen) {
+				if (e.code === 'Escape') this.browser.hide();
+				return;
+			}
 		
 			if (e.code === 'ArrowLeft') {
 				if (!this.prevButton.style.pointerEvents) this.prevButton.src = this.prevButton.hasAttribute('data-hovered')? this.menu.uiAssetPath + 'play/prev_h.png' : this.menu.uiAssetPath + 'play/prev_n.png';
@@ -177,14 +186,29 @@ export abstract class LevelSelect {
 	/** Sets the metadata elements for the case that there is no level to display. */
 	abstract displayEmptyMetadata(): void;
 
-	playCurrentMission(replayData?: ArrayBuffer) {
+	async playCurrentMission(replayData?: ArrayBuffer) {
 		let currentMission = this.currentMission;
 		if (!currentMission) return;
+
+		if (OfflineManager.isOffline && !(await OfflineManager.isAvailable(currentMission))) {
+			state.menu.showAlertPopup('Offline', "You're offline and this level hasn't been downloaded for offline play.");
+			return;
+		}
 	
 		this.div.classList.add('hidden');
 		this.menu.loadingScreen.loadLevel(currentMission, replayData? () => Replay.fromSerialized(replayData) : undefined); // Initiate level loading
 	}
 
+	/** Shows a mission of the given array, clearing the search so that it isn't hidden. */
+	selectMission(arr: Mission[], mission: Mission) {
+		this.searchInput.value = '';
+		this.currentQueryWords.length = 0;
+
+		this.setMissionArray(arr);
+		this.currentMissionIndex = arr.indexOf(mission);
+		this.displayMission();
+	}
+
 	/** Advance the current mission index by the specified count while respecting the search query. That count can be negative. */
 	cycleMission(direction: number) {
 		let index = this.getCycleMissionIndex(direction);
@@ -284,6 +308,7 @@ export abstract class LevelSelect {
 	
 		for (let mission of toLoad) {
 			let imagePath = mission.getImagePath();
+			if (!imagePath) continue;
 			let start = performance.now();
 	
 			ResourceManager.loadResource(imagePath).then(async blob => {
@@ -346,8 +371,110 @@ export abstract class LevelSelect {
 		return missions;
 	}
 
+	/** Shows a popup for downloading the current category (or custom level) for offline play and for managing the levels that have been downloaded already. */
+	showOfflinePopup() {
+		if (!OfflineManager.supported) {
+			state.menu.showAlertPopup('Offline Levels', "Your browser doesn't support playing levels offline.");
+			return;
+		}
+
+		let mission = this.currentMission;
+		if (!mission) return;
+
+		// Custom levels are downloaded one by one, stock levels a whole category at a time
+		let missions = (mission.type === 'custom')? [mission] : this.currentMissionArray;
+		let packId = (mission.type === 'custom')? OfflineManager.getMissionPackId(mission) : OfflineManager.getCategoryPackId(missions);
+		let packName = (mission.type === 'custom')? mission.title : OfflineManager.getCategoryName(missions);
+		const toMegabytes = (bytes: number) => (bytes / 1024 ** 2).toFixed(1);
+
+		let div = document.createElement('div');
+		div.classList.add('offline-levels');
+		let actionElement = document.createElement('p');
+		actionElement.classList.add('_action');
+		let packsElement = document.createElement('div');
+		packsElement.classList.add('_packs');
+		let storageElement = document.createElement('p');
+		storageElement.classList.add('_storage');
+		div.append(actionElement, packsElement, storageElement);
+
+		const createLink = (text: string, onClick: () => void) => {
+			let link = document.createElement('a');
+			link.textContent = text;
+			link.addEventListener('click', onClick);
+			return link;
+		};
+
+		const download = async () => {
+			if (OfflineManager.isOffline) {
+				state.menu.showAlertPopup('Offline', "Levels can only be downloaded while you're online.");
+				return;
+			}
+
+			let promise = OfflineManager.downloadPack(packId, packName, missions);
+			update();
+
+			try {
+				await promise;
+			} catch (e) {
+				console.error(e);
+				state.menu.showAlertPopup('Error', "The levels couldn't be downloaded. Check your internet connection and try again.");
+			}
+			update();
+		};
+
+		const remove = async (id: string) => {
+			await OfflineManager.removePack(id);
+			update();
+		};
+
+		const update = async () => {
+			let packs = await OfflineManager.getPacks();
+			let packSizes = await Promise.all(packs.map(x => OfflineManager.getSize(x.urls)));
+			let totalSize = await OfflineManager.getSize();
+			let estimate = await navigator.storage?.estimate?.();
+			let pack = packs.find(x => x.id === packId);
+			let progress = OfflineManager.currentDownload;
+
+			// Only touch the elements once everything is known so that overlapping updates don't mix
+			actionElement.innerHTML = '';
+			if (progress) {
+				let counts = (progress.missionsDone < progress.missionCount)? `${progress.missionsDone}/${progress.missionCount} levels` : `${progress.filesDone}/${progress.fileCount} files`;
+				actionElement.textContent = `Downloading ${(progress.packId === packId)? packName : 'levels'}... (${counts})`;
+			} else if (mission.isLocal) {
+				actionElement.textContent = 'Imported levels can always be played offline.';
+			} else if (pack) {
+				actionElement.append(`${packName} is available offline. `, createLink('Remove', () => remove(packId)));
+			} else {
+				actionElement.append(createLink(`Download ${packName}`, download), ` (${missions.length} level${(missions.length === 1)? '' : 's'})`);
+			}
+
+			packsElement.innerHTML = '';
+			for (let i = 0; i < packs.length; i++) {
+				let element = document.createElement('div');
+				element.append(`${packs[i].name} (${toMegabytes(packSizes[i])} MB) `, createLink('Remove', () => remove(packs[i].id)));
+				packsElement.append(element);
+			}
+			if (packs.length === 0) packsElement.textContent = 'No levels have been downloaded yet.';
+
+			storageElement.textContent = `Downloaded levels take up ${toMegabytes(totalSize)} MB.`;
+			if (estimate?.quota) storageElement.textContent += ` ${toMegabytes(estimate.quota - estimate.usage)} MB are still free.`;
+		};
+
+		// Keep the progress of a running download up to date
+		let wasDownloading = false;
+		let intervalId = setInterval(() => {
+			if (OfflineManager.currentDownload || wasDownloading) update();
+			wasDownloading = !!OfflineManager.currentDownload;
+		}, 250);
+
+		update();
+		state.menu.showAlertPopup('Offline Levels', '', div).then(() => {
+			clearInterval(intervalId);
+		});
+	}
+
 	/** Creates a score element that can be used to show local and online scores. */
-	abstract createScoreElement(includeReplayButton: boolean): HTMLDivElement;
+	abstract createScoreElement(includeReplayButton: boolean, online?: boolean): HTMLDivElement;
 	/** Updates a previously created score element. */
 	abstract updateScoreElement(element: HTMLDivElement, score: BestTimes[number], rank: number): void;
 
@@ -355,7 +482,7 @@ export abstract class LevelSelect {
 		let randomId = Util.getRandomId();
 		this.lastDisplayBestTimesId = randomId;
 
-		let bestTimes = StorageManager.getBestTimesForMission(this.currentMission?.path, this.localScoresCount, this.scorePlaceholderName);
+		let bestTimes = StorageManager.getBestTimesForMission(this.currentMission?.path, this.localScoresCount, this.scorePlaceholderName, this.currentMission?.isHunt);
 		for (let i = 0; i < this.localScoresCount; i++) {
 			this.updateScoreElement(this.localBestTimesContainer.children[i] as HTMLDivElement, bestTimes[i], i+1);
 		}
@@ -372,20 +499,39 @@ export abstract class LevelSelect {
 		}
 	}
 
-	/** Creates a replay button for use in score elements. */
-	createReplayButton() {
+	/** Creates a replay button and an export button next to it for use in score elements. Online replay buttons fetch the replay of a leaderboard score from the server. The export button only shows up while the replay button does. */
+	createReplayButtons(online = false) {
 		let icon = document.createElement('img');
 		icon.src = "./assets/img/round_videocam_black_18dp.png";
 		icon.title = "Alt-Click to download";
+		if (online) icon.setAttribute('data-online', '');
 
-		const handler = async (download: boolean) => {
+		let exportIcon = document.createElement('img');
+		exportIcon.src = "./assets/img/download.png";
+		exportIcon.title = "Export replay or telemetry";
+
+		const getReplayData = async () => {
 			let mission = this.currentMission;
-			if (!mission) return;
+			if (!mission) return null;
+
+			if (online) {
+				let rank = Number(icon.getAttribute('data-rank'));
+				if (!rank) return null;
 
-			let attr = icon.getAttribute('data-score-id');
-			if (!attr) return;
+				let replayData = await Leaderboard.getReplay(mission.path, rank);
+				if (!replayData) this.menu.showAlertPopup('Error', "This replay couldn't be loaded.");
+				return replayData;
+			} else {
+				let attr = icon.getAttribute('data-score-id');
+				if (!attr) return null;
+
+				return await StorageManager.databaseGet('replays', attr) as ArrayBuffer;
+			}
+		};
 
-			let replayData = await StorageManager.databaseGet('replays', attr);
+		const handler = async (download: boolean) => {
+			let mission = this.currentMission;
+			let replayData = await getReplayData();
 			if (!replayData) return;
 
 			if (!download) {
@@ -403,22 +549,39 @@ export abstract class LevelSelect {
 		Util.onLongTouch(icon, () => {
 			handler(true);
 		});
+		exportIcon.addEventListener('click', async (e) => {
+			if (e.button !== 0) return;
 
-		icon.addEventListener('mouseenter', () => {
-			AudioManager.play('buttonover.wav');
-		});
-		icon.addEventListener('mousedown', (e) => {
-			if (e.button === 0) AudioManager.play('buttonpress.wav');
+			let mission = this.currentMission;
+			let replayData = await getReplayData();
+			if (replayData) this.menu.showReplayExportPopup(replayData, mission);
 		});
 
-		return icon;
+		for (let element of [icon, exportIcon]) {
+			element.addEventListener('mouseenter', () => {
+				AudioManager.play('buttonover.wav');
+			});
+			element.addEventListener('mousedown', (e) => {
+				if (e.button === 0) AudioManager.play('buttonpress.wav');
+			});
+		}
+
+		return [icon, exportIcon];
 	}
 
-	async updateReplayButton(element: HTMLImageElement, score: BestTimes[number]) {
+	async updateReplayButton(element: HTMLImageElement, score: BestTimes[number], rank: number) {
 		element.style.display = 'none';
 		element.removeAttribute('data-score-id');
+		element.removeAttribute('data-rank');
 		if (!score[2]) return;
 
+		if (element.hasAttribute('data-online')) {
+			// For online scores, the third entry only tells whether the server kept the replay
+			element.style.display = 'block';
+			element.setAttribute('data-rank', rank.toString());
+			return;
+		}
+
 		let randomId = this.lastDisplayBestTimesId;
 		let count = await StorageManager.databaseCount('replays', score[2]);
 
@@ -533,7 +696,28 @@ export abstract class LevelSelect {
 		fileInput.click();
 	}
 
+	/** Lets the player pick a .zip or .mis file from their device and adds it to the custom levels. */
+	showImportLevelPrompt() {
+		let fileInput = document.createElement('input');
+		fileInput.setAttribute('type', 'file');
+		fileInput.setAttribute('accept', ".zip,.mis");
+
+		fileInput.onchange = async () => {
+			try {
+				let mission = await Mission.fromLocalFile(fileInput.files[0]);
+				let arr = MissionLibrary.addLocalMission(mission);
+				this.selectMission(arr, mission);
+			} catch (e) {
+				state.menu.showAlertPopup('Error', "There was an error importing the level. Make sure it's a .zip containing a .mis file or a .mis file itself.");
+				console.error(e);
+			}
+		};
+		fileInput.click();
+	}
+
 	handleControllerInput(gamepad: Gamepad) {
+		if (this.browser.isOpen) return; // The level select is covered up
+
 		// A button to play
 		if (gamepad.buttons[0].value > 0.5 && !previousButtonState[0]) {
 			this.playCurrentMission();
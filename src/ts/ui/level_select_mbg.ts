@@ -12,6 +12,9 @@ export class MbgLevelSelect extends LevelSelect {
 	tabCustom: HTMLImageElement;
 	loadReplayButton: HTMLImageElement;
 	shuffleButton: HTMLImageElement;
+	offlineButton: HTMLImageElement;
+	importLevelButton: HTMLImageElement;
+	browseLevelsButton: HTMLImageElement;
 	levelNumberElement: HTMLParagraphElement;
 
 	localScoresCount = 3;
@@ -42,6 +45,9 @@ export class MbgLevelSelect extends LevelSelect {
 		this.searchInput = document.querySelector('#search-input') as HTMLInputElement;
 		this.loadReplayButton = document.querySelector('#load-replay-button') as HTMLImageElement;
 		this.shuffleButton = document.querySelector('#shuffle-button') as HTMLImageElement;
+		this.offlineButton = document.querySelector('#offline-button') as HTMLImageElement;
+		this.importLevelButton = document.querySelector('#import-level-button') as HTMLImageElement;
+		this.browseLevelsButton = document.querySelector('#browse-levels-button') as HTMLImageElement;
 	}
 
 	async init() {
@@ -79,6 +85,36 @@ export class MbgLevelSelect extends LevelSelect {
 			if (e.button === 0) AudioManager.play('buttonpress.wav');
 		});
 
+		this.offlineButton.addEventListener('click', () => {
+			this.showOfflinePopup();
+		});
+		this.offlineButton.addEventListener('mouseenter', () => {
+			AudioManager.play('buttonover.wav');
+		});
+		this.offlineButton.addEventListener('mousedown', (e) => {
+			if (e.button === 0) AudioManager.play('buttonpress.wav');
+		});
+
+		this.importLevelButton.addEventListener('click', () => {
+			this.showImportLevelPrompt();
+		});
+		this.importLevelButton.addEventListener('mouseenter', () => {
+			AudioManager.play('buttonover.wav');
+		});
+		this.importLevelButton.addEventListener('mousedown', (e) => {
+			if (e.button === 0) AudioManager.play('buttonpress.wav');
+		});
+
+		this.browseLevelsButton.addEventListener('click', () => {
+			this.browser.show();
+		});
+		this.browseLevelsButton.addEventListener('mouseenter', () => {
+			AudioManager.play('buttonover.wav');
+		});
+		this.browseLevelsButton.addEventListener('mousedown', (e) => {
+			if (e.button === 0) AudioManager.play('buttonpress.wav');
+		});
+
 		// Preload images and leaderboards
 		this.setMissionArray(MissionLibrary.goldCustom, false); // Make sure to disable the image timeouts so that no funky stuff happens
 		this.setMissionArray(MissionLibrary.goldAdvanced, false);
@@ -119,7 +155,7 @@ export class MbgLevelSelect extends LevelSelect {
 		this.levelNumberElement.textContent = `Level ${this.currentMissionIndex + 1}`;
 	}
 
-	createScoreElement(includeReplayButton: boolean) {
+	createScoreElement(includeReplayButton: boolean, online = false) {
 		let element = document.createElement('div');
 		element.classList.add('level-select-best-time');
 
@@ -134,7 +170,7 @@ export class MbgLevelSelect extends LevelSelect {
 		element.appendChild(time);
 
 		if (includeReplayButton) {
-			element.appendChild(this.createReplayButton());
+			element.append(...this.createReplayButtons(online));
 		}
 
 		return element;
@@ -148,6 +184,6 @@ export class MbgLevelSelect extends LevelSelect {
 		element.children[0].textContent = rank + '. ' + score[0];
 		(element.children[1] as HTMLImageElement).style.opacity = (score[1] <= goldTime)? '' : '0';
 		element.children[2].textContent = Util.secondsToTimeString(score[1] / 1000);
-		if (element.children[3]) this.updateReplayButton(element.children[3] as HTMLImageElement, score);
+		if (element.children[3]) this.updateReplayButton(element.children[3] as HTMLImageElement, score, rank);
 	}
 }
\ No newline at end of file
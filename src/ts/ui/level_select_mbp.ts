@@ -12,6 +12,9 @@ import { ResourceManager } from "../resources";
 export class MbpLevelSelect extends LevelSelect {
 	loadReplayButton = document.querySelector('#mbp-load-replay-button') as HTMLImageElement;
 	shuffleButton = document.querySelector('#mbp-shuffle-button') as HTMLImageElement;
+	offlineButton = document.querySelector('#mbp-offline-button') as HTMLImageElement;
+	importLevelButton = document.querySelector('#mbp-import-level-button') as HTMLImageElement;
+	browseLevelsButton = document.querySelector('#mbp-browse-levels-button') as HTMLImageElement;
 	viewToggleButton = document.querySelector('#mbp-level-select-view-toggle') as HTMLImageElement;
 	metadataContainer = document.querySelector('#mbp-level-metadata') as HTMLDivElement;
 	scoresContainer = document.querySelector('#mbp-level-scores') as HTMLDivElement;
@@ -111,6 +114,15 @@ export class MbpLevelSelect extends LevelSelect {
 		this.menu.setupButton(this.shuffleButton, 'search/random', () => {
 			this.shuffle();
 		}, undefined, undefined, false);
+		this.menu.setupButton(this.offlineButton, 'mp/play/download', () => {
+			this.showOfflinePopup();
+		}, undefined, undefined, false);
+		this.menu.setupButton(this.importLevelButton, 'play/editor', () => {
+			this.showImportLevelPrompt();
+		}, undefined, undefined, false);
+		this.menu.setupButton(this.browseLevelsButton, 'mp/play/search', () => {
+			this.browser.show();
+		}, undefined, undefined, false);
 
 		// Preload images and leaderboards
 		this.setMissionArray(MissionLibrary.goldCustom, false); // Make sure to disable the image timeouts so that no funky stuff happens
@@ -189,7 +201,8 @@ export class MbpLevelSelect extends LevelSelect {
 		this.levelArtist.textContent = 'Author: ' + mission.artist.trim();
 		this.levelDescription.textContent = mission.description;
 		let qualifyTime = (mission.qualifyTime !== 0)? mission.qualifyTime : Infinity;
-		this.levelQualifyTime.innerHTML = `<span style="opacity: 0.8;">${mission.modification === 'gold'? 'Qualify' : 'Par'} Time: </span>` + (isFinite(qualifyTime)? Util.secondsToTimeString(qualifyTime / 1000) : 'N/A');
+		let qualifyTimeLabel = mission.isHunt? 'Time Limit' : `${mission.modification === 'gold'? 'Qualify' : 'Par'} Time`;
+		this.levelQualifyTime.innerHTML = `<span style="opacity: 0.8;">${qualifyTimeLabel}: </span>` + (isFinite(qualifyTime)? Util.secondsToTimeString(qualifyTime / 1000) : 'N/A');
 
 		if (mission.hasEasterEgg) {
 			this.easterEggIcon.classList.remove('hidden');
@@ -207,7 +220,7 @@ export class MbpLevelSelect extends LevelSelect {
 		this.easterEggIcon.classList.add('hidden');
 	}
 
-	createScoreElement(includeReplayButton: boolean) {
+	createScoreElement(includeReplayButton: boolean, online = false) {
 		let element = document.createElement('div');
 		element.classList.add('mbp-level-select-best-time');
 
@@ -218,7 +231,7 @@ export class MbpLevelSelect extends LevelSelect {
 		element.appendChild(time);
 
 		if (includeReplayButton) {
-			element.appendChild(this.createReplayButton());
+			element.append(...this.createReplayButtons(online));
 		}
 
 		return element;
@@ -226,15 +239,16 @@ export class MbpLevelSelect extends LevelSelect {
 	
 	updateScoreElement(element: HTMLDivElement, score: BestTimes[number], rank: number) {
 		element.children[0].innerHTML = `<span>${rank}.</span> ${Util.htmlEscape(score[0])}`;
-		element.children[1].textContent = Util.secondsToTimeString(score[1] / 1000);
+		element.children[1].textContent = this.currentMission? this.currentMission.formatResult(score[1]) : Util.secondsToTimeString(score[1] / 1000);
 		Util.monospaceNumbers(element.children[1]);
-		if (element.children[2]) this.updateReplayButton(element.children[2] as HTMLImageElement, score);
+		if (element.children[2]) this.updateReplayButton(element.children[2] as HTMLImageElement, score, rank);
 
 		element.style.color = '';
 		if (!this.currentMission) return;
 		
-		if (score[1] <= this.currentMission.goldTime) element.style.color = (this.currentMission.modification === 'gold')? MBP_GOLD_COLOR : MBP_PLATINUM_COLOR;
-		if (score[1] <= this.currentMission.ultimateTime) element.style.color = MBP_ULTIMATE_COLOR;
+		let rating = this.currentMission.rateResult(score[1]);
+		if (rating === 'gold') element.style.color = (this.currentMission.modification === 'gold')? MBP_GOLD_COLOR : MBP_PLATINUM_COLOR;
+		if (rating === 'ultimate') element.style.color = MBP_ULTIMATE_COLOR;
 	}
 
 	show() {
@@ -38,7 +38,7 @@ export abstract class LoadingScreen {
 		this.div.classList.add('hidden');
 	}
 
-	async loadLevel(mission: Mission, getReplay?: () => Replay) {
+	async loadLevel(mission: Mission, getReplay?: () => Replay, challengeId?: string) {
 		this.show();
 		let indexAtStart = this.loadingIndex; // Remember the index at the start. If it changes later, that means that loading was cancelled.
 		
@@ -60,6 +60,7 @@ export abstract class LoadingScreen {
 			}) as unknown as number;
 
 			let level = new Level(mission);
+			level.challengeId = challengeId ?? null;
 			state.level = level;
 			await level.init();
 
@@ -69,6 +70,8 @@ export abstract class LoadingScreen {
 				level.replay = replay;
 				replay.level = level;
 				replay.mode = 'playback';
+			} else {
+				await level.initGhost();
 			}
 
 			if (this.loadingIndex !== indexAtStart) {
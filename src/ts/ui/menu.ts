@@ -1,8 +1,11 @@
 import { AudioManager, AudioSource } from "../audio";
 import { currentMousePosition } from "../input";
+import { Mission } from "../mission";
 import { SCALING_RATIO } from "../rendering";
+import { Replay } from "../replay";
 import { ResourceManager } from "../resources";
 import { state } from "../state";
+import { downloadTelemetry, TelemetryFormat } from "../telemetry";
 import { Util } from "../util";
 import { FinishScreen } from "./finish_screen";
 import { HelpScreen } from "./help";
@@ -13,6 +16,7 @@ import { LoadingScreen } from "./loading";
 import { setEnterFullscreenButtonVisibility } from "./misc";
 import { OptionsScreen } from "./options";
 import { PauseScreen } from "./pause_screen";
+import { ReplayControls } from "./replay_controls";
 
 export abstract class Menu {
 	home: HomeScreen;
@@ -23,6 +27,7 @@ export abstract class Menu {
 	hud: Hud;
 	pauseScreen: PauseScreen;
 	finishScreen: FinishScreen;
+	replayControls: ReplayControls;
 
 	menuDiv: HTMLDivElement;
 	backgroundImage: HTMLImageElement;
@@ -52,6 +57,7 @@ export abstract class Menu {
 		this.hud = this.createHud();
 		this.pauseScreen = this.createPauseScreen();
 		this.finishScreen = this.createFinishScreen();
+		this.replayControls = new ReplayControls();
 	}
 
 	abstract createHome(): HomeScreen;
@@ -335,6 +341,46 @@ export abstract class Menu {
 		});
 	}
 
+	/** Shows a pop-up that lets the user save a replay, either as a .wrec or as telemetry listing what the marble did on every tick. */
+	showReplayExportPopup(replayData: ArrayBuffer, mission: Mission, normalize = true) {
+		let div = document.createElement('div');
+		div.classList.add('replay-export-popup');
+
+		const createLink = (label: string, onClick: () => any) => {
+			let link = document.createElement('a');
+			link.textContent = label;
+			link.addEventListener('click', onClick);
+			return link;
+		};
+
+		let status = document.createElement('p');
+		status.classList.add('_status');
+
+		const exportTelemetry = async (format: TelemetryFormat) => {
+			status.textContent = 'Creating telemetry...';
+			try {
+				await downloadTelemetry(replayData, mission, format);
+				status.textContent = 'The telemetry has been downloaded.';
+			} catch (e) {
+				console.error(e);
+				status.textContent = "The telemetry couldn't be created.";
+			}
+		};
+
+		let links = document.createElement('p');
+		links.append(
+			createLink('Replay (.wrec)', () => {
+				Replay.download(replayData, mission, normalize);
+				status.textContent = 'The .wrec has been downloaded.';
+			}),
+			' · ', createLink('Telemetry (CSV)', () => exportTelemetry('csv')),
+			' · ', createLink('Telemetry (JSON)', () => exportTelemetry('json'))
+		);
+
+		div.append(links, status);
+		this.showAlertPopup('Export Replay', "The telemetry is a table of the marble's position, velocity and the things it touched on every tick.", div);
+	}
+
 	async init() {
 		AudioManager.setAssetPath(this.audioAssetPath);
 		await AudioManager.loadBuffers([this.menuMusicSrc, 'buttonover.wav', 'buttonpress.wav']);
@@ -16,7 +16,9 @@ export const buttonToDisplayNameMbg: Record<keyof typeof StorageManager.data.set
 	cameraRight: 'Rotate Camera Right',
 	freeLook: 'Free Look',
 	restart: 'Restart',
-	blast: 'Use Blast'
+	blast: 'Use Blast',
+	saveState: 'Save Practice State',
+	loadState: 'Load Practice State'
 };
 export const buttonToDisplayNameMbp: Record<keyof typeof StorageManager.data.settings.gameButtonMapping, string> = {
 	up: 'Move Forward',
@@ -31,7 +33,9 @@ export const buttonToDisplayNameMbp: Record<keyof typeof StorageManager.data.set
 	cameraRight: 'Look Right',
 	freeLook: 'Free Look',
 	restart: 'Respawn',
-	blast: 'Use Blast'
+	blast: 'Use Blast',
+	saveState: 'Save Practice State',
+	loadState: 'Load Practice State'
 };
 
 export abstract class OptionsScreen {
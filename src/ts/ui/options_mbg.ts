@@ -1,5 +1,6 @@
 import { AudioManager, AudioSource } from "../audio";
 import { currentMousePosition } from "../input";
+import { AssetCache, ASSET_CACHE_MAX_SIZE } from "../parsing/asset_cache";
 import { SCALING_RATIO } from "../rendering";
 import { ResourceManager } from "../resources";
 import { StorageManager } from "../storage";
@@ -7,6 +8,8 @@ import { Util } from "../util";
 import { Menu } from "./menu";
 import { OptionsScreen } from "./options";
 
+const GHOST_CHOICES = ['Disabled', 'Personal Best', 'World Record'];
+
 export class MbgOptionsScreen extends OptionsScreen {
 	tabGraphics: HTMLImageElement;
 	tabAudio: HTMLImageElement;
@@ -90,6 +93,12 @@ export class MbgOptionsScreen extends OptionsScreen {
 	buttonRestartLevel: HTMLImageElement;
 	buttonRestartLevelContent: HTMLParagraphElement;
 	reflectiveMarbleCheckbox: HTMLImageElement;
+	ghostButton: HTMLImageElement;
+	ghostText: HTMLDivElement;
+	practiceModeCheckbox: HTMLImageElement;
+	debugOverlayCheckbox: HTMLImageElement;
+	assetCacheClear: HTMLImageElement;
+	assetCacheClearText: HTMLDivElement;
 
 	initProperties() {
 		this.div = document.querySelector('#options');
@@ -178,6 +187,12 @@ export class MbgOptionsScreen extends OptionsScreen {
 		this.buttonRestartLevel = document.querySelector('#button-restart-level') as HTMLImageElement;
 		this.buttonRestartLevelContent = document.querySelector('#button-restart-level-content') as HTMLParagraphElement;
 		this.reflectiveMarbleCheckbox = document.querySelector('#graphics-reflective-marble') as HTMLImageElement;
+		this.ghostButton = document.querySelector('#graphics-ghost') as HTMLImageElement;
+		this.ghostText = document.querySelector('#graphics-ghost-text') as HTMLDivElement;
+		this.practiceModeCheckbox = document.querySelector('#graphics-practice-mode') as HTMLImageElement;
+		this.debugOverlayCheckbox = document.querySelector('#graphics-debug-overlay') as HTMLImageElement;
+		this.assetCacheClear = document.querySelector('#graphics-asset-cache-clear') as HTMLImageElement;
+		this.assetCacheClearText = document.querySelector('#graphics-asset-cache-clear-text') as HTMLDivElement;
 	}
 
 	constructor(menu: Menu) {
@@ -310,6 +325,47 @@ export class MbgOptionsScreen extends OptionsScreen {
 				this.reflectiveMarbleCheckbox.src = './assets/ui/options/cntrl_mous_freel_h.png';
 			}
 		});
+
+		menu.setupButton(this.ghostButton, 'options/cntr_cam_up', () => {
+			// Cycle through the choices
+			StorageManager.data.settings.ghost = (StorageManager.data.settings.ghost + 1) % GHOST_CHOICES.length;
+			StorageManager.store();
+			this.ghostText.textContent = GHOST_CHOICES[StorageManager.data.settings.ghost];
+		});
+
+		menu.setupButton(this.practiceModeCheckbox, 'options/cntrl_mous_freel', () => {
+			StorageManager.data.settings.practiceMode = !this.practiceModeCheckbox.hasAttribute('data-locked');
+			StorageManager.store();
+
+			// Toggle the checkbox
+			if (!this.practiceModeCheckbox.hasAttribute('data-locked')) {
+				this.practiceModeCheckbox.setAttribute('data-locked', '');
+				this.practiceModeCheckbox.src = './assets/ui/options/cntrl_mous_freel_d.png';
+			} else {
+				this.practiceModeCheckbox.removeAttribute('data-locked');
+				this.practiceModeCheckbox.src = './assets/ui/options/cntrl_mous_freel_h.png';
+			}
+		});
+
+		menu.setupButton(this.debugOverlayCheckbox, 'options/cntrl_mous_freel', () => {
+			StorageManager.data.settings.debugOverlay = !this.debugOverlayCheckbox.hasAttribute('data-locked');
+			StorageManager.store();
+
+			// Toggle the checkbox
+			if (!this.debugOverlayCheckbox.hasAttribute('data-locked')) {
+				this.debugOverlayCheckbox.setAttribute('data-locked', '');
+				this.debugOverlayCheckbox.src = './assets/ui/options/cntrl_mous_freel_d.png';
+			} else {
+				this.debugOverlayCheckbox.removeAttribute('data-locked');
+				this.debugOverlayCheckbox.src = './assets/ui/options/cntrl_mous_freel_h.png';
+			}
+		});
+
+		menu.setupButton(this.assetCacheClear, 'options/cntr_cam_dwn', async () => {
+			if (!AssetCache.enabled) return;
+			await AssetCache.clear();
+			this.updateAssetCacheSize();
+		});
 	}
 
 	show() {
@@ -347,6 +403,10 @@ export class MbgOptionsScreen extends OptionsScreen {
 		if (!!(StorageManager.data.settings.invertMouse & 0b10) !== this.invertY.hasAttribute('data-locked')) this.invertY.click();
 		if (StorageManager.data.settings.alwaysFreeLook !== this.alwaysFreeLook.hasAttribute('data-locked')) this.alwaysFreeLook.click();
 		if ((StorageManager.data.settings.marbleReflectivity === 2) !== this.reflectiveMarbleCheckbox.hasAttribute('data-locked')) this.reflectiveMarbleCheckbox.click();
+		this.ghostText.textContent = GHOST_CHOICES[StorageManager.data.settings.ghost];
+		if (StorageManager.data.settings.practiceMode !== this.practiceModeCheckbox.hasAttribute('data-locked')) this.practiceModeCheckbox.click();
+		if (StorageManager.data.settings.debugOverlay !== this.debugOverlayCheckbox.hasAttribute('data-locked')) this.debugOverlayCheckbox.click();
+		this.updateAssetCacheSize();
 
 		this.setResetMarbleTextureState(!((await StorageManager.databaseCount('keyvalue', 'marbleTexture')) === 0));
 	}
@@ -515,6 +575,14 @@ export class MbgOptionsScreen extends OptionsScreen {
 		this.buttonRestartLevelContent.textContent = this.formatKeybinding('restart');
 	}
 
+	/** Shows how much space the cached parsed files take up on the button that clears them. */
+	async updateAssetCacheSize() {
+		const toMegabytes = (bytes: number) => Math.ceil(bytes / 1024 ** 2);
+
+		let size = AssetCache.enabled? AssetCache.getSize(await AssetCache.getIndex()) : 0;
+		this.assetCacheClearText.textContent = `Clear (${toMegabytes(size)}/${toMegabytes(ASSET_CACHE_MAX_SIZE)} MB)`;
+	}
+
 	setResetMarbleTextureState(enabled: boolean) {
 		if (enabled) {
 			this.resetMarbleTexture.style.pointerEvents = '';
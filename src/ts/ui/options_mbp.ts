@@ -1,5 +1,6 @@
 import { AudioManager, AudioSource } from "../audio";
 import { currentMousePosition } from "../input";
+import { AssetCache, ASSET_CACHE_MAX_SIZE } from "../parsing/asset_cache";
 import { FRAME_RATE_OPTIONS, SCALING_RATIO } from "../rendering";
 import { ResourceManager } from "../resources";
 import { state } from "../state";
@@ -92,7 +93,11 @@ export class MbpOptionsScreen extends OptionsScreen {
 		});
 		this.addDropdown(this.generalContainer, 'showFrameRate', 'Frame Rate', ['Hidden', 'Visible'], true);
 		this.addDropdown(this.generalContainer, 'showThousandths', 'Thousandths', ['Disabled', 'Enabled'], true);
+		this.addDropdown(this.generalContainer, 'ghost', 'Ghost Marble', ['Disabled', 'Personal Best', 'World Record']);
+		this.addDropdown(this.generalContainer, 'practiceMode', 'Practice Mode', ['Disabled', 'Enabled'], true);
+		this.addDropdown(this.generalContainer, 'debugOverlay', 'Debug Overlay', ['Disabled', 'Enabled'], true);
 		this.addMarbleTexturePicker(this.generalContainer);
+		this.addAssetCacheControl(this.generalContainer);
 		this.addDropdown(this.generalContainer, 'marbleReflectivity', 'Reflective Marble', ['Contextual', 'Disabled', 'Enabled']);
 		this.addDropdown(this.generalContainer, 'fancyShaders', 'Fancy Shaders', ['Disabled', 'Enabled'], true);
 		this.addDropdown(this.generalContainer, 'pixelRatio', 'Pixel Ratio', ['Max 0.5', 'Max 1.0', 'Max 1.5', 'Max 2.0', 'Max ∞']);
@@ -138,6 +143,8 @@ export class MbpOptionsScreen extends OptionsScreen {
 		this.addHotkey(this.hotkeysContainer, 'freeLook');
 		this.addHotkey(this.hotkeysContainer, 'restart');
 		this.addHotkey(this.hotkeysContainer, 'blast');
+		this.addHotkey(this.hotkeysContainer, 'saveState');
+		this.addHotkey(this.hotkeysContainer, 'loadState');
 
 		// Preload dropdown images
 		await ResourceManager.loadImages(['small', 'medium', 'large', 'xlarge'].map(x => './assets/ui_mbp/options/dropdown-' + x + '.png'));
@@ -350,6 +357,24 @@ export class MbpOptionsScreen extends OptionsScreen {
 		});
 	}
 
+	/** Adds a button that shows how much space the cached parsed files take up and clears them when clicked. */
+	addAssetCacheControl(container: HTMLDivElement) {
+		const toMegabytes = (bytes: number) => Math.ceil(bytes / 1024 ** 2);
+
+		let element = this.addButton(container, 'Asset Cache', '', async () => {
+			if (!AssetCache.enabled) return;
+			await AssetCache.clear();
+			update();
+		});
+		let buttonLabel = element.querySelector('p:last-of-type');
+
+		const update = async () => {
+			let size = AssetCache.enabled? AssetCache.getSize(await AssetCache.getIndex()) : 0;
+			buttonLabel.textContent = `Clear (${toMegabytes(size)}/${toMegabytes(ASSET_CACHE_MAX_SIZE)} MB)`;
+		};
+		this.updateFuncs.push(update);
+	}
+
 	refreshKeybindings() {
 		this.updateAllElements(); // Can't hurt lol
 	}
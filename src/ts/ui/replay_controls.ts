@@ -0,0 +1,73 @@
+import { Level, PHYSICS_TICK_RATE } from "../level";
+import { state } from "../state";
+import { Util } from "../util";
+
+/** The speeds a replay can be played back at, relative to real time. */
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/** The bar shown while watching a replay, used to pause it, change its speed, step through it tick by tick and seek to any point in it. */
+export class ReplayControls {
+	div = document.querySelector('#replay-controls') as HTMLDivElement;
+	stepBackButton = document.querySelector('#replay-controls-step-back') as HTMLDivElement;
+	playPauseButton = document.querySelector('#replay-controls-play-pause') as HTMLDivElement;
+	stepForwardButton = document.querySelector('#replay-controls-step-forward') as HTMLDivElement;
+	seekSlider = document.querySelector('#replay-controls-seek') as HTMLInputElement;
+	timeElement = document.querySelector('#replay-controls-time') as HTMLDivElement;
+	slowerButton = document.querySelector('#replay-controls-slower') as HTMLDivElement;
+	speedElement = document.querySelector('#replay-controls-speed') as HTMLDivElement;
+	fasterButton = document.querySelector('#replay-controls-faster') as HTMLDivElement;
+	/** Whether the seek slider is currently being dragged. */
+	dragging = false;
+
+	constructor() {
+		this.playPauseButton.addEventListener('click', () => state.level?.setPlaybackPaused(!state.level.playbackPaused));
+		this.stepBackButton.addEventListener('click', () => state.level?.stepPlayback(-1));
+		this.stepForwardButton.addEventListener('click', () => state.level?.stepPlayback(1));
+		this.slowerButton.addEventListener('click', () => this.changeSpeed(-1));
+		this.fasterButton.addEventListener('click', () => this.changeSpeed(1));
+
+		this.seekSlider.addEventListener('input', () => {
+			this.dragging = true;
+			this.timeElement.textContent = this.getTimeText(Number(this.seekSlider.value), Number(this.seekSlider.max));
+		});
+		this.seekSlider.addEventListener('change', () => {
+			// Only seek once the slider is let go of, since seeking backwards has to re-simulate the replay from the start
+			this.dragging = false;
+			state.level?.seekPlayback(Number(this.seekSlider.value));
+			this.seekSlider.blur(); // So that the arrow keys don't keep seeking
+		});
+	}
+
+	setVisible(visible: boolean) {
+		this.div.classList.toggle('hidden', !visible);
+	}
+
+	/** Goes to the next slower or faster playback speed. */
+	changeSpeed(direction: number) {
+		let level = state.level;
+		if (!level) return;
+
+		let index = PLAYBACK_SPEEDS.indexOf(level.playbackSpeed);
+		level.playbackSpeed = PLAYBACK_SPEEDS[Util.clamp(index + direction, 0, PLAYBACK_SPEEDS.length - 1)];
+	}
+
+	/** Updates the bar to reflect the current state of playback. */
+	update(level: Level) {
+		let replay = level.replay;
+
+		this.playPauseButton.textContent = level.playbackPaused? '▶' : '⏸';
+		this.speedElement.textContent = level.playbackSpeed + '×';
+		this.seekSlider.max = replay.tickCount.toString();
+		if (this.dragging) return;
+
+		this.seekSlider.value = replay.currentTickIndex.toString();
+		this.timeElement.textContent = this.getTimeText(replay.currentTickIndex, replay.tickCount);
+	}
+
+	getTimeText(tickIndex: number, tickCount: number) {
+		let time = Util.secondsToTimeString(tickIndex / PHYSICS_TICK_RATE);
+		let totalTime = Util.secondsToTimeString(tickCount / PHYSICS_TICK_RATE);
+
+		return `${time} / ${totalTime} (tick ${tickIndex})`;
+	}
+}
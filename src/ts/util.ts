@@ -349,43 +349,6 @@ export abstract class Util {
 		return { min, max };
 	}
 
-	/** Unescapes escaped (\) characters. */
-	static unescape(str: string) {
-		let cEscapeRegex = /(^|[^\\])\\x([0-9a-f]{2})/gi; // Matches \xhh
-		let match: RegExpExecArray = null;
-
-		while ((match = cEscapeRegex.exec(str)) !== null) {
-			let code = Number.parseInt(match[2], 16);
-			let char = this.macRomanToUtf8(code); // DUMB
-			str = str.slice(0, match.index) + match[1] + char + str.slice(match.index + match[0].length); // match[1] is "negative lookbehind"
-
-			cEscapeRegex.lastIndex -= 3;
-		}
-
-		let regex = /\\(.)/g;
-		let specialCases: Record<string, string> = {
-			'\\': '\\',
-			't': '\t',
-			'v': '\v',
-			'0': '\0',
-			'f': '\f',
-			'n': '\n',
-			'r': '\r'
-		};
-
-		while ((match = regex.exec(str)) !== null) {
-			let replaceWith: string;
-
-			if (specialCases[match[1]]) replaceWith = specialCases[match[1]];
-			else replaceWith = match[1];
-
-			str = str.slice(0, match.index) + replaceWith + str.slice(match.index + match[0].length);
-			regex.lastIndex--;
-		}
-
-		return str;
-	}
-
 	/** Creates a downsampled version of a cube texture. */
 	static downsampleCubeTexture(renderer: THREE.WebGLRenderer, cubeTexture: THREE.CubeTexture) {
 		let scene = new THREE.Scene();
@@ -399,73 +362,6 @@ export abstract class Util {
 		return camera.renderTarget.texture;
 	}
 
-	/** Splits a string like String.prototype.split, but ignores the splitter if it appears inside string literal tokens. */
-	static splitIgnoreStringLiterals(str: string, splitter: string, strLiteralToken = '"') {
-		let indices: number[] = [];
-
-		let inString = false;
-		for (let i = 0; i < str.length; i++) {
-			let c = str[i];
-
-			if (inString) {
-				if (c === strLiteralToken && str[i-1] !== '\\') inString = false;
-				continue;
-			}
-
-			if (c === strLiteralToken) inString = true;
-			else if (c === splitter) indices.push(i);
-		}
-
-		let parts: string[] = [];
-		let remaining = str;
-
-		for (let i = 0; i < indices.length; i++) {
-			let index = indices[i] - (str.length - remaining.length);
-			let part = remaining.slice(0, index);
-			remaining = remaining.slice(index + 1);
-			parts.push(part);
-		}
-		parts.push(remaining);
-
-		return parts;
-	}
-
-	/** Gets the index of a substring like String.prototype.indexOf, but only if that index lies outside of string literals. */
-	static indexOfIgnoreStringLiterals(str: string, searchString: string, position = 0, strLiteralToken = '"') {
-		let inString = false;
-		for (let i = position; i < str.length; i++) {
-			let c = str[i];
-
-			if (inString) {
-				if (c === strLiteralToken && str[i-1] !== '\\') inString = false;
-				continue;
-			}
-
-			if (c === strLiteralToken) inString = true;
-			else if (str.startsWith(searchString, i)) return i;
-		}
-
-		return -1;
-	}
-
-	/** Returns true iff the supplied index is part of a string literal. */
-	static indexIsInStringLiteral(str: string, index: number, strLiteralToken = '"') {
-		let inString = false;
-		for (let i = 0; i < str.length; i++) {
-			let c = str[i];
-
-			if (inString) {
-				if (i === index) return true;
-				if (c === strLiteralToken && str[i-1] !== '\\') inString = false;
-				continue;
-			}
-
-			if (c === strLiteralToken) inString = true;
-		}
-
-		return false;
-	}
-
 	/** Reorders an array with the given index map. */
 	static remapIndices<T>(arr: T[], indices: number[]) {
 		return indices.map(i => arr[i]);
@@ -579,6 +475,12 @@ export abstract class Util {
 		return string;
 	}
 
+	/** Formats a difference between two times in milliseconds, like "-1.234" or "+1:02.345". */
+	static timeDeltaToString(delta: number) {
+		let string = this.secondsToTimeString(Math.abs(delta) / 1000).replace(/^00:/, '').replace(/^0(?=\d)/, ''); // Drop the minutes if there are none, and leading zeroes
+		return ((delta <= 0)? '-' : '+') + string;
+	}
+
 	static async arrayBufferToBase64(buf: ArrayBuffer) {
 		let blob = new Blob([buf]);
 		let dataUrl = await ResourceManager.readBlobAsDataUrl(blob);
@@ -638,8 +540,9 @@ export abstract class Util {
 		return x * Math.abs(x);
 	}
 	
-	static htmlEscapeElem = document.createElement('p');
+	static htmlEscapeElem: HTMLParagraphElement = null;
 	static htmlEscape(raw: string) {
+		if (!this.htmlEscapeElem) this.htmlEscapeElem = document.createElement('p');
 		this.htmlEscapeElem.textContent = raw;
 		return this.htmlEscapeElem.innerHTML;
 	}
@@ -660,6 +563,20 @@ export abstract class Util {
 		return Math.random().toString();
 	}
 
+	/** Computes a quick, non-cryptographic 53-bit hash of some binary data, as a hex string. Uses cyrb53 by bryc. */
+	static hashArrayBuffer(buf: ArrayBuffer) {
+		let bytes = new Uint8Array(buf);
+		let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+		for (let i = 0; i < bytes.length; i++) {
+			h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+			h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+		}
+		h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+		h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+		return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+	}
+
 	static roundToMultiple(val: number, fac: number) {
 		if (!fac) return val;
 		return Math.round(val / fac) * fac;
@@ -691,13 +608,6 @@ export abstract class Util {
 		return tmax >= tmin;
 	}
 
-	static macRomanToUtf8Map = ['Ä', 'Å', 'Ç', 'É', 'Ñ', 'Ö', 'Ü', 'á', 'à', 'â', 'ä', 'ã', 'å', 'ç', 'é', 'è', 'ê', 'ë', 'í', 'ì', 'î', 'ï', 'ñ', 'ó', 'ò', 'ô', 'ö', 'õ', 'ú', 'ù', 'û', 'ü', '†', '°', '¢', '£', '§', '•', '¶', 'ß', '®', '©', '™', '´', '¨', '≠', 'Æ', 'Ø', '∞', '±', '≤', '≥', '¥', 'µ', '∂', '∑', '∏', 'π', '∫', 'ª', 'º', 'Ω', 'æ', 'ø', '¿', '¡', '¬', '√', 'ƒ', '≈', '∆', '«', '»', '…', ' ', 'À', 'Ã', 'Õ', 'Œ', 'œ', '–', '—', '“', '”', '‘', '’', '÷', '◊', 'ÿ', 'Ÿ', '⁄', '€', '‹', '›', 'ﬁ', 'ﬂ', '‡', '·', '‚', '„', '‰', 'Â', 'Ê', 'Á', 'Ë', 'È', 'Í', 'Î', 'Ï', 'Ì', 'Ó', 'Ô', '🍎', 'Ò', 'Ú', 'Û', 'Ù', 'ı', 'ˆ', '˜', '¯', '˘', '˙', '˚', '¸', '˝', '˛', 'ˇ'];
-	/** Some fonts were apparently compiled on Mac and use this encoding instead of something sensible. Stupid. */
-	static macRomanToUtf8(char: number) {
-		if (char < 128) return String.fromCharCode(char);
-		else return this.macRomanToUtf8Map[char - 128];
-	}
-
 	static supportsInstancing(renderer: THREE.WebGLRenderer) {
 		// Macs weird man
 		return !Util.isMac() && !(renderer.capabilities.isWebGL2 === false && renderer.extensions.has( 'ANGLE_instanced_arrays' ) === false);
@@ -759,7 +669,7 @@ export abstract class Util {
 		return res;
 	}
 }
-Util.isTouchDevice = Util.checkIsTouchDevice(); // Precompute the thing
+Util.isTouchDevice = (typeof window !== 'undefined') && Util.checkIsTouchDevice(); // Precompute the thing (there's no window when running headless)
 
 /** A scheduler can be used to schedule tasks in the future which will be executed when it's time. */
 export abstract class Scheduler {
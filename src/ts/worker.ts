@@ -1,10 +1,14 @@
 import { Util } from "./util";
 
+/** The parsers, loaded into the worker from their own bundle. */
+declare const parsers: typeof import("./parsing_worker");
+
 function workerBody() {
-	const respond = (msgId: string, payload: any) => {
+	const respond = (msgId: string, payload: any, error: string = null) => {
 		self.postMessage({
 			msgId: msgId,
-			data: payload
+			data: payload,
+			error: error
 		});
 	};
 
@@ -13,44 +17,67 @@ function workerBody() {
 		if (!url) {
 			// The first message received will be the url
 			url = e.data;
-			self.importScripts(url + 'lib/pako.js');
+			self.importScripts(url + 'lib/pako.js', url + 'js/parsers.js');
 			return;
 		}
 
 		let data = e.data;
 
-		if (data.command === 'compress') {
-			let compressed = pako.deflate(data.data);
-			respond(e.data.msgId, compressed);
+		try {
+			if (data.command === 'compress') {
+				let compressed = pako.deflate(data.data);
+				respond(e.data.msgId, compressed);
+			} else if (data.command === 'parseDif') {
+				respond(data.msgId, parsers.parseDif(data.data));
+			} else if (data.command === 'parseDts') {
+				respond(data.msgId, parsers.parseDts(data.data));
+			} else if (data.command === 'parseMis') {
+				respond(data.msgId, parsers.parseMis(data.data));
+			}
+		} catch (e) {
+			respond(data.msgId, null, String(e));
 		}
 	};
 }
 
-// Create the worker by converting the function into a blob resource
-let entire = workerBody.toString(); 
-let body = entire.slice(entire.indexOf("{") + 1, entire.lastIndexOf("}"));
-let blob = new Blob([body]);
-let worker = new Worker(URL.createObjectURL(blob));
-let currentPromiseResolves = new Map<string, (data: any) => any>();
+let worker: Worker = null;
+let currentPromises = new Map<string, { resolve: (data: any) => any, reject: (reason: any) => any }>();
+
+/** Returns the worker, creating it on first use. */
+const getWorker = () => {
+	if (worker) return worker;
+
+	// Create the worker by converting the function into a blob resource
+	let entire = workerBody.toString(); 
+	let body = entire.slice(entire.indexOf("{") + 1, entire.lastIndexOf("}"));
+	let blob = new Blob([body]);
+	worker = new Worker(URL.createObjectURL(blob));
+
+	// https://stackoverflow.com/questions/22172426/using-importsscripts-within-blob-in-a-karma-environment
+	worker.postMessage(window.location.href.slice(0, window.location.href.lastIndexOf('/') + 1));
 
-// https://stackoverflow.com/questions/22172426/using-importsscripts-within-blob-in-a-karma-environment
-worker.postMessage(window.location.href.slice(0, window.location.href.lastIndexOf('/') + 1));
+	worker.onmessage = (e) => {
+		let promise = currentPromises.get(e.data.msgId);
+		currentPromises.delete(e.data.msgId);
 
-worker.onmessage = (e) => {
-	currentPromiseResolves.get(e.data.msgId)(e.data.data);
+		if (e.data.error !== null) promise.reject(new Error(e.data.error));
+		else promise.resolve(e.data.data);
+	};
+
+	return worker;
 };
 
-/** Executes a command with a payload on the worker. Returns a promise that resolves with the result. */
-export const executeOnWorker = (command: string, payload: any) => {
+/** Executes a command with a payload on the worker. Returns a promise that resolves with the result, or rejects if the command failed. Objects in `transfer` are moved to the worker instead of being copied. */
+export const executeOnWorker = (command: string, payload: any, transfer: Transferable[] = []) => {
 	let msgId = Util.getRandomId();
-	worker.postMessage({
+	getWorker().postMessage({
 		msgId: msgId,
 		command: command,
 		data: payload
-	});
+	}, transfer);
 
-	let promise = new Promise<any>((resolve) => {
-		currentPromiseResolves.set(msgId, resolve);
+	let promise = new Promise<any>((resolve, reject) => {
+		currentPromises.set(msgId, { resolve, reject });
 	});
 	return promise;
 };
\ No newline at end of file